@@ -1,6 +1,14 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   // Remove deprecated appDir option as it's now default in Next.js 15
+  experimental: {
+    // OCR dependencies load native binaries and worker scripts at runtime, so keep them out of the bundle
+    serverComponentsExternalPackages: ['pdfjs-dist', 'tesseract.js', '@napi-rs/canvas'],
+    // OCR language data is read from node_modules at runtime, which file tracing can't see
+    outputFileTracingIncludes: {
+      '/api/**/*': ['./node_modules/@tesseract.js-data/*/4.0.0_best_int/*'],
+    },
+  },
 }
 
 module.exports = nextConfig
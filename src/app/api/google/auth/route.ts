@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getGoogleAuthUrl } from '@/lib/google-calendar';
+import {
+  isGoogleConfigured,
+  getRedirectUri,
+  setOAuthStateCookie,
+  clearGoogleSessionCookie,
+} from '@/lib/google-session';
+
+// Start the Google OAuth consent flow
+export async function GET(request: NextRequest) {
+  if (!isGoogleConfigured()) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Google Calendar export is not configured. Please set GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET and GOOGLE_TOKEN_SECRET.'
+      },
+      { status: 503 }
+    );
+  }
+
+  const state = crypto.randomBytes(16).toString('hex');
+  const authUrl = getGoogleAuthUrl(process.env.GOOGLE_CLIENT_ID!, getRedirectUri(request), state);
+
+  const response = NextResponse.redirect(authUrl);
+  setOAuthStateCookie(response, state);
+  return response;
+}
+
+// Disconnect the Google account
+export async function DELETE() {
+  const response = NextResponse.json({
+    success: true,
+    message: 'Disconnected from Google Calendar'
+  });
+  clearGoogleSessionCookie(response);
+  return response;
+}
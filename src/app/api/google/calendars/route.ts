@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GoogleCalendarService } from '@/lib/google-calendar';
+import { getGoogleSession, isGoogleConfigured, setGoogleSessionCookie } from '@/lib/google-session';
+import { GoogleCalendarSummary } from '@/types/syllabus';
+
+// List the calendars the connected account can add events to
+export async function GET(request: NextRequest) {
+  if (!isGoogleConfigured()) {
+    return NextResponse.json(
+      { success: false, error: 'Google Calendar export is not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const auth = await getGoogleSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Not connected to Google Calendar' },
+        { status: 401 }
+      );
+    }
+
+    const service = new GoogleCalendarService(auth.session.access_token);
+    const items = await service.getCalendars();
+
+    const calendars: GoogleCalendarSummary[] = items
+      .filter(item => item.id && (item.accessRole === 'owner' || item.accessRole === 'writer'))
+      .map(item => ({
+        id: item.id!,
+        summary: item.summaryOverride || item.summary || item.id!,
+        primary: item.primary || undefined,
+      }));
+
+    const response = NextResponse.json({ success: true, data: calendars });
+    if (auth.refreshed) {
+      setGoogleSessionCookie(response, auth.session);
+    }
+    return response;
+
+  } catch (error) {
+    console.error('Google calendars error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch calendars'
+      },
+      { status: 500 }
+    );
+  }
+}
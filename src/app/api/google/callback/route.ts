@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exchangeCodeForToken } from '@/lib/google-calendar';
+import {
+  GOOGLE_STATE_COOKIE,
+  getRedirectUri,
+  isGoogleConfigured,
+  setGoogleSessionCookie,
+} from '@/lib/google-session';
+
+/**
+ * The consent flow runs in a popup so the unsaved events in the main window survive.
+ * This page reports the outcome to the opener and closes itself.
+ */
+function popupResponse(result: { success: boolean; error?: string }): NextResponse {
+  const message = JSON.stringify({ type: 'google-auth', ...result }).replace(/</g, '\\u003c');
+  const html = `<!DOCTYPE html>
+<html>
+  <head><title>Google Calendar</title></head>
+  <body>
+    <p>${result.success ? 'Connected to Google Calendar. You can close this window.' : 'Google sign-in failed. You can close this window.'}</p>
+    <script>
+      if (window.opener) {
+        window.opener.postMessage(${message}, window.location.origin);
+        window.close();
+      } else {
+        window.location.replace('/');
+      }
+    </script>
+  </body>
+</html>`;
+
+  const response = new NextResponse(html, {
+    status: result.success ? 200 : 400,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+  response.cookies.set(GOOGLE_STATE_COOKIE, '', { path: '/api/google', maxAge: 0 });
+  return response;
+}
+
+export async function GET(request: NextRequest) {
+  if (!isGoogleConfigured()) {
+    return popupResponse({ success: false, error: 'Google Calendar export is not configured' });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+  const expectedState = request.cookies.get(GOOGLE_STATE_COOKIE)?.value;
+
+  if (searchParams.get('error')) {
+    return popupResponse({ success: false, error: 'Google access was denied' });
+  }
+
+  if (!code || !state || state !== expectedState) {
+    return popupResponse({ success: false, error: 'Invalid OAuth state. Please try connecting again.' });
+  }
+
+  try {
+    const tokens = await exchangeCodeForToken(code, process.env.GOOGLE_CLIENT_ID!, getRedirectUri(request));
+    const response = popupResponse({ success: true });
+    setGoogleSessionCookie(response, tokens);
+    return response;
+  } catch (error) {
+    console.error('Google OAuth callback error:', error);
+    return popupResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to authenticate with Google'
+    });
+  }
+}
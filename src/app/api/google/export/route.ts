@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GoogleCalendarService, toCourseKey } from '@/lib/google-calendar';
+import { getGoogleSession, isGoogleConfigured, setGoogleSessionCookie } from '@/lib/google-session';
+import { isValidTimeZone, DEFAULT_TIME_ZONE } from '@/lib/timezone';
+import { isISODate } from '@/lib/date-utils';
+import { SyllabusEvent, GoogleExportResult, GoogleSyncResult } from '@/types/syllabus';
+
+interface ExportRequestBody {
+  events?: SyllabusEvent[];
+  calendarId?: string;
+  newCalendarName?: string;
+  timeZone?: string;
+  courseTimeZones?: Record<string, string>; // by course id, for events whose course uses another zone
+  courseName?: string;
+  syncKey?: string; // stable id of what is being exported, e.g. a workspace course id
+  mode?: 'insert' | 'sync';
+  dryRun?: boolean;
+  deleteAll?: boolean; // confirms a sync with no events, which removes everything exported for the course
+}
+
+/**
+ * Describe why an event can't be exported, or return null when it can
+ */
+function findEventProblem(event: SyllabusEvent): string | null {
+  if (!event || typeof event !== 'object') return 'not an event';
+  if (typeof event.title !== 'string' || !event.title.trim()) return 'missing title';
+  if (!isISODate(String(event.date))) return 'invalid date';
+  return null;
+}
+
+// Push events to the connected Google Calendar. `insert` adds every event,
+// `sync` inserts/patches/deletes so the calendar mirrors the event list.
+export async function POST(request: NextRequest) {
+  if (!isGoogleConfigured()) {
+    return NextResponse.json(
+      { success: false, error: 'Google Calendar export is not configured' },
+      { status: 503 }
+    );
+  }
+
+  let body: ExportRequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+  // Valid JSON can still be null, a number or an array
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json(
+      { success: false, error: 'The request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  const events = Array.isArray(body.events) ? body.events : [];
+
+  // A dropped event would be deleted from the calendar by a sync, so reject the request instead
+  const invalidEvents = events
+    .map((event, index) => ({ index, title: event?.title, problem: findEventProblem(event) }))
+    .filter(invalid => invalid.problem !== null);
+  if (invalidEvents.length > 0) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Fix these events before exporting: ${invalidEvents
+          .map(({ index, title, problem }) => `${typeof title === 'string' && title.trim() ? `"${title}"` : `event ${index + 1}`} (${problem})`)
+          .join(', ')}`,
+        invalidEvents,
+      },
+      { status: 400 }
+    );
+  }
+
+  // An empty sync removes everything exported for the course, so it has to be asked for
+  if (events.length === 0 && !(body.mode === 'sync' && body.deleteAll)) {
+    return NextResponse.json(
+      { success: false, error: 'No events to export' },
+      { status: 400 }
+    );
+  }
+
+  // Synced events are matched to the calendar's copies by id, so an event without one would be inserted again on every sync
+  if (body.mode === 'sync') {
+    const ids = events.map(event => event.id);
+    if (ids.some(id => typeof id !== 'string' || !id)) {
+      return NextResponse.json(
+        { success: false, error: 'Every event needs an id to be synced' },
+        { status: 400 }
+      );
+    }
+    if (new Set(ids).size !== ids.length) {
+      return NextResponse.json(
+        { success: false, error: 'Event ids must be unique to be synced' },
+        { status: 400 }
+      );
+    }
+  }
+
+  if (!body.calendarId && !body.newCalendarName) {
+    return NextResponse.json(
+      { success: false, error: 'Choose a calendar to export to' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const auth = await getGoogleSession(request);
+    if (!auth) {
+      return NextResponse.json(
+        { success: false, error: 'Not connected to Google Calendar' },
+        { status: 401 }
+      );
+    }
+
+    const timeZone = body.timeZone && isValidTimeZone(body.timeZone) ? body.timeZone : DEFAULT_TIME_ZONE;
+    const courseTimeZones = Object.fromEntries(
+      Object.entries(body.courseTimeZones || {}).filter(([, zone]) => typeof zone === 'string' && isValidTimeZone(zone))
+    );
+    const service = new GoogleCalendarService(auth.session.access_token, timeZone, courseTimeZones);
+
+    const courseKey = toCourseKey(body.syncKey || body.courseName || body.newCalendarName);
+    let response: NextResponse;
+
+    if (body.mode === 'sync' && body.dryRun && !body.calendarId) {
+      // Nothing to diff against in a calendar that doesn't exist yet
+      const result: GoogleSyncResult = {
+        calendarId: '',
+        dryRun: true,
+        changes: events.map(event => ({ action: 'insert', title: event.title, date: event.date, eventId: event.id })),
+        unchanged: 0,
+        failed: [],
+      };
+      response = NextResponse.json({ success: true, message: 'Sync preview', data: result });
+    } else {
+      const calendarId = body.calendarId || await service.createSyllabusCalendar(body.newCalendarName!);
+
+      if (body.mode === 'sync') {
+        const result = await service.syncEvents(events, calendarId, courseKey, Boolean(body.dryRun));
+        response = NextResponse.json({
+          success: true,
+          message: result.dryRun
+            ? 'Sync preview'
+            : `Applied ${result.changes.length - result.failed.length} of ${result.changes.length} changes to Google Calendar`,
+          data: result
+        });
+      } else {
+        const { success, failed } = await service.createEvents(events, calendarId, courseKey);
+        const result: GoogleExportResult = { calendarId, success, failed };
+        response = NextResponse.json({
+          success: true,
+          message: `Exported ${success.length} of ${events.length} events to Google Calendar`,
+          data: result
+        });
+      }
+    }
+
+    if (auth.refreshed) {
+      setGoogleSessionCookie(response, auth.session);
+    }
+    return response;
+
+  } catch (error) {
+    console.error('Google export error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export to Google Calendar'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { waitUntil } from '@vercel/functions';
+import { getJobStore, startJobWorkers } from '@/lib/jobs';
+
+// Status, progress and (once completed) the extracted syllabus of a background job
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const store = getJobStore();
+    const job = await store.get(params.id);
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    // Pick up jobs queued before a restart or by another process sharing the store,
+    // and take over processing jobs whose worker stopped renewing its lease
+    if (job.status === 'queued' || job.status === 'processing') {
+      waitUntil(startJobWorkers(store));
+    }
+
+    return NextResponse.json({ success: true, data: job });
+  } catch (error) {
+    console.error('Job lookup error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to look up the job' },
+      { status: 500 }
+    );
+  }
+}
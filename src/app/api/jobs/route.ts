@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { waitUntil } from '@vercel/functions';
+import { describeSource, readSyllabusRequest } from '@/lib/syllabus-pipeline';
+import { getJobStore, startJobWorkers } from '@/lib/jobs';
+
+// Queue a syllabus for background processing; poll GET /api/jobs/:id for the result.
+// Accepts the same file upload or JSON body as /api/process-syllabus.
+export async function POST(request: NextRequest) {
+  try {
+    const syllabusRequest = await readSyllabusRequest(request);
+    if (syllabusRequest instanceof NextResponse) {
+      return syllabusRequest;
+    }
+
+    const store = getJobStore();
+    const job = await store.create(syllabusRequest, describeSource(syllabusRequest.source));
+    // Keep the function alive after responding on serverless hosts; elsewhere the process outlives the request
+    waitUntil(startJobWorkers(store));
+
+    return NextResponse.json(
+      { success: true, message: 'Syllabus queued for processing', data: job },
+      { status: 202, headers: { Location: `/api/jobs/${job.id}` } }
+    );
+  } catch (error) {
+    console.error('Job creation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to queue the syllabus for processing' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,90 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PDFProcessor } from '@/lib/pdf-parser';
-import { SyllabusProcessor } from '@/lib/openai-client';
+import { extractSyllabusText, processSyllabusText, readSyllabusRequest } from '@/lib/syllabus-pipeline';
+import { ExtractionListener, ProcessingStreamMessage } from '@/types/syllabus';
 
 export async function POST(request: NextRequest) {
-  try {
-    // Get the uploaded file
-    const formData = await request.formData();
-    const file = formData.get('file') as File;
-
-    if (!file) {
-      return NextResponse.json(
-        { success: false, error: 'No file uploaded' },
-        { status: 400 }
-      );
-    }
-
-    // Validate file type
-    if (file.type !== 'application/pdf') {
-      return NextResponse.json(
-        { success: false, error: 'Only PDF files are supported' },
-        { status: 400 }
-      );
-    }
-
-    // Validate file size (10MB limit)
-    const maxSize = 10 * 1024 * 1024; // 10MB
-    if (file.size > maxSize) {
-      return NextResponse.json(
-        { success: false, error: 'File size must be less than 10MB' },
-        { status: 400 }
-      );
-    }
-
-    // Convert file to buffer
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    // Extract text from PDF
-    let extractedText: string;
-    try {
-      extractedText = await PDFProcessor.processForAI(buffer);
-    } catch (pdfError) {
-      console.error('PDF processing error:', pdfError);
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: pdfError instanceof Error ? pdfError.message : 'Failed to process PDF' 
-        },
-        { status: 400 }
-      );
-    }
-
-    // Check if we have OpenAI API key
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'OpenAI API key not configured. Please set OPENAI_API_KEY environment variable.' 
-        },
-        { status: 500 }
-      );
-    }
-
-    // Process with OpenAI
-    const syllabusProcessor = new SyllabusProcessor();
-    let processedSyllabus;
-    
-    try {
-      processedSyllabus = await syllabusProcessor.extractEventsWithFallback(extractedText);
-    } catch (aiError) {
-      console.error('AI processing error:', aiError);
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: aiError instanceof Error ? aiError.message : 'Failed to process syllabus with AI' 
-        },
-        { status: 500 }
-      );
-    }
+  // Clients that accept an event stream get progress and partial events while the syllabus is processed
+  if (request.headers.get('accept')?.includes('text/event-stream')) {
+    return streamProcessing(request);
+  }
 
-    // Return successful response
-    return NextResponse.json({
-      success: true,
-      message: `Successfully extracted ${processedSyllabus.events.length} events from syllabus`,
-      data: processedSyllabus
-    });
+  try {
+    return await processRequest(request);
 
   } catch (error) {
     console.error('Unexpected error:', error);
@@ -98,6 +23,83 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Read the syllabus from an upload or JSON body and extract its events
+ */
+async function processRequest(request: NextRequest, listener: ExtractionListener = {}): Promise<NextResponse> {
+  const syllabusRequest = await readSyllabusRequest(request);
+  if (syllabusRequest instanceof NextResponse) {
+    return syllabusRequest;
+  }
+
+  // Extract text from the document
+  let extraction;
+  try {
+    extraction = await extractSyllabusText(syllabusRequest, listener);
+  } catch (extractError) {
+    console.error('Text extraction error:', extractError);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: extractError instanceof Error ? extractError.message : 'Failed to read document' 
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await processSyllabusText(extraction, listener));
+  } catch (aiError) {
+    console.error('AI processing error:', aiError);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: aiError instanceof Error ? aiError.message : 'Failed to process syllabus with AI' 
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Process the syllabus as a Server-Sent Events stream: "progress", "events" and "reset" messages while it runs,
+ * then a "result" or "error" message holding the same body as the JSON response
+ */
+function streamProcessing(request: NextRequest): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = ({ event, data }: ProcessingStreamMessage) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        const response = await processRequest(request, {
+          onProgress: progress => send({ event: 'progress', data: progress }),
+          onEvents: events => send({ event: 'events', data: { events } }),
+          onEventsReset: () => send({ event: 'reset', data: {} }),
+        });
+        const body = await response.json();
+        send(response.ok ? { event: 'result', data: body } : { event: 'error', data: body });
+      } catch (error) {
+        console.error('Unexpected error:', error);
+        send({ event: 'error', data: { success: false, error: 'An unexpected error occurred while processing the syllabus' } });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
 // Handle OPTIONS request for CORS
 export async function OPTIONS() {
   return new NextResponse(null, {
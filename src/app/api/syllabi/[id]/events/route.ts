@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSyllabusStore, readEvents, storageNotConfigured, hasStoreAccess, storeAccessDenied } from '@/lib/syllabus-store';
+
+// The syllabus's events as edited; null until the first save, when the extraction's events apply
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const store = getSyllabusStore();
+  if (!store) {
+    return storageNotConfigured();
+  }
+  if (!hasStoreAccess(request)) {
+    return storeAccessDenied();
+  }
+
+  try {
+    const events = await store.getEvents(params.id);
+    if (!events && !(await store.get(params.id))) {
+      return NextResponse.json(
+        { success: false, error: 'Syllabus not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, data: events ?? null });
+  } catch (error) {
+    console.error('Syllabus events lookup error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load the events' },
+      { status: 500 }
+    );
+  }
+}
+
+// Replace the edited events with the `events` array in the body
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  const store = getSyllabusStore();
+  if (!store) {
+    return storageNotConfigured();
+  }
+  if (!hasStoreAccess(request)) {
+    return storeAccessDenied();
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const events = readEvents(body?.events);
+    if (events instanceof NextResponse) {
+      return events;
+    }
+
+    if (!(await store.saveEvents(params.id, events))) {
+      return NextResponse.json(
+        { success: false, error: 'Syllabus not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, message: 'Events saved', data: events });
+  } catch (error) {
+    console.error('Syllabus events save error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save the events' },
+      { status: 500 }
+    );
+  }
+}
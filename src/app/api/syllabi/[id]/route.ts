@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSyllabusStore, readSyllabusFields, storageNotConfigured, hasStoreAccess, storeAccessDenied } from '@/lib/syllabus-store';
+
+// A saved syllabus: its details and the raw extraction (edited events are at /events)
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const store = getSyllabusStore();
+  if (!store) {
+    return storageNotConfigured();
+  }
+  if (!hasStoreAccess(request)) {
+    return storeAccessDenied();
+  }
+
+  try {
+    const syllabus = await store.get(params.id);
+    if (!syllabus) {
+      return NextResponse.json(
+        { success: false, error: 'Syllabus not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, data: syllabus });
+  } catch (error) {
+    console.error('Syllabus lookup error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load the syllabus' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create or replace a syllabus under this id; its edited events are left as they are
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  const store = getSyllabusStore();
+  if (!store) {
+    return storageNotConfigured();
+  }
+  if (!hasStoreAccess(request)) {
+    return storeAccessDenied();
+  }
+
+  try {
+    const fields = readSyllabusFields(params.id, await request.json().catch(() => null));
+    if (fields instanceof NextResponse) {
+      return fields;
+    }
+
+    const syllabus = await store.save(fields);
+    return NextResponse.json({ success: true, message: 'Syllabus saved', data: syllabus });
+  } catch (error) {
+    console.error('Syllabus save error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save the syllabus' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a syllabus along with its edited events
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const store = getSyllabusStore();
+  if (!store) {
+    return storageNotConfigured();
+  }
+  if (!hasStoreAccess(request)) {
+    return storeAccessDenied();
+  }
+
+  try {
+    if (!(await store.delete(params.id))) {
+      return NextResponse.json(
+        { success: false, error: 'Syllabus not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, message: 'Syllabus deleted' });
+  } catch (error) {
+    console.error('Syllabus delete error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete the syllabus' },
+      { status: 500 }
+    );
+  }
+}
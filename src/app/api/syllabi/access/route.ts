@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSyllabusStore,
+  storageNotConfigured,
+  isStoreSecret,
+  setStoreAccessCookie,
+  clearStoreAccessCookie,
+} from '@/lib/syllabus-store';
+
+// Give this browser access to the saved syllabi with the SYLLABUS_STORE_SECRET in the body
+export async function POST(request: NextRequest) {
+  if (!getSyllabusStore()) {
+    return storageNotConfigured();
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!isStoreSecret(body?.secret)) {
+    return NextResponse.json(
+      { success: false, error: 'Wrong storage password' },
+      { status: 401 }
+    );
+  }
+
+  const response = NextResponse.json({ success: true, message: 'Server storage unlocked' });
+  setStoreAccessCookie(response);
+  return response;
+}
+
+// Sign this browser out of the saved syllabi
+export async function DELETE() {
+  const response = NextResponse.json({ success: true, message: 'Server storage locked' });
+  clearStoreAccessCookie(response);
+  return response;
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSyllabusStore, readEvents, readSyllabusFields, storageNotConfigured, hasStoreAccess, storeAccessDenied } from '@/lib/syllabus-store';
+
+// Every saved syllabus, without its edited events
+export async function GET(request: NextRequest) {
+  const store = getSyllabusStore();
+  if (!store) {
+    return storageNotConfigured();
+  }
+  if (!hasStoreAccess(request)) {
+    return storeAccessDenied();
+  }
+
+  try {
+    return NextResponse.json({ success: true, data: await store.list() });
+  } catch (error) {
+    console.error('Syllabus list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load saved syllabi' },
+      { status: 500 }
+    );
+  }
+}
+
+// Save a new syllabus; an `events` array in the body is saved as its edited events
+export async function POST(request: NextRequest) {
+  const store = getSyllabusStore();
+  if (!store) {
+    return storageNotConfigured();
+  }
+  if (!hasStoreAccess(request)) {
+    return storeAccessDenied();
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const id = typeof body?.id === 'string' && body.id
+      ? body.id
+      : `course-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const fields = readSyllabusFields(id, body);
+    if (fields instanceof NextResponse) {
+      return fields;
+    }
+    // Check the edited events before saving anything, so a bad one doesn't leave a half-saved syllabus
+    const events = body.events === undefined ? undefined : readEvents(body.events);
+    if (events instanceof NextResponse) {
+      return events;
+    }
+    if (await store.get(id)) {
+      return NextResponse.json(
+        { success: false, error: 'A syllabus with this id already exists' },
+        { status: 409 }
+      );
+    }
+
+    const syllabus = await store.save(fields);
+    if (events) {
+      await store.saveEvents(id, events);
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Syllabus saved', data: syllabus },
+      { status: 201, headers: { Location: `/api/syllabi/${id}` } }
+    );
+  } catch (error) {
+    console.error('Syllabus save error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save the syllabus' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,83 +1,492 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
 import FileUpload from '@/components/FileUpload';
 import CalendarView from '@/components/CalendarView';
-import EventEditor from '@/components/EventEditor';
-import { SyllabusEvent, ProcessedSyllabus, EventEditFormData } from '@/types/syllabus';
-import { Download, Calendar, Share2, AlertCircle, CheckCircle } from 'lucide-react';
+import EventEditor, { EventDraft } from '@/components/EventEditor';
+import SyllabusViewer from '@/components/SyllabusViewer';
+import GoogleCalendarExport from '@/components/GoogleCalendarExport';
+import ChangeLog from '@/components/ChangeLog';
+import { SyllabusEvent, ProcessedSyllabus, EventEditFormData, EventSource, GoogleExportResult, GoogleSyncResult, TermInfo, WorkspaceCourse } from '@/types/syllabus';
+import { generateICS, parseICS } from '@/lib/ics';
+import { mergeEvents, EventOverlap } from '@/lib/event-merge';
+import { detectTimeZone, listTimeZones } from '@/lib/timezone';
+import { normalizeTerm, resolveEventDates } from '@/lib/relative-dates';
+import { extractEventsWithRules } from '@/lib/rule-extractor';
+import { findTermConflicts, getTermCalendar, listTermCalendars, skipTermBreaks, termFromCalendar } from '@/lib/term-calendars';
+import { assignCourse, combineCourseEvents, createCourse, getCourseLabel, getCourseTimeZones, getWorkspaceTimeZone } from '@/lib/workspace';
+import { getServerStorageStatus, hashFile, openWorkspaceStorage, saveWorkspaceChanges, setServerStoragePreference, unlockServerStorage, WorkspaceStorage } from '@/lib/workspace-storage';
+import { BulkAction, bulkEditCommand, reviseEvent } from '@/lib/event-edits';
+import { applyCommand, describeCommand, diffCommand, EditHistory, EMPTY_HISTORY, EventCommand, forgetCourse, listEventChanges, recordCommand, revertCommand } from '@/lib/event-history';
+import { Download, Calendar, CalendarRange, Share2, AlertCircle, CheckCircle, Globe, Upload, PanelLeftClose, PanelLeftOpen, Plus, RefreshCw, Trash2, Undo2, Redo2 } from 'lucide-react';
+
+// Upload target for a course that isn't in the workspace yet
+const NEW_COURSE = 'new';
+
+// Changes are saved once editing pauses for this long
+const SAVE_DELAY_MS = 500;
+
+// Sync key of the combined Google export, kept apart from each course's own export
+const WORKSPACE_SYNC_KEY = 'workspace';
 
 export default function Home() {
-  const [processedSyllabus, setProcessedSyllabus] = useState<ProcessedSyllabus | null>(null);
-  const [events, setEvents] = useState<SyllabusEvent[]>([]);
+  const [courses, setCourses] = useState<WorkspaceCourse[]>([]);
+  const [activeCourseId, setActiveCourseId] = useState<string | null>(null);
+  // Where the next upload goes: a new course or the id of the course being re-uploaded; null hides the form
+  const [uploadTarget, setUploadTarget] = useState<string | null>(null);
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [editingEvent, setEditingEvent] = useState<SyllabusEvent | undefined>(undefined);
   const [error, setError] = useState<string>('');
   const [successMessage, setSuccessMessage] = useState<string>('');
+  const [googleExportResult, setGoogleExportResult] = useState<GoogleExportResult | GoogleSyncResult | null>(null);
+  const [importOverlaps, setImportOverlaps] = useState<EventOverlap[]>([]);
+  // Uploaded PDFs by course id, for the side-by-side viewer
+  const [syllabusFiles, setSyllabusFiles] = useState<Record<string, File>>({});
+  const [showSyllabus, setShowSyllabus] = useState(true);
+  const [highlightedSource, setHighlightedSource] = useState<EventSource | undefined>(undefined);
+  const [eventDraft, setEventDraft] = useState<EventDraft | undefined>(undefined);
+  // Events streamed in while a syllabus is still being processed; replaced by the final result
+  const [foundEvents, setFoundEvents] = useState<SyllabusEvent[]>([]);
+  const icsInputRef = useRef<HTMLInputElement>(null);
+  // Event edits that can be undone and redone, for this session only
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  // Where the workspace is saved, once it has been restored from there
+  const [storage, setStorage] = useState<WorkspaceStorage | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+  // Whether the server can save the workspace instead, which this browser has to opt in to
+  const [canSaveOnServer, setCanSaveOnServer] = useState(false);
+  // The courses as last saved, and the saves still in flight so they run one at a time
+  const savedCoursesRef = useRef<WorkspaceCourse[]>([]);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const activeCourse = courses.find(course => course.id === activeCourseId) || courses[0];
+  const processedSyllabus = activeCourse?.syllabus;
+  const events = activeCourse?.events || [];
+  const allEvents = courses.flatMap(course => course.events);
+  // Memoized so the combined Google export keeps its preview between renders
+  const combinedEvents = useMemo(() => combineCourseEvents(courses), [courses]);
+  const eventChanges = useMemo(
+    () => (activeCourse ? listEventChanges(activeCourse.syllabus.events, activeCourse.events) : []),
+    [activeCourse]
+  );
+  const lastCommand = history.undo[history.undo.length - 1];
+  const nextCommand = history.redo[history.redo.length - 1];
+  const syllabusFile = activeCourse ? syllabusFiles[activeCourse.id] : undefined;
+  const replacingCourse = courses.find(course => course.id === uploadTarget);
+  const showUpload = !isRestoring && (courses.length === 0 || uploadTarget !== null);
+
+  const termCalendars = listTermCalendars();
+  const termConflicts = courses.flatMap(course =>
+    course.syllabus.term ? findTermConflicts(course.events, course.syllabus.term) : []);
+
+  // Make sure the current selection is always listed
+  const timeZoneOptions = Array.from(
+    new Set([...(processedSyllabus?.timeZone ? [processedSyllabus.timeZone] : []), ...listTimeZones()])
+  ).sort();
+
+  // Restore the courses saved in an earlier session, then start saving changes
+  useEffect(() => {
+    let cancelled = false;
+    openWorkspaceStorage()
+      .then(async opened => {
+        if (!opened) return;
+        const saved = await opened.load();
+        if (cancelled) return;
+        savedCoursesRef.current = saved;
+        // Keep anything added while the saved courses were loading
+        setCourses(current => [...saved.filter(course => !current.some(c => c.id === course.id)), ...current]);
+        setStorage(opened);
+      })
+      .catch(restoreError => {
+        console.error('Workspace restore error:', restoreError);
+        setError('Could not restore your saved courses');
+      })
+      .finally(() => {
+        if (!cancelled) setIsRestoring(false);
+      });
+    getServerStorageStatus().then(status => {
+      if (!cancelled) setCanSaveOnServer(status !== 'unavailable');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Move the workspace between this browser and the server, keeping the courses open now and any saved there
+  const switchStorage = async (useServer: boolean) => {
+    if (useServer && !window.confirm(
+      'Courses saved on the server are shared with everyone who has its storage password. Save your courses there?'
+    )) return;
+
+    // The server only opens its store to browsers that entered its password
+    if (useServer && await getServerStorageStatus() === 'locked') {
+      const secret = window.prompt('Storage password (SYLLABUS_STORE_SECRET on the server)');
+      if (!secret) return;
+      try {
+        await unlockServerStorage(secret);
+      } catch (unlockError) {
+        setError(unlockError instanceof Error ? unlockError.message : 'Could not unlock server storage');
+        return;
+      }
+    }
+
+    try {
+      setServerStoragePreference(useServer);
+      const opened = await openWorkspaceStorage();
+      if (!opened) return;
+      const saved = await opened.load();
+      const merged = [...saved.filter(course => !courses.some(c => c.id === course.id)), ...courses];
+      await saveWorkspaceChanges(opened, saved, merged);
+      savedCoursesRef.current = merged;
+      // Keep anything changed while the courses were being copied; the next save picks it up
+      setCourses(current => [...saved.filter(course => !current.some(c => c.id === course.id)), ...current]);
+      setStorage(opened);
+    } catch (switchError) {
+      console.error('Workspace storage switch error:', switchError);
+      setServerStoragePreference(!useServer);
+      setError('Could not change where your courses are saved');
+    }
+  };
+
+  useEffect(() => {
+    if (!storage) return;
+    const timer = setTimeout(() => {
+      const previous = savedCoursesRef.current;
+      savedCoursesRef.current = courses;
+      saveQueueRef.current = saveQueueRef.current
+        .then(() => saveWorkspaceChanges(storage, previous, courses))
+        .catch(saveError => {
+          console.error('Workspace save error:', saveError);
+          // Try these changes again with the next save
+          if (savedCoursesRef.current === courses) savedCoursesRef.current = previous;
+          setError('Could not save your changes');
+        });
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [courses, storage]);
+
+  const updateCourse = (courseId: string, update: (course: WorkspaceCourse) => WorkspaceCourse) => {
+    setCourses(current => current.map(course => (course.id === courseId ? update(course) : course)));
+  };
 
-  const handleFileProcessed = (result: ProcessedSyllabus) => {
-    setProcessedSyllabus(result);
-    setEvents(result.events);
+  // Event edits go through the history so they can be undone
+  const runCommand = (command: EventCommand | undefined) => {
+    if (!command) return;
+    setCourses(current => applyCommand(current, command));
+    setHistory(current => recordCommand(current, command));
+  };
+
+  const undo = () => {
+    if (!lastCommand) return;
+    setCourses(current => revertCommand(current, lastCommand));
+    setHistory({ undo: history.undo.slice(0, -1), redo: [...history.redo, lastCommand] });
+    setSuccessMessage(`Undid ${describeCommand(lastCommand)}`);
+    setTimeout(() => setSuccessMessage(''), 3000);
+  };
+
+  const redo = () => {
+    if (!nextCommand) return;
+    setCourses(current => applyCommand(current, nextCommand));
+    setHistory({ undo: [...history.undo, nextCommand], redo: history.redo.slice(0, -1) });
+    setSuccessMessage(`Redid ${describeCommand(nextCommand)}`);
+    setTimeout(() => setSuccessMessage(''), 3000);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), except while typing, where they undo the text instead
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditorOpen) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const getEventCourse = (event: SyllabusEvent): WorkspaceCourse | undefined => {
+    return courses.find(course => course.id === event.courseId) || activeCourse;
+  };
+
+  // Add the syllabus as a new course, or replace the course being re-uploaded; other courses are untouched
+  const handleFileProcessed = (result: ProcessedSyllabus, file?: File) => {
+    const syllabus = { ...result, timeZone: result.timeZone || detectTimeZone() };
+    const course = replacingCourse
+      ? { ...replacingCourse, syllabus, events: assignCourse(syllabus.events, replacingCourse.id), fileName: file?.name, fileHash: undefined }
+      : createCourse(syllabus, courses, file?.name);
+    if (file) {
+      hashFile(file)
+        .then(fileHash => updateCourse(course.id, c => ({ ...c, fileHash })))
+        .catch(hashError => console.warn('Could not hash the syllabus file:', hashError));
+    }
+
+    setCourses(replacingCourse ? courses.map(c => (c.id === course.id ? course : c)) : [...courses, course]);
+    if (replacingCourse) setHistory(forgetCourse(history, course.id));
+    setActiveCourseId(course.id);
+    setUploadTarget(null);
+    setFoundEvents([]);
+    // Only PDFs can be shown in the side-by-side viewer
+    const files = { ...syllabusFiles };
+    delete files[course.id];
+    if (file && (file.type === 'application/pdf' || /\.pdf$/i.test(file.name))) {
+      files[course.id] = file;
+    }
+    setSyllabusFiles(files);
+    setHighlightedSource(undefined);
+    setImportOverlaps([]);
     setError('');
-    setSuccessMessage(`Successfully extracted ${result.events.length} events from your syllabus!`);
+    setSuccessMessage(replacingCourse
+      ? `Re-uploaded ${getCourseLabel(course)}: ${result.events.length} events`
+      : `Successfully extracted ${result.events.length} events from your syllabus!`);
     
     // Clear success message after 5 seconds
     setTimeout(() => setSuccessMessage(''), 5000);
   };
 
+  const handleICSImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = parseICS(await file.text(), {
+        timeZone: processedSyllabus?.timeZone,
+        defaultTimeZone: detectTimeZone(),
+      });
+
+      if (showUpload || !activeCourse) {
+        // Start a new course from the imported file
+        const course = createCourse({
+          events: parsed.events,
+          courseName: parsed.calendarName,
+          timeZone: parsed.timeZone || detectTimeZone(),
+        }, courses, file.name);
+        setCourses([...courses, course]);
+        setActiveCourseId(course.id);
+        setUploadTarget(null);
+        setImportOverlaps([]);
+      } else {
+        const merged = mergeEvents(events, assignCourse(parsed.events, activeCourse.id));
+        runCommand(diffCommand(activeCourse.id, events, merged.events, `import ${file.name}`));
+        setImportOverlaps(merged.overlaps);
+      }
+
+      setError('');
+      setSuccessMessage(`Imported ${parsed.events.length} events from ${file.name}`);
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (importError) {
+      console.error('ICS import error:', importError);
+      handleError(importError instanceof Error ? importError.message : 'Failed to import calendar file');
+    }
+  };
+
+  const removeImportedEvent = (eventId: string) => {
+    const index = events.findIndex(event => event.id === eventId);
+    if (activeCourse && index >= 0) {
+      runCommand({ type: 'delete', courseId: activeCourse.id, event: events[index], index });
+    }
+    setImportOverlaps(importOverlaps.filter(overlap => overlap.incoming.id !== eventId));
+  };
+
+  const dismissOverlap = (overlap: EventOverlap) => {
+    setImportOverlaps(importOverlaps.filter(o => o !== overlap));
+  };
+
+  const selectCourse = (courseId: string) => {
+    if (courseId === activeCourse?.id) return;
+    setActiveCourseId(courseId);
+    setHighlightedSource(undefined);
+    setImportOverlaps([]);
+  };
+
+  const removeCourse = (course: WorkspaceCourse) => {
+    if (!window.confirm(`Remove ${getCourseLabel(course)} and its ${course.events.length} events?`)) return;
+
+    const remaining = courses.filter(c => c.id !== course.id);
+    setCourses(remaining);
+    setHistory(forgetCourse(history, course.id));
+    const files = { ...syllabusFiles };
+    delete files[course.id];
+    setSyllabusFiles(files);
+    if (course.id === activeCourse?.id) {
+      setActiveCourseId(remaining[0]?.id || null);
+      setHighlightedSource(undefined);
+      setImportOverlaps([]);
+    }
+    setGoogleExportResult(null);
+    setSuccessMessage(`Removed ${getCourseLabel(course)}`);
+    setTimeout(() => setSuccessMessage(''), 3000);
+  };
+  // Events keep their id from the first report to the final result, so a repeat replaces the earlier copy
+  const handleEventsFound = (found: SyllabusEvent[]) => {
+    setFoundEvents(current => [...current.filter(event => !found.some(f => f.id === event.id)), ...found]);
+  };
+
   const handleError = (errorMessage: string) => {
+    setFoundEvents([]);
     setError(errorMessage);
     setSuccessMessage('');
   };
 
+  const handleGoogleExported = (result: GoogleExportResult | GoogleSyncResult) => {
+    setGoogleExportResult(result);
+    setError('');
+    if (result.failed.length === 0) {
+      setSuccessMessage('changes' in result
+        ? `Google Calendar is in sync (${result.changes.length} changes applied)!`
+        : `Exported ${result.success.length} events to Google Calendar!`);
+      setTimeout(() => setSuccessMessage(''), 3000);
+    }
+  };
+
   const handleEventEdit = (event: SyllabusEvent) => {
     setEditingEvent(event);
     setIsEditorOpen(true);
   };
 
   const handleEventSave = (eventData: EventEditFormData) => {
-    if (editingEvent) {
+    const course = editingEvent ? getEventCourse(editingEvent) : activeCourse;
+    if (!course) return;
+
+    const before = editingEvent && course.events.find(event => event.id === editingEvent.id);
+    if (before) {
       // Update existing event
-      const updatedEvents = events.map(event => 
-        event.id === editingEvent.id 
-          ? { ...event, ...eventData }
-          : event
-      );
-      setEvents(updatedEvents);
-    } else {
+      runCommand({ type: 'update', courseId: course.id, before, after: reviseEvent(before, eventData) });
+    } else if (!editingEvent) {
       // Create new event
       const newEvent: SyllabusEvent = {
         id: `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        ...eventData
+        ...eventData,
+        ...(eventDraft?.source && { source: eventDraft.source }),
+        courseId: course.id,
       };
-      setEvents([...events, newEvent]);
+      runCommand({ type: 'create', courseId: course.id, event: newEvent, index: course.events.length });
     }
     
     setIsEditorOpen(false);
     setEditingEvent(undefined);
+    setEventDraft(undefined);
     setSuccessMessage(editingEvent ? 'Event updated successfully!' : 'Event created successfully!');
     setTimeout(() => setSuccessMessage(''), 3000);
   };
 
   const handleEventDelete = (eventId: string) => {
-    const updatedEvents = events.filter(event => event.id !== eventId);
-    setEvents(updatedEvents);
-    setSuccessMessage('Event deleted successfully!');
+    const course = courses.find(c => c.events.some(event => event.id === eventId));
+    if (!course) return;
+    const index = course.events.findIndex(event => event.id === eventId);
+    runCommand({ type: 'delete', courseId: course.id, event: course.events[index], index });
+    setSuccessMessage('Event deleted. Press Ctrl+Z to undo.');
+    setTimeout(() => setSuccessMessage(''), 3000);
+  };
+
+  // Apply a list-view action to every selected event as one undoable change, or nothing if any event would be invalid
+  const handleBulkEdit = (eventIds: string[], action: BulkAction) => {
+    const { command, errors } = bulkEditCommand(courses, eventIds, action);
+    if (errors.length > 0) {
+      handleError(`No events were changed. ${errors.length} would be invalid: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? '; ...' : ''}`);
+      return;
+    }
+    if (!command) return;
+
+    runCommand(command);
+    setError('');
+    const label = describeCommand(command);
+    setSuccessMessage(`${label.charAt(0).toUpperCase()}${label.slice(1)}. Press Ctrl+Z to undo.`);
     setTimeout(() => setSuccessMessage(''), 3000);
   };
 
+  const handleTermChange = (changes: Partial<TermInfo>, label: string = 'change the term dates') => {
+    if (!activeCourse) return;
+    const term = normalizeTerm({ ...activeCourse.syllabus.term, ...changes });
+
+    // Move events given as "Week 3 Monday" and the like to match the new term dates,
+    // and keep recurring classes off holidays and breaks; undoing puts back both the term and the dates
+    const resolved = term ? skipTermBreaks(resolveEventDates(events, term), term) : events;
+    const moved = resolved.filter((event, index) => event !== events[index]).length;
+    const settings: EventCommand = {
+      type: 'settings',
+      courseId: activeCourse.id,
+      label,
+      before: { term: activeCourse.syllabus.term },
+      after: { term },
+    };
+    const redated = diffCommand(activeCourse.id, events, resolved, label);
+    runCommand(redated ? { type: 'bulk', label, commands: [settings, redated] } : settings);
+    if (moved > 0) {
+      setSuccessMessage(`Updated ${moved} event${moved === 1 ? '' : 's'} to match the term calendar`);
+      setTimeout(() => setSuccessMessage(''), 3000);
+    }
+  };
+
+  const handleTermCalendarSelect = (id: string) => {
+    const definition = getTermCalendar(id);
+    if (definition) handleTermChange(termFromCalendar(definition), `use the ${definition.name} term calendar`);
+  };
+
+  // Prefill a new event from text selected in the syllabus viewer, using the rule-based matcher for the date
+  const handleCreateFromSelection = (source: EventSource) => {
+    const [match] = extractEventsWithRules(source.text, {
+      year: processedSyllabus?.year,
+      term: processedSyllabus?.term,
+    }).events;
+    const firstLine = source.text.split('\n')[0].trim();
+
+    setEventDraft({
+      values: {
+        title: match?.title || (firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine),
+        description: source.text,
+        ...(match && {
+          date: match.date,
+          time: match.time || '',
+          type: match.type,
+          priority: match.priority,
+          location: match.location || '',
+        }),
+      },
+      source,
+    });
+    setEditingEvent(undefined);
+    setIsEditorOpen(true);
+  };
+
   const handleCreateNewEvent = () => {
+    setEventDraft(undefined);
     setEditingEvent(undefined);
     setIsEditorOpen(true);
   };
 
-  const downloadAsICS = () => {
-    const icsContent = generateICSContent(events);
-    const blob = new Blob([icsContent], { type: 'text/calendar' });
+  const setTimeZone = (timeZone: string) => {
+    if (!activeCourse) return;
+    runCommand({
+      type: 'settings',
+      courseId: activeCourse.id,
+      label: `set the time zone to ${timeZone}`,
+      before: { timeZone: activeCourse.syllabus.timeZone },
+      after: { timeZone },
+    });
+  };
+
+  // Download one course's events, or every course's when none is given
+  const downloadAsICS = (course?: WorkspaceCourse) => {
+    const calendarName = course ? course.syllabus.courseName : 'All courses';
+    const icsContent = generateICS(course ? course.events : combinedEvents, {
+      calendarName,
+      timeZone: course ? course.syllabus.timeZone : getWorkspaceTimeZone(courses),
+      ...(!course && { courseTimeZones: getCourseTimeZones(courses) }),
+    });
+    const blob = new Blob([icsContent], { type: 'text/calendar;charset=utf-8' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${processedSyllabus?.courseName || 'syllabus'}-calendar.ics`;
+    a.download = `${calendarName || 'syllabus'}-calendar.ics`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -86,45 +495,6 @@ export default function Home() {
     setTimeout(() => setSuccessMessage(''), 3000);
   };
 
-  const generateICSContent = (events: SyllabusEvent[]): string => {
-    let ics = 'BEGIN:VCALENDAR\nVERSION:2.0\nPRODID:-//Syllabus to Calendar//EN\n';
-    
-    events.forEach(event => {
-      const startDate = new Date(event.date);
-      let dtstart = startDate.toISOString().replace(/[-:]/g, '').split('.')[0];
-      let dtend = startDate.toISOString().replace(/[-:]/g, '').split('.')[0];
-      
-      if (event.time) {
-        const [hours, minutes] = event.time.split(':').map(Number);
-        startDate.setHours(hours, minutes);
-        const endDate = new Date(startDate);
-        endDate.setHours(endDate.getHours() + 1); // 1 hour duration by default
-        dtstart = startDate.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-        dtend = endDate.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-      } else {
-        // All-day event
-        dtstart = startDate.toISOString().split('T')[0].replace(/-/g, '');
-        const endDate = new Date(startDate);
-        endDate.setDate(endDate.getDate() + 1);
-        dtend = endDate.toISOString().split('T')[0].replace(/-/g, '');
-      }
-
-      ics += `BEGIN:VEVENT\n`;
-      ics += `UID:${event.id}@syllabus-to-calendar\n`;
-      ics += `DTSTART${event.time ? '' : ';VALUE=DATE'}:${dtstart}\n`;
-      ics += `DTEND${event.time ? '' : ';VALUE=DATE'}:${dtend}\n`;
-      ics += `SUMMARY:${event.title}\n`;
-      ics += `DESCRIPTION:${event.description}\\n\\nType: ${event.type}\\nPriority: ${event.priority}\n`;
-      if (event.location) {
-        ics += `LOCATION:${event.location}\n`;
-      }
-      ics += `END:VEVENT\n`;
-    });
-    
-    ics += 'END:VCALENDAR';
-    return ics;
-  };
-
   return (
     <div className="space-y-8">
       {/* Header Section */}
@@ -161,54 +531,173 @@ export default function Home() {
         </div>
       )}
 
+      {isRestoring && (
+        <p className="text-center text-sm text-gray-500">Restoring your saved courses...</p>
+      )}
+
       {/* File Upload Section */}
-      {!processedSyllabus && (
+      {showUpload && (
         <div>
-          <FileUpload onFileProcessed={handleFileProcessed} onError={handleError} />
+          {courses.length > 0 && (
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {replacingCourse ? `Re-upload ${getCourseLabel(replacingCourse)}` : 'Add a course'}
+              </h2>
+              <button
+                onClick={() => setUploadTarget(null)}
+                className="text-sm font-medium text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+
+          <FileUpload
+            onFileProcessed={handleFileProcessed}
+            onError={handleError}
+            onEventsFound={handleEventsFound}
+            onEventsReset={() => setFoundEvents([])}
+          />
+
+          {foundEvents.length > 0 && (
+            <div className="mt-8">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                Found so far ({foundEvents.length} events)
+              </h3>
+              <CalendarView events={foundEvents} />
+            </div>
+          )}
+
+          {!replacingCourse && (
+            <p className="mt-4 text-center text-sm text-gray-500">
+              Already have a calendar?{' '}
+              <button
+                onClick={() => icsInputRef.current?.click()}
+                className="text-blue-600 hover:text-blue-500 font-medium"
+              >
+                Import an .ics file
+              </button>
+            </p>
+          )}
           
           {/* Features Section */}
-          <div className="mt-16 grid grid-cols-1 md:grid-cols-3 gap-8">
-            <div className="text-center">
-              <div className="bg-blue-100 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
-                <Calendar className="w-8 h-8 text-blue-600" />
+          {courses.length === 0 && (
+            <div className="mt-16 grid grid-cols-1 md:grid-cols-3 gap-8">
+              <div className="text-center">
+                <div className="bg-blue-100 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
+                  <Calendar className="w-8 h-8 text-blue-600" />
+                </div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Smart Extraction</h3>
+                <p className="text-gray-600">
+                  AI-powered parsing extracts assignments, exams, and deadlines with high accuracy
+                </p>
               </div>
-              <h3 className="text-lg font-semibold text-gray-900 mb-2">Smart Extraction</h3>
-              <p className="text-gray-600">
-                AI-powered parsing extracts assignments, exams, and deadlines with high accuracy
-              </p>
-            </div>
             
-            <div className="text-center">
-              <div className="bg-green-100 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
-                <Share2 className="w-8 h-8 text-green-600" />
+              <div className="text-center">
+                <div className="bg-green-100 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
+                  <Share2 className="w-8 h-8 text-green-600" />
+                </div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Multiple Formats</h3>
+                <p className="text-gray-600">
+                  Export to Google Calendar, download as .ics file, or view in our web interface
+                </p>
               </div>
-              <h3 className="text-lg font-semibold text-gray-900 mb-2">Multiple Formats</h3>
-              <p className="text-gray-600">
-                Export to Google Calendar, download as .ics file, or view in our web interface
-              </p>
-            </div>
             
-            <div className="text-center">
-              <div className="bg-purple-100 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
-                <Download className="w-8 h-8 text-purple-600" />
+              <div className="text-center">
+                <div className="bg-purple-100 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
+                  <Download className="w-8 h-8 text-purple-600" />
+                </div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Easy Editing</h3>
+                <p className="text-gray-600">
+                  Review and edit extracted events before exporting to your preferred calendar
+                </p>
               </div>
-              <h3 className="text-lg font-semibold text-gray-900 mb-2">Easy Editing</h3>
-              <p className="text-gray-600">
-                Review and edit extracted events before exporting to your preferred calendar
-              </p>
             </div>
-          </div>
+          )}
         </div>
       )}
 
       {/* Calendar and Results Section */}
-      {processedSyllabus && (
+      {activeCourse && processedSyllabus && (
         <div className="space-y-6">
+          {/* Courses in the workspace */}
+          <div className="bg-white rounded-lg border p-4">
+            <div className="flex flex-wrap items-center gap-2">
+              {courses.map(course => (
+                <button
+                  key={course.id}
+                  onClick={() => selectCourse(course.id)}
+                  title={course.syllabus.courseName}
+                  className={`inline-flex items-center px-3 py-1.5 rounded-full border text-sm font-medium transition-colors ${
+                    course.id === activeCourse.id
+                      ? 'border-gray-900 bg-gray-50 text-gray-900'
+                      : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: course.color }} />
+                  {getCourseLabel(course)}
+                  <span className="ml-2 text-xs text-gray-400">{course.events.length}</span>
+                </button>
+              ))}
+              <button
+                onClick={() => setUploadTarget(NEW_COURSE)}
+                disabled={uploadTarget === NEW_COURSE}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add course
+              </button>
+              {storage && (
+                <span className="ml-auto text-xs text-gray-400">
+                  {storage.name === 'server' ? 'Saved on the server' : 'Saved in this browser'}
+                  {canSaveOnServer && (
+                    <button
+                      onClick={() => switchStorage(storage.name !== 'server')}
+                      className="ml-2 font-medium text-blue-600 hover:text-blue-500"
+                    >
+                      {storage.name === 'server' ? 'Keep in this browser instead' : 'Save on the server instead'}
+                    </button>
+                  )}
+                </span>
+              )}
+            </div>
+
+            {/* Exports covering every course */}
+            {courses.length > 1 && (
+              <div className="flex flex-wrap items-center justify-between gap-4 mt-4 pt-4 border-t border-gray-200">
+                <p className="text-sm text-gray-600">
+                  All {courses.length} courses: {allEvents.length} events
+                </p>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => downloadAsICS()}
+                    className="inline-flex items-center px-4 py-2 bg-white text-gray-700 text-sm font-medium border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Download all .ics
+                  </button>
+                  <GoogleCalendarExport
+                    events={combinedEvents}
+                    courseName="All courses"
+                    syncKey={WORKSPACE_SYNC_KEY}
+                    timeZone={getWorkspaceTimeZone(courses)}
+                    courseTimeZones={getCourseTimeZones(courses)}
+                    onExported={handleGoogleExported}
+                    onError={handleError}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
           {/* Course Info */}
           <div className="bg-white rounded-lg border p-6">
             <div className="flex justify-between items-start">
               <div>
-                <h2 className="text-2xl font-bold text-gray-900">
+                <h2 className="flex items-center text-2xl font-bold text-gray-900">
+                  {courses.length > 1 && (
+                    <span className="w-3 h-3 rounded-full mr-3" style={{ backgroundColor: activeCourse.color }} />
+                  )}
                   {processedSyllabus.courseName || 'Course Calendar'}
                 </h2>
                 {processedSyllabus.instructor && (
@@ -217,9 +706,87 @@ export default function Home() {
                 {processedSyllabus.semester && (
                   <p className="text-gray-600">Semester: {processedSyllabus.semester}</p>
                 )}
+                <div className="flex items-center mt-2 text-sm text-gray-600">
+                  <Globe className="w-4 h-4 mr-1" />
+                  <label htmlFor="timeZone" className="mr-2">Time zone:</label>
+                  <select
+                    id="timeZone"
+                    value={processedSyllabus.timeZone}
+                    onChange={(e) => setTimeZone(e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {timeZoneOptions.map(tz => (
+                      <option key={tz} value={tz}>{tz.replace(/_/g, ' ')}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-center mt-2 text-sm text-gray-600">
+                  <CalendarRange className="w-4 h-4 mr-1" />
+                  <label htmlFor="termStart" className="mr-2">Term:</label>
+                  <input
+                    id="termStart"
+                    type="date"
+                    value={processedSyllabus.term?.start || ''}
+                    onChange={(e) => handleTermChange({ start: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <span className="mx-2">to</span>
+                  <input
+                    type="date"
+                    aria-label="Last day of class"
+                    value={processedSyllabus.term?.end || ''}
+                    min={processedSyllabus.term?.start}
+                    disabled={!processedSyllabus.term}
+                    onChange={(e) => handleTermChange({ end: e.target.value || undefined })}
+                    className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+                  />
+                  {processedSyllabus.term?.meetingDays && (
+                    <span className="ml-2 text-gray-500">
+                      Meets {processedSyllabus.term.meetingDays.join(', ')}
+                    </span>
+                  )}
+                  {termCalendars.length > 0 && (
+                    <select
+                      aria-label="Academic calendar"
+                      value=""
+                      onChange={(e) => handleTermCalendarSelect(e.target.value)}
+                      className="ml-2 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Use academic calendar...</option>
+                      {Array.from(new Set(termCalendars.map(option => option.institution))).map(institution => (
+                        <optgroup key={institution} label={institution}>
+                          {termCalendars.filter(option => option.institution === institution).map(option => (
+                            <option key={option.id} value={option.id}>{option.name}</option>
+                          ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                  )}
+                </div>
               </div>
               
               <div className="flex space-x-3">
+                <div className="inline-flex rounded-md border border-gray-300">
+                  <button
+                    onClick={undo}
+                    disabled={!lastCommand}
+                    title={lastCommand ? `Undo ${describeCommand(lastCommand)} (Ctrl+Z)` : 'Nothing to undo'}
+                    aria-label="Undo"
+                    className="px-3 py-2 text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:hover:bg-transparent rounded-l-md transition-colors"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={redo}
+                    disabled={!nextCommand}
+                    title={nextCommand ? `Redo ${describeCommand(nextCommand)} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                    aria-label="Redo"
+                    className="px-3 py-2 text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:hover:bg-transparent border-l border-gray-300 rounded-r-md transition-colors"
+                  >
+                    <Redo2 className="w-4 h-4" />
+                  </button>
+                </div>
+
                 <button
                   onClick={handleCreateNewEvent}
                   className="inline-flex items-center px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700 transition-colors"
@@ -227,9 +794,17 @@ export default function Home() {
                   <Calendar className="w-4 h-4 mr-2" />
                   Add Event
                 </button>
+
+                <button
+                  onClick={() => icsInputRef.current?.click()}
+                  className="inline-flex items-center px-4 py-2 bg-white text-gray-700 text-sm font-medium border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import .ics
+                </button>
                 
                 <button
-                  onClick={downloadAsICS}
+                  onClick={() => downloadAsICS(activeCourse)}
                   className="inline-flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors"
                 >
                   <Download className="w-4 h-4 mr-2" />
@@ -237,40 +812,231 @@ export default function Home() {
                 </button>
               </div>
             </div>
+
+            <div className="flex justify-end mt-4 pt-4 border-t border-gray-200">
+              <GoogleCalendarExport
+                events={events}
+                courseName={processedSyllabus.courseName}
+                syncKey={activeCourse.id}
+                timeZone={processedSyllabus.timeZone}
+                onExported={handleGoogleExported}
+                onError={handleError}
+              />
+            </div>
           </div>
 
-          {/* Calendar View */}
-          <CalendarView 
-            events={events}
-            onEventEdit={handleEventEdit}
-            onEventDelete={handleEventDelete}
-          />
+          {/* Events on holidays, breaks and other non-instructional days */}
+          {termConflicts.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+              <div className="flex">
+                <AlertCircle className="w-5 h-5 text-yellow-500" />
+                <h3 className="ml-3 text-sm font-medium text-yellow-800">
+                  {termConflicts.length} event{termConflicts.length === 1 ? '' : 's'} fall{termConflicts.length === 1 ? 's' : ''} on a non-instructional day
+                </h3>
+              </div>
 
-          {/* Reset Button */}
-          <div className="text-center">
-            <button
-              onClick={() => {
-                setProcessedSyllabus(null);
-                setEvents([]);
-                setError('');
-                setSuccessMessage('');
+              <ul className="mt-4 divide-y divide-yellow-200">
+                {termConflicts.map(({ event, period }) => (
+                  <li key={event.id} className="flex items-center justify-between py-2 text-sm">
+                    <p className="text-yellow-800">
+                      {courses.length > 1 && getEventCourse(event) && `${getCourseLabel(getEventCourse(event)!)}: `}
+                      <span className="font-medium">{event.title}</span> on {event.date} is during {period.name}
+                    </p>
+                    <button
+                      onClick={() => handleEventEdit(event)}
+                      className="ml-4 font-medium text-yellow-700 hover:text-yellow-600 whitespace-nowrap"
+                    >
+                      Edit
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Imported events that overlap existing ones */}
+          {importOverlaps.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+              <div className="flex items-start justify-between">
+                <div className="flex">
+                  <AlertCircle className="w-5 h-5 text-yellow-500" />
+                  <h3 className="ml-3 text-sm font-medium text-yellow-800">
+                    {importOverlaps.length} imported event{importOverlaps.length === 1 ? '' : 's'} may overlap existing ones
+                  </h3>
+                </div>
+                <button
+                  onClick={() => setImportOverlaps([])}
+                  className="text-sm font-medium text-yellow-700 hover:text-yellow-600"
+                >
+                  Keep all
+                </button>
+              </div>
+
+              <ul className="mt-4 divide-y divide-yellow-200">
+                {importOverlaps.map((overlap) => (
+                  <li key={`${overlap.existing.id}-${overlap.incoming.id}`} className="flex items-center justify-between py-2 text-sm">
+                    <p className="text-yellow-800">
+                      <span className="font-medium">{overlap.incoming.title}</span>
+                      {overlap.kind === 'duplicate' ? ' looks like a duplicate of ' : ' clashes with '}
+                      <span className="font-medium">{overlap.existing.title}</span> on {overlap.date}
+                    </p>
+                    <div className="flex space-x-3 ml-4 whitespace-nowrap">
+                      <button
+                        onClick={() => removeImportedEvent(overlap.incoming.id!)}
+                        className="font-medium text-red-600 hover:text-red-500"
+                      >
+                        Remove imported
+                      </button>
+                      <button
+                        onClick={() => dismissOverlap(overlap)}
+                        className="font-medium text-yellow-700 hover:text-yellow-600"
+                      >
+                        Keep both
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Google Calendar Export Results */}
+          {googleExportResult && (
+            <div className="bg-white rounded-lg border p-6">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">Google Calendar Export</h3>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {'changes' in googleExportResult ? (
+                      <>
+                        {googleExportResult.changes.filter(c => c.action === 'insert').length} added,{' '}
+                        {googleExportResult.changes.filter(c => c.action === 'update').length} updated,{' '}
+                        {googleExportResult.changes.filter(c => c.action === 'delete').length} removed,{' '}
+                        {googleExportResult.unchanged} unchanged
+                      </>
+                    ) : (
+                      <>
+                        {googleExportResult.success.length} event{googleExportResult.success.length === 1 ? '' : 's'} added
+                      </>
+                    )}
+                    {googleExportResult.failed.length > 0 && `, ${googleExportResult.failed.length} failed`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setGoogleExportResult(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  ✕
+                </button>
+              </div>
+
+              {googleExportResult.failed.length > 0 && (
+                <ul className="mt-4 divide-y divide-gray-200 border border-red-200 rounded-md bg-red-50">
+                  {('changes' in googleExportResult
+                    ? googleExportResult.failed.map(({ change, error }) => ({ title: change.title, date: change.date, error }))
+                    : googleExportResult.failed.map(({ event, error }) => ({ title: event.title, date: event.date, error }))
+                  ).map(({ title, date, error }, index) => (
+                    <li key={index} className="flex items-start justify-between p-3 text-sm">
+                      <div>
+                        <p className="font-medium text-red-800">{title}</p>
+                        <p className="text-red-700">{error}</p>
+                      </div>
+                      {date && <span className="text-red-600 whitespace-nowrap ml-4">{date}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <a
+                href={`https://calendar.google.com/calendar/r?cid=${encodeURIComponent(googleExportResult.calendarId)}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-block mt-4 text-sm font-medium text-blue-600 hover:text-blue-500"
+              >
+                Open Google Calendar
+              </a>
+            </div>
+          )}
+
+          {/* Calendar View, next to the syllabus when it can be displayed */}
+          {syllabusFile && (
+            <div className="flex justify-end">
+              <button
+                onClick={() => setShowSyllabus(!showSyllabus)}
+                className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-500"
+              >
+                {showSyllabus ? <PanelLeftClose className="w-4 h-4 mr-1" /> : <PanelLeftOpen className="w-4 h-4 mr-1" />}
+                {showSyllabus ? 'Hide syllabus' : 'Show syllabus'}
+              </button>
+            </div>
+          )}
+          <div className={syllabusFile && showSyllabus ? 'grid grid-cols-1 xl:grid-cols-2 gap-6 items-start' : ''}>
+            {syllabusFile && showSyllabus && (
+              <div className="xl:sticky xl:top-4">
+                <SyllabusViewer
+                  file={syllabusFile}
+                  highlight={highlightedSource}
+                  onCreateFromSelection={handleCreateFromSelection}
+                />
+              </div>
+            )}
+            <CalendarView 
+              events={allEvents}
+              courses={courses}
+              term={processedSyllabus.term}
+              onEventSelect={(event) => {
+                // The viewer shows the selected event's own syllabus
+                if (event.courseId && event.courseId !== activeCourse.id) selectCourse(event.courseId);
+                setHighlightedSource(event.source);
               }}
-              className="text-gray-600 hover:text-gray-800 text-sm font-medium transition-colors"
+              onEventEdit={handleEventEdit}
+              onEventDelete={handleEventDelete}
+              onBulkEdit={handleBulkEdit}
+            />
+          </div>
+
+          {/* How the selected course's events differ from the extraction */}
+          <ChangeLog changes={eventChanges} onEventEdit={handleEventEdit} />
+
+          {/* Replace or remove the selected course without touching the others */}
+          <div className="flex justify-center space-x-6">
+            <button
+              onClick={() => setUploadTarget(activeCourse.id)}
+              className="inline-flex items-center text-gray-600 hover:text-gray-800 text-sm font-medium transition-colors"
             >
-              Upload a different syllabus
+              <RefreshCw className="w-4 h-4 mr-1" />
+              Re-upload {getCourseLabel(activeCourse)}
+            </button>
+            <button
+              onClick={() => removeCourse(activeCourse)}
+              className="inline-flex items-center text-red-600 hover:text-red-500 text-sm font-medium transition-colors"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Remove {getCourseLabel(activeCourse)}
             </button>
           </div>
         </div>
       )}
 
+      <input
+        ref={icsInputRef}
+        type="file"
+        accept=".ics,text/calendar"
+        onChange={handleICSImport}
+        className="hidden"
+      />
+
       {/* Event Editor Modal */}
       <EventEditor
         event={editingEvent}
+        draft={eventDraft}
+        term={(editingEvent ? getEventCourse(editingEvent) : activeCourse)?.syllabus.term}
         isOpen={isEditorOpen}
         onSave={handleEventSave}
         onCancel={() => {
           setIsEditorOpen(false);
           setEditingEvent(undefined);
+          setEventDraft(undefined);
         }}
       />
     </div>
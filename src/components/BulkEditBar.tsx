@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useState } from 'react';
+import { SyllabusEvent, WorkspaceCourse } from '@/types/syllabus';
+import { BulkAction } from '@/lib/event-edits';
+import { getCourseLabel } from '@/lib/workspace';
+import { CalendarClock, Copy, MapPin, Trash2, X } from 'lucide-react';
+
+interface BulkEditBarProps {
+  count: number;
+  courses?: WorkspaceCourse[]; // offers moving events between courses when there are several
+  onAction: (action: BulkAction) => void;
+  onClear: () => void;
+}
+
+type ShiftUnit = 'days' | 'weeks';
+
+const selectClassName = 'px-2 py-1 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+export default function BulkEditBar({ count, courses = [], onAction, onClear }: BulkEditBarProps) {
+  const [shiftAmount, setShiftAmount] = useState('1');
+  const [shiftUnit, setShiftUnit] = useState<ShiftUnit>('days');
+  const [location, setLocation] = useState('');
+
+  const amount = Number(shiftAmount);
+  const canShift = Number.isInteger(amount) && amount !== 0;
+
+  const handleShift = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canShift) onAction({ type: 'shift', days: shiftUnit === 'weeks' ? amount * 7 : amount });
+  };
+
+  const handleLocation = (e: React.FormEvent) => {
+    e.preventDefault();
+    onAction({ type: 'set', changes: { location: location.trim() || undefined } });
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete ${count} selected event${count === 1 ? '' : 's'}?`)) {
+      onAction({ type: 'delete' });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 p-4 border-b border-gray-200 bg-blue-50 text-sm">
+      <span className="font-medium text-blue-900">{count} selected</span>
+
+      <form onSubmit={handleShift} className="flex items-center space-x-1">
+        <CalendarClock className="w-4 h-4 text-gray-500" />
+        <label htmlFor="bulkShift" className="text-gray-700">Shift by</label>
+        <input
+          id="bulkShift"
+          type="number"
+          step="1"
+          value={shiftAmount}
+          onChange={(e) => setShiftAmount(e.target.value)}
+          className={`${selectClassName} w-16`}
+        />
+        <select
+          aria-label="Shift unit"
+          value={shiftUnit}
+          onChange={(e) => setShiftUnit(e.target.value as ShiftUnit)}
+          className={selectClassName}
+        >
+          <option value="days">days</option>
+          <option value="weeks">weeks</option>
+        </select>
+        <button
+          type="submit"
+          disabled={!canShift}
+          className="px-2 py-1 font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+        >
+          Apply
+        </button>
+      </form>
+
+      <select
+        aria-label="Set type"
+        value=""
+        onChange={(e) => onAction({ type: 'set', changes: { type: e.target.value as SyllabusEvent['type'] } })}
+        className={selectClassName}
+      >
+        <option value="">Set type...</option>
+        <option value="assignment">Assignment</option>
+        <option value="exam">Exam</option>
+        <option value="reading">Reading</option>
+        <option value="lecture">Lecture</option>
+        <option value="project">Project</option>
+        <option value="quiz">Quiz</option>
+        <option value="other">Other</option>
+      </select>
+
+      <select
+        aria-label="Set priority"
+        value=""
+        onChange={(e) => onAction({ type: 'set', changes: { priority: e.target.value as SyllabusEvent['priority'] } })}
+        className={selectClassName}
+      >
+        <option value="">Set priority...</option>
+        <option value="high">High</option>
+        <option value="medium">Medium</option>
+        <option value="low">Low</option>
+      </select>
+
+      {courses.length > 1 && (
+        <select
+          aria-label="Move to course"
+          value=""
+          onChange={(e) => onAction({ type: 'move', courseId: e.target.value })}
+          className={selectClassName}
+        >
+          <option value="">Move to course...</option>
+          {courses.map(course => (
+            <option key={course.id} value={course.id}>{getCourseLabel(course)}</option>
+          ))}
+        </select>
+      )}
+
+      <form onSubmit={handleLocation} className="flex items-center space-x-1">
+        <MapPin className="w-4 h-4 text-gray-500" />
+        <input
+          type="text"
+          aria-label="Location"
+          placeholder="Location (empty clears)"
+          value={location}
+          onChange={(e) => setLocation(e.target.value)}
+          className={`${selectClassName} w-44`}
+        />
+        <button type="submit" className="px-2 py-1 font-medium text-blue-600 hover:text-blue-500">
+          Set
+        </button>
+      </form>
+
+      <button
+        onClick={() => onAction({ type: 'duplicate' })}
+        className="inline-flex items-center font-medium text-gray-700 hover:text-gray-900"
+      >
+        <Copy className="w-4 h-4 mr-1" />
+        Duplicate
+      </button>
+
+      <button
+        onClick={handleDelete}
+        className="inline-flex items-center font-medium text-red-600 hover:text-red-500"
+      >
+        <Trash2 className="w-4 h-4 mr-1" />
+        Delete
+      </button>
+
+      <button
+        onClick={onClear}
+        aria-label="Clear selection"
+        className="ml-auto text-gray-400 hover:text-gray-600"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -2,24 +2,77 @@
 
 import React, { useState } from 'react';
 import Calendar from 'react-calendar';
-import { SyllabusEvent } from '@/types/syllabus';
-import { Calendar as CalendarIcon, List, Clock, MapPin, AlertCircle } from 'lucide-react';
+import { CalendarViewMode, SyllabusEvent, TermInfo, WorkspaceCourse } from '@/types/syllabus';
+import { expandEvents, describeRecurrence } from '@/lib/recurrence';
+import { addDays, toLocalDate, toLocalISODate } from '@/lib/date-utils';
+import { findNonInstructionalPeriod, getTermEnd, getTermWeek } from '@/lib/relative-dates';
+import { formatDateRange, getWeekDates, groupAgendaWeeks, layoutTimedEvents } from '@/lib/calendar-layout';
+import { isLowConfidence } from '@/lib/provenance';
+import { getCourseLabel } from '@/lib/workspace';
+import { BulkAction } from '@/lib/event-edits';
+import BulkEditBar from './BulkEditBar';
+import { Calendar as CalendarIcon, CalendarDays, ChevronLeft, ChevronRight, List, ListTree, Clock, MapPin, AlertCircle, AlertTriangle, Repeat, Quote } from 'lucide-react';
 
 interface CalendarViewProps {
   events: SyllabusEvent[];
+  courses?: WorkspaceCourse[]; // colors and filters when events come from several courses
+  term?: TermInfo;
+  onEventSelect?: (event: SyllabusEvent) => void;
   onEventEdit?: (event: SyllabusEvent) => void;
   onEventDelete?: (eventId: string) => void;
+  onBulkEdit?: (eventIds: string[], action: BulkAction) => void; // enables multi-select in the list
 }
 
-type ViewMode = 'calendar' | 'list';
+type ViewMode = CalendarViewMode['type'];
 
-export default function CalendarView({ events, onEventEdit, onEventDelete }: CalendarViewProps) {
-  const [viewMode, setViewMode] = useState<ViewMode>('calendar');
+const VIEW_MODES: { mode: ViewMode; label: string; icon: typeof List }[] = [
+  { mode: 'month', label: 'Month', icon: CalendarIcon },
+  { mode: 'week', label: 'Week', icon: CalendarDays },
+  { mode: 'agenda', label: 'Agenda', icon: ListTree },
+  { mode: 'list', label: 'List', icon: List },
+];
+
+// Titles shown in a month cell before "+N more"
+const MONTH_CELL_TITLES = 2;
+
+// Week view: pixels per hour, and the hours always shown (widened to fit earlier or later events)
+const HOUR_HEIGHT = 44;
+const DAY_START_HOUR = 8;
+const DAY_END_HOUR = 18;
+
+/**
+ * "8 AM", "1 PM"
+ */
+function formatHour(hour: number): string {
+  return new Date(2000, 0, 1, hour).toLocaleTimeString('en-US', { hour: 'numeric' });
+}
+
+export default function CalendarView({ events: allEvents, courses = [], term, onEventSelect, onEventEdit, onEventDelete, onBulkEdit }: CalendarViewProps) {
+  const [viewMode, setViewMode] = useState<ViewMode>('month');
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [selectedEvent, setSelectedEvent] = useState<SyllabusEvent | null>(null);
+  const [hiddenCourseIds, setHiddenCourseIds] = useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Anchor for shift-click range selection
+  const [lastSelectedId, setLastSelectedId] = useState<string | null>(null);
+
+  // Course colors and filters only matter once there is more than one course
+  const showCourses = courses.length > 1;
+  const events = showCourses
+    ? allEvents.filter(event => !event.courseId || !hiddenCourseIds.includes(event.courseId))
+    : allEvents;
+
+  const getCourse = (event: SyllabusEvent): WorkspaceCourse | undefined => {
+    return showCourses ? courses.find(course => course.id === event.courseId) : undefined;
+  };
+
+  const toggleCourse = (courseId: string) => {
+    setHiddenCourseIds(hidden =>
+      hidden.includes(courseId) ? hidden.filter(id => id !== courseId) : [...hidden, courseId]);
+  };
 
-  // Group events by date for calendar display
-  const eventsByDate = events.reduce((acc, event) => {
+  // Group events by date for calendar display, one entry per occurrence of recurring events
+  const eventsByDate = expandEvents(events).reduce((acc, event) => {
     const dateStr = event.date;
     if (!acc[dateStr]) {
       acc[dateStr] = [];
@@ -30,26 +83,44 @@ export default function CalendarView({ events, onEventEdit, onEventDelete }: Cal
 
   // Get events for a specific date
   const getEventsForDate = (date: Date): SyllabusEvent[] => {
-    const dateStr = date.toISOString().split('T')[0];
+    const dateStr = toLocalISODate(date);
     return eventsByDate[dateStr] || [];
   };
 
+  // Occurrences share their series id; edits always target the series
+  const getSeriesEvent = (event: SyllabusEvent): SyllabusEvent => {
+    return allEvents.find(e => e.id === event.id) || event;
+  };
+
+  // All-day events first, then by start time
+  const sortByTime = (dayEvents: SyllabusEvent[]): SyllabusEvent[] => {
+    return dayEvents.slice().sort((a, b) => (a.time || '').localeCompare(b.time || ''));
+  };
+
   // Custom tile content for calendar
   const tileContent = ({ date, view }: { date: Date; view: string }) => {
     if (view === 'month') {
       const dayEvents = getEventsForDate(date);
       if (dayEvents.length > 0) {
+        // Titles, earliest first, with the rest counted; the day's full list is beside the calendar
+        const shown = dayEvents.length > MONTH_CELL_TITLES + 1 ? MONTH_CELL_TITLES : dayEvents.length;
         return (
-          <div className="flex flex-wrap justify-center mt-1">
-            {dayEvents.slice(0, 3).map((event, index) => (
+          <div className="mt-1 space-y-0.5">
+            {sortByTime(dayEvents).slice(0, shown).map((event, index) => (
               <div
                 key={index}
-                className={`calendar-event-indicator event-${event.priority}`}
-                title={event.title}
-              />
+                className="calendar-event-title"
+                title={isLowConfidence(event) ? `${event.title} (needs review)` : event.title}
+              >
+                <span
+                  className={`calendar-event-indicator event-${event.priority} ${isLowConfidence(event) ? 'calendar-event-indicator--review' : ''}`}
+                  style={getCourse(event) && { backgroundColor: getCourse(event)!.color }}
+                />
+                <span className="truncate">{event.title}</span>
+              </div>
             ))}
-            {dayEvents.length > 3 && (
-              <div className="text-xs text-gray-500 ml-1">+{dayEvents.length - 3}</div>
+            {dayEvents.length > shown && (
+              <div className="calendar-event-more">+{dayEvents.length - shown} more</div>
             )}
           </div>
         );
@@ -58,12 +129,29 @@ export default function CalendarView({ events, onEventEdit, onEventDelete }: Cal
     return null;
   };
 
+  // Open an event's details and let the page show where it came from
+  const selectEvent = (event: SyllabusEvent) => {
+    setSelectedEvent(event);
+    onEventSelect?.(getSeriesEvent(event));
+  };
+
+  // Shade holidays, breaks and the finals window
+  const tileClassName = ({ date, view }: { date: Date; view: string }) => {
+    if (view !== 'month' || !term) return null;
+    const period = findNonInstructionalPeriod(term, toLocalISODate(date));
+    return period ? `calendar-day--${period.kind}` : null;
+  };
+
+  const selectedPeriod = term ? findNonInstructionalPeriod(term, toLocalISODate(selectedDate)) : undefined;
+
+  const reviewCount = events.filter(isLowConfidence).length;
+
   // Handle date click
   const handleDateClick = (date: Date) => {
     setSelectedDate(date);
     const dayEvents = getEventsForDate(date);
     if (dayEvents.length === 1) {
-      setSelectedEvent(dayEvents[0]);
+      selectEvent(dayEvents[0]);
     } else {
       setSelectedEvent(null);
     }
@@ -115,49 +203,121 @@ export default function CalendarView({ events, onEventEdit, onEventDelete }: Cal
     return priorityOrder[b.priority] - priorityOrder[a.priority];
   });
 
+  // Only events still listed count as selected, so deleted or filtered-out events drop out
+  const selectedEvents = sortedEvents.filter(event => event.id && selectedIds.includes(event.id));
+  const allSelected = sortedEvents.length > 0 && selectedEvents.length === sortedEvents.length;
+
+  // Toggle one event, or with Shift every event between it and the last one toggled
+  const toggleSelection = (event: SyllabusEvent, extendRange: boolean) => {
+    const id = event.id!;
+    const select = !selectedIds.includes(id);
+    const anchor = sortedEvents.findIndex(e => e.id === lastSelectedId);
+    const index = sortedEvents.findIndex(e => e.id === id);
+    const ids = extendRange && anchor >= 0
+      ? sortedEvents.slice(Math.min(anchor, index), Math.max(anchor, index) + 1).map(e => e.id!)
+      : [id];
+
+    setSelectedIds(current => select
+      ? Array.from(new Set([...current, ...ids]))
+      : current.filter(selected => !ids.includes(selected)));
+    setLastSelectedId(id);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : sortedEvents.map(event => event.id!));
+    setLastSelectedId(null);
+  };
+
+  // Week view: the week containing the selected date, with the hours widened to fit its timed events
+  const selectedISODate = toLocalISODate(selectedDate);
+  const weekDates = getWeekDates(selectedISODate);
+  const weekLayouts = weekDates.map(date => layoutTimedEvents(eventsByDate[date] || []));
+  const weekTimes = weekLayouts.flatMap(layouts => layouts.map(({ start, end }) => ({ start, end })));
+  const firstHour = Math.min(DAY_START_HOUR, ...weekTimes.map(({ start }) => Math.floor(start / 60)));
+  const lastHour = Math.max(DAY_END_HOUR, ...weekTimes.map(({ end }) => Math.ceil(end / 60)));
+  const hours = Array.from({ length: lastHour - firstHour }, (_, index) => firstHour + index);
+  const termWeek = term && weekDates[0] <= getTermEnd(term) ? getTermWeek(term, weekDates[0]) : 0;
+
+  const moveWeek = (weeks: number) => {
+    setSelectedDate(toLocalDate(addDays(selectedISODate, weeks * 7)));
+  };
+
+  const agendaWeeks = viewMode === 'agenda' ? groupAgendaWeeks(eventsByDate, term) : [];
+
   return (
     <div className="w-full">
       {/* View Mode Toggle */}
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold text-gray-900">
           Calendar Events ({events.length} total)
+          {reviewCount > 0 && (
+            <span className="ml-3 align-middle inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200">
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              {reviewCount} need{reviewCount === 1 ? 's' : ''} review
+            </span>
+          )}
         </h2>
         <div className="flex bg-gray-100 rounded-lg p-1">
-          <button
-            onClick={() => setViewMode('calendar')}
-            className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-              viewMode === 'calendar'
-                ? 'bg-white text-gray-900 shadow-sm'
-                : 'text-gray-500 hover:text-gray-700'
-            }`}
-          >
-            <CalendarIcon className="w-4 h-4 mr-2" />
-            Calendar
-          </button>
-          <button
-            onClick={() => setViewMode('list')}
-            className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-              viewMode === 'list'
-                ? 'bg-white text-gray-900 shadow-sm'
-                : 'text-gray-500 hover:text-gray-700'
-            }`}
-          >
-            <List className="w-4 h-4 mr-2" />
-            List
-          </button>
+          {VIEW_MODES.map(({ mode, label, icon: Icon }) => (
+            <button
+              key={mode}
+              onClick={() => setViewMode(mode)}
+              className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                viewMode === mode
+                  ? 'bg-white text-gray-900 shadow-sm'
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <Icon className="w-4 h-4 mr-2" />
+              {label}
+            </button>
+          ))}
         </div>
       </div>
 
-      {/* Calendar View */}
-      {viewMode === 'calendar' && (
+      {/* Course filters */}
+      {showCourses && (
+        <div className="flex flex-wrap items-center gap-2 -mt-3 mb-6">
+          {courses.map(course => {
+            const hidden = hiddenCourseIds.includes(course.id);
+            return (
+              <button
+                key={course.id}
+                onClick={() => toggleCourse(course.id)}
+                aria-pressed={!hidden}
+                title={course.syllabus.courseName}
+                className={`inline-flex items-center px-3 py-1 rounded-full border text-xs font-medium transition-colors ${
+                  hidden ? 'border-gray-200 text-gray-400 line-through' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span
+                  className="w-2.5 h-2.5 rounded-full mr-1.5"
+                  style={{ backgroundColor: hidden ? '#d1d5db' : course.color }}
+                />
+                {getCourseLabel(course)}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Month View */}
+      {viewMode === 'month' && (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2">
             <Calendar
               onChange={(date) => handleDateClick(date as Date)}
               value={selectedDate}
               tileContent={tileContent}
+              tileClassName={tileClassName}
               className="w-full"
             />
+            {term?.breaks && term.breaks.length > 0 && (
+              <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500">
+                <span className="flex items-center"><span className="calendar-legend calendar-day--holiday" />Holiday or break</span>
+                <span className="flex items-center"><span className="calendar-legend calendar-day--finals" />Finals</span>
+              </div>
+            )}
           </div>
 
           {/* Selected Date Events */}
@@ -170,27 +330,47 @@ export default function CalendarView({ events, onEventEdit, onEventDelete }: Cal
                 day: 'numeric',
               })}
             </h3>
+            {selectedPeriod && (
+              <p className="-mt-2 mb-3 text-sm text-yellow-700">
+                {selectedPeriod.name}{selectedPeriod.kind === 'finals' ? '' : ' (no classes)'}
+              </p>
+            )}
 
             {getEventsForDate(selectedDate).length > 0 ? (
               <div className="space-y-3">
                 {getEventsForDate(selectedDate).map((event) => (
                   <div
-                    key={event.id}
+                    key={`${event.id}-${event.date}`}
                     className={`p-3 rounded-lg border cursor-pointer hover:shadow-sm transition-shadow ${getPriorityColor(
                       event.priority
                     )}`}
-                    onClick={() => setSelectedEvent(event)}
+                    style={getCourse(event) && { borderLeft: `4px solid ${getCourse(event)!.color}` }}
+                    onClick={() => selectEvent(event)}
                   >
                     <div className="flex items-start space-x-2">
                       <span className="text-lg">{getTypeIcon(event.type)}</span>
                       <div className="flex-1 min-w-0">
-                        <h4 className="font-medium text-sm">{event.title}</h4>
+                        <h4 className="font-medium text-sm">
+                          {isLowConfidence(event) && (
+                            <AlertTriangle className="w-3 h-3 mr-1 inline text-amber-500" aria-label="Needs review" />
+                          )}
+                          {event.title}
+                        </h4>
                         {event.time && (
                           <div className="flex items-center text-xs mt-1 opacity-75">
                             <Clock className="w-3 h-3 mr-1" />
                             {event.time}
                           </div>
                         )}
+                        {event.recurrence && (
+                          <div className="flex items-center text-xs mt-1 opacity-75">
+                            <Repeat className="w-3 h-3 mr-1" />
+                            {describeRecurrence(event.recurrence)}
+                          </div>
+                        )}
+                        {getCourse(event) && (
+                          <div className="text-xs mt-1 opacity-75">{getCourseLabel(getCourse(event)!)}</div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -203,22 +383,258 @@ export default function CalendarView({ events, onEventEdit, onEventDelete }: Cal
         </div>
       )}
 
+      {/* Week View: all-day events on top, timed events placed by start time and duration */}
+      {viewMode === 'week' && (
+        <div className="bg-white rounded-lg border">
+          <div className="flex items-center justify-between p-4 border-b border-gray-200">
+            <button
+              onClick={() => moveWeek(-1)}
+              aria-label="Previous week"
+              className="p-1 rounded-md text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <div className="text-center">
+              <h3 className="font-semibold text-gray-900">{formatDateRange(weekDates[0], weekDates[6])}</h3>
+              {termWeek > 0 && <p className="text-sm text-gray-500">Week {termWeek} of the term</p>}
+            </div>
+            <button
+              onClick={() => moveWeek(1)}
+              aria-label="Next week"
+              className="p-1 rounded-md text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <div className="min-w-[720px]">
+              <div className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))] border-b border-gray-200">
+                <div />
+                {weekDates.map(date => {
+                  const period = term ? findNonInstructionalPeriod(term, date) : undefined;
+                  const isToday = date === toLocalISODate(new Date());
+                  return (
+                    <button
+                      key={date}
+                      onClick={() => setSelectedDate(toLocalDate(date))}
+                      title={period?.name}
+                      className={`px-1 py-2 border-l border-gray-200 text-center text-sm ${
+                        period ? (period.kind === 'finals' ? 'bg-violet-50' : 'bg-amber-50') : ''
+                      } ${date === selectedISODate ? 'font-semibold' : ''}`}
+                    >
+                      <span className="block text-xs text-gray-500">
+                        {toLocalDate(date).toLocaleDateString('en-US', { weekday: 'short' })}
+                      </span>
+                      <span className={isToday ? 'inline-block px-1.5 rounded-full bg-blue-600 text-white' : 'text-gray-900'}>
+                        {toLocalDate(date).getDate()}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))] border-b border-gray-200">
+                <div className="px-1 py-2 text-xs text-gray-500 text-right">All day</div>
+                {weekDates.map(date => (
+                  <div key={date} className="p-1 space-y-1 border-l border-gray-200 min-h-[2.5rem]">
+                    {(eventsByDate[date] || []).filter(event => !event.time).map(event => (
+                      <button
+                        key={`${event.id}-${event.date}`}
+                        onClick={() => selectEvent(event)}
+                        title={event.title}
+                        className={`block w-full truncate px-1.5 py-0.5 rounded border text-left text-xs ${getPriorityColor(event.priority)}`}
+                        style={getCourse(event) && { borderLeft: `3px solid ${getCourse(event)!.color}` }}
+                      >
+                        {isLowConfidence(event) && <AlertTriangle className="w-3 h-3 mr-1 inline text-amber-500" />}
+                        {event.title}
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))]">
+                <div>
+                  {hours.map(hour => (
+                    <div key={hour} className="pr-2 text-right text-xs text-gray-400" style={{ height: HOUR_HEIGHT }}>
+                      {formatHour(hour)}
+                    </div>
+                  ))}
+                </div>
+                {weekDates.map((date, dayIndex) => (
+                  <div key={date} className="relative border-l border-gray-200" style={{ height: hours.length * HOUR_HEIGHT }}>
+                    {hours.map(hour => (
+                      <div key={hour} className="border-t border-gray-100" style={{ height: HOUR_HEIGHT }} />
+                    ))}
+                    {weekLayouts[dayIndex].map(({ event, start, end, lane, lanes }) => (
+                      <button
+                        key={`${event.id}-${event.date}`}
+                        onClick={() => selectEvent(event)}
+                        title={`${event.time} ${event.title}`}
+                        className={`absolute overflow-hidden px-1 py-0.5 rounded border text-left text-xs leading-tight hover:shadow-sm ${getPriorityColor(event.priority)}`}
+                        style={{
+                          top: ((start - firstHour * 60) / 60) * HOUR_HEIGHT,
+                          height: Math.max(((end - start) / 60) * HOUR_HEIGHT, 18),
+                          left: `${(lane / lanes) * 100}%`,
+                          width: `${100 / lanes}%`,
+                          ...(getCourse(event) && { borderLeft: `3px solid ${getCourse(event)!.color}` }),
+                        }}
+                      >
+                        <span className="block font-medium truncate">
+                          {isLowConfidence(event) && <AlertTriangle className="w-3 h-3 mr-1 inline text-amber-500" />}
+                          {event.title}
+                        </span>
+                        <span className="block opacity-75">{event.time}</span>
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Agenda View: events grouped by week of term */}
+      {viewMode === 'agenda' && (
+        <div className="bg-white rounded-lg border">
+          {agendaWeeks.length > 0 ? (
+            <div className="divide-y divide-gray-200">
+              {agendaWeeks.map(week => (
+                <section key={week.start} className="p-4">
+                  <h3 className="font-semibold text-gray-900">
+                    {week.label}
+                    <span className="ml-2 text-sm font-normal text-gray-500">
+                      {formatDateRange(week.start, addDays(week.start, 6))}
+                    </span>
+                  </h3>
+                  <div className="mt-3 space-y-3">
+                    {week.days.map(day => {
+                      const period = term ? findNonInstructionalPeriod(term, day.date) : undefined;
+                      return (
+                        <div key={day.date} className="flex">
+                          <div className="w-28 shrink-0 text-sm text-gray-600">
+                            {toLocalDate(day.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                            {period && <span className="block text-xs text-yellow-700">{period.name}</span>}
+                          </div>
+                          <ul className="flex-1 space-y-1">
+                            {day.events.map(event => (
+                              <li
+                                key={`${event.id}-${event.date}`}
+                                onClick={() => selectEvent(event)}
+                                className="flex items-center px-2 py-1 rounded-md text-sm cursor-pointer hover:bg-gray-50"
+                                style={getCourse(event) && { borderLeft: `3px solid ${getCourse(event)!.color}` }}
+                              >
+                                <span className="w-16 shrink-0 text-gray-500">{event.time || 'All day'}</span>
+                                <span className="mr-2">{getTypeIcon(event.type)}</span>
+                                <span className="font-medium text-gray-900 truncate">
+                                  {isLowConfidence(event) && (
+                                    <AlertTriangle className="w-3 h-3 mr-1 inline text-amber-500" aria-label="Needs review" />
+                                  )}
+                                  {event.title}
+                                </span>
+                                {getCourse(event) && (
+                                  <span className="ml-2 text-xs text-gray-500">{getCourseLabel(getCourse(event)!)}</span>
+                                )}
+                                {event.location && (
+                                  <span className="ml-auto pl-2 flex items-center text-xs text-gray-500 whitespace-nowrap">
+                                    <MapPin className="w-3 h-3 mr-1" />
+                                    {event.location}
+                                  </span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </section>
+              ))}
+            </div>
+          ) : (
+            <div className="p-8 text-center">
+              <AlertCircle className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-500">No events to display</p>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* List View */}
       {viewMode === 'list' && (
         <div className="bg-white rounded-lg border">
+          {onBulkEdit && sortedEvents.length > 0 && (
+            selectedEvents.length > 0 ? (
+              <BulkEditBar
+                count={selectedEvents.length}
+                courses={courses}
+                onAction={(action) => onBulkEdit(selectedEvents.map(event => event.id!), action)}
+                onClear={() => setSelectedIds([])}
+              />
+            ) : (
+              <div className="px-4 py-3 border-b border-gray-200 text-sm text-gray-500">
+                Select events to shift, edit, duplicate or delete several at once (Shift-click selects a range)
+              </div>
+            )
+          )}
           {sortedEvents.length > 0 ? (
             <div className="divide-y divide-gray-200">
+              {onBulkEdit && (
+                <label className="flex items-center px-4 py-2 text-sm text-gray-600 bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleAll}
+                    className="w-4 h-4 mr-3 rounded border-gray-300"
+                  />
+                  Select all
+                </label>
+              )}
               {sortedEvents.map((event) => (
                 <div
                   key={event.id}
-                  className="p-4 hover:bg-gray-50 cursor-pointer transition-colors"
-                  onClick={() => setSelectedEvent(event)}
+                  className={`p-4 hover:bg-gray-50 cursor-pointer transition-colors ${
+                    isLowConfidence(event) ? 'border-l-4 border-amber-400 bg-amber-50/40' : ''
+                  } ${selectedIds.includes(event.id!) ? 'bg-blue-50' : ''}`}
+                  onClick={() => selectEvent(event)}
                 >
                   <div className="flex items-start space-x-3">
+                    {onBulkEdit && (
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${event.title}`}
+                        checked={selectedIds.includes(event.id!)}
+                        readOnly
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          toggleSelection(event, e.shiftKey);
+                        }}
+                        className="w-4 h-4 mt-2 rounded border-gray-300"
+                      />
+                    )}
                     <span className="text-2xl">{getTypeIcon(event.type)}</span>
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center justify-between">
-                        <h3 className="font-medium text-gray-900">{event.title}</h3>
+                        <h3 className="font-medium text-gray-900">
+                          {getCourse(event) && (
+                            <span className="inline-flex items-center mr-2 text-xs font-medium text-gray-500">
+                              <span
+                                className="w-2.5 h-2.5 rounded-full mr-1"
+                                style={{ backgroundColor: getCourse(event)!.color }}
+                              />
+                              {getCourseLabel(getCourse(event)!)}
+                            </span>
+                          )}
+                          {event.title}
+                        </h3>
+                        {isLowConfidence(event) && (
+                          <span className="ml-auto mr-2 inline-flex items-center text-xs font-medium text-amber-700">
+                            <AlertTriangle className="w-3 h-3 mr-1" />
+                            Needs review ({Math.round(event.confidence! * 100)}%)
+                          </span>
+                        )}
                         <span
                           className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityColor(
                             event.priority
@@ -247,6 +663,12 @@ export default function CalendarView({ events, onEventEdit, onEventDelete }: Cal
                             {event.location}
                           </div>
                         )}
+                        {event.recurrence && (
+                          <div className="flex items-center">
+                            <Repeat className="w-4 h-4 mr-1" />
+                            {describeRecurrence(event.recurrence)}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -269,7 +691,18 @@ export default function CalendarView({ events, onEventEdit, onEventDelete }: Cal
             <div className="flex items-start justify-between mb-4">
               <div className="flex items-center space-x-2">
                 <span className="text-2xl">{getTypeIcon(selectedEvent.type)}</span>
-                <h3 className="text-lg font-semibold text-gray-900">{selectedEvent.title}</h3>
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{selectedEvent.title}</h3>
+                  {getCourse(selectedEvent) && (
+                    <p className="flex items-center text-sm text-gray-500">
+                      <span
+                        className="w-2.5 h-2.5 rounded-full mr-1"
+                        style={{ backgroundColor: getCourse(selectedEvent)!.color }}
+                      />
+                      {getCourse(selectedEvent)!.syllabus.courseName || getCourseLabel(getCourse(selectedEvent)!)}
+                    </p>
+                  )}
+                </div>
               </div>
               <button
                 onClick={() => setSelectedEvent(null)}
@@ -281,11 +714,31 @@ export default function CalendarView({ events, onEventEdit, onEventDelete }: Cal
 
             <div className="space-y-3">
               <p className="text-gray-700">{selectedEvent.description}</p>
+
+              {isLowConfidence(selectedEvent) && (
+                <div className="flex items-center text-sm text-amber-700">
+                  <AlertTriangle className="w-4 h-4 mr-1" />
+                  Low confidence ({Math.round(selectedEvent.confidence! * 100)}%): check this against the syllabus
+                </div>
+              )}
+
+              {selectedEvent.source && (
+                <blockquote className="p-3 text-sm text-gray-600 bg-gray-50 border-l-4 border-gray-300 rounded">
+                  <div className="flex items-center mb-1 text-xs font-medium text-gray-500">
+                    <Quote className="w-3 h-3 mr-1" />
+                    From the syllabus{selectedEvent.source.page ? `, page ${selectedEvent.source.page}` : ''}
+                  </div>
+                  <p className="whitespace-pre-line">{selectedEvent.source.text}</p>
+                </blockquote>
+              )}
               
               <div className="flex items-center space-x-4 text-sm">
                 <div className="flex items-center text-gray-600">
                   <CalendarIcon className="w-4 h-4 mr-1" />
                   {new Date(selectedEvent.date).toLocaleDateString()}
+                  {selectedEvent.dateExpression && (
+                    <span className="ml-1 text-gray-400">(&quot;{selectedEvent.dateExpression}&quot;)</span>
+                  )}
                 </div>
                 {selectedEvent.time && (
                   <div className="flex items-center text-gray-600">
@@ -302,6 +755,13 @@ export default function CalendarView({ events, onEventEdit, onEventDelete }: Cal
                 </div>
               )}
 
+              {selectedEvent.recurrence && (
+                <div className="flex items-center text-sm text-gray-600">
+                  <Repeat className="w-4 h-4 mr-1" />
+                  {describeRecurrence(selectedEvent.recurrence)}
+                </div>
+              )}
+
               <div className="flex items-center justify-between pt-2">
                 <span
                   className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityColor(
@@ -320,7 +780,7 @@ export default function CalendarView({ events, onEventEdit, onEventDelete }: Cal
               {onEventEdit && (
                 <button
                   onClick={() => {
-                    onEventEdit(selectedEvent);
+                    onEventEdit(getSeriesEvent(selectedEvent));
                     setSelectedEvent(null);
                   }}
                   className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors"
@@ -331,12 +791,14 @@ export default function CalendarView({ events, onEventEdit, onEventDelete }: Cal
               {onEventDelete && (
                 <button
                   onClick={() => {
+                    const target = selectedEvent.recurrence ? `every occurrence of "${selectedEvent.title}"` : `"${selectedEvent.title}"`;
+                    if (!window.confirm(`Delete ${target}?`)) return;
                     onEventDelete(selectedEvent.id!);
                     setSelectedEvent(null);
                   }}
                   className="flex-1 bg-red-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-red-700 transition-colors"
                 >
-                  Delete
+                  {selectedEvent.recurrence ? 'Delete Series' : 'Delete'}
                 </button>
               )}
             </div>
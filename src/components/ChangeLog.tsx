@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useState } from 'react';
+import { SyllabusEvent } from '@/types/syllabus';
+import { EventChange, EventChangeField } from '@/lib/event-history';
+import { describeRecurrence } from '@/lib/recurrence';
+import { ChevronDown, ChevronRight, History, Minus, Pencil, Plus } from 'lucide-react';
+
+interface ChangeLogProps {
+  changes: EventChange[];
+  onEventEdit?: (event: SyllabusEvent) => void;
+}
+
+const FIELD_LABELS: Record<EventChangeField, string> = {
+  title: 'Title',
+  description: 'Description',
+  date: 'Date',
+  time: 'Time',
+  type: 'Type',
+  priority: 'Priority',
+  location: 'Location',
+  duration: 'Duration',
+  recurrence: 'Repeats',
+};
+
+/**
+ * A field's value as shown in the log
+ */
+function formatField(event: SyllabusEvent, field: EventChangeField): string {
+  switch (field) {
+    case 'recurrence':
+      return event.recurrence ? describeRecurrence(event.recurrence) : 'does not repeat';
+    case 'duration':
+      return event.duration ? `${event.duration} min` : 'none';
+    default:
+      return event[field] ? String(event[field]) : 'none';
+  }
+}
+
+export default function ChangeLog({ changes, onEventEdit }: ChangeLogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const counts = {
+    added: changes.filter(change => change.kind === 'added').length,
+    modified: changes.filter(change => change.kind === 'modified').length,
+    removed: changes.filter(change => change.kind === 'removed').length,
+  };
+
+  return (
+    <div className="bg-white rounded-lg border p-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={changes.length === 0}
+        className="flex items-center w-full text-left disabled:cursor-default"
+      >
+        <History className="w-5 h-5 text-gray-500" />
+        <h3 className="ml-3 text-lg font-semibold text-gray-900">Changes from the extracted syllabus</h3>
+        <span className="ml-3 text-sm text-gray-500">
+          {changes.length === 0
+            ? 'None yet'
+            : `${counts.added} added, ${counts.modified} edited, ${counts.removed} removed`}
+        </span>
+        {changes.length > 0 && (
+          isOpen ? <ChevronDown className="w-5 h-5 ml-auto text-gray-400" /> : <ChevronRight className="w-5 h-5 ml-auto text-gray-400" />
+        )}
+      </button>
+
+      {isOpen && changes.length > 0 && (
+        <ul className="mt-4 divide-y divide-gray-200">
+          {changes.map(({ kind, event, original, fields }) => (
+            <li key={`${kind}-${event.id}`} className="flex items-start justify-between py-3 text-sm">
+              <div className="flex items-start">
+                {kind === 'added' && <Plus className="w-4 h-4 mt-0.5 text-green-600" />}
+                {kind === 'modified' && <Pencil className="w-4 h-4 mt-0.5 text-blue-600" />}
+                {kind === 'removed' && <Minus className="w-4 h-4 mt-0.5 text-red-600" />}
+                <div className="ml-3">
+                  <p className={`font-medium ${kind === 'removed' ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+                    {event.title}
+                    <span className="ml-2 font-normal text-gray-500">{event.date}</span>
+                  </p>
+                  {kind === 'added' && <p className="text-gray-500">Added by hand or imported</p>}
+                  {kind === 'removed' && <p className="text-gray-500">Removed</p>}
+                  {original && fields.map(field => (
+                    <p key={field} className="text-gray-600">
+                      {FIELD_LABELS[field]}:{' '}
+                      {field === 'description' ? 'changed' : (
+                        <>
+                          <span className="line-through text-gray-400">{formatField(original, field)}</span>
+                          {' → '}
+                          {formatField(event, field)}
+                        </>
+                      )}
+                    </p>
+                  ))}
+                </div>
+              </div>
+              {onEventEdit && kind !== 'removed' && (
+                <button
+                  onClick={() => onEventEdit(event)}
+                  className="ml-4 font-medium text-blue-600 hover:text-blue-500 whitespace-nowrap"
+                >
+                  Edit
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
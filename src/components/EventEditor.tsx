@@ -1,17 +1,38 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { SyllabusEvent, EventEditFormData } from '@/types/syllabus';
-import { Save, X, Calendar, Clock, MapPin, Type } from 'lucide-react';
+import { SyllabusEvent, EventEditFormData, EventRecurrence, EventSource, TermInfo, Weekday } from '@/types/syllabus';
+import { getWeekday } from '@/lib/date-utils';
+import { findTermConflicts } from '@/lib/term-calendars';
+import { isLowConfidence } from '@/lib/provenance';
+import { EventFieldErrors, toEventFormData, validateEventFields } from '@/lib/event-validation';
+import { Save, X, Calendar, Clock, MapPin, Type, Repeat, AlertTriangle, Quote } from 'lucide-react';
+
+const WEEKDAY_OPTIONS: { value: Weekday; label: string }[] = [
+  { value: 'MO', label: 'Mon' },
+  { value: 'TU', label: 'Tue' },
+  { value: 'WE', label: 'Wed' },
+  { value: 'TH', label: 'Thu' },
+  { value: 'FR', label: 'Fri' },
+  { value: 'SA', label: 'Sat' },
+  { value: 'SU', label: 'Sun' },
+];
+
+export interface EventDraft {
+  values: Partial<EventEditFormData>;
+  source?: EventSource;
+}
 
 interface EventEditorProps {
   event?: SyllabusEvent;
+  draft?: EventDraft; // prefill for a new event
+  term?: TermInfo;
   onSave: (eventData: EventEditFormData) => void;
   onCancel: () => void;
   isOpen: boolean;
 }
 
-export default function EventEditor({ event, onSave, onCancel, isOpen }: EventEditorProps) {
+export default function EventEditor({ event, draft, term, onSave, onCancel, isOpen }: EventEditorProps) {
   const [formData, setFormData] = useState<EventEditFormData>({
     title: '',
     description: '',
@@ -22,21 +43,13 @@ export default function EventEditor({ event, onSave, onCancel, isOpen }: EventEd
     location: '',
   });
 
-  const [errors, setErrors] = useState<Partial<EventEditFormData>>({});
+  const [errors, setErrors] = useState<EventFieldErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Initialize form data when event changes
   useEffect(() => {
     if (event) {
-      setFormData({
-        title: event.title,
-        description: event.description,
-        date: event.date,
-        time: event.time || '',
-        type: event.type,
-        priority: event.priority,
-        location: event.location || '',
-      });
+      setFormData(toEventFormData(event));
     } else {
       // Reset form for new event
       setFormData({
@@ -47,10 +60,11 @@ export default function EventEditor({ event, onSave, onCancel, isOpen }: EventEd
         type: 'other',
         priority: 'medium',
         location: '',
+        ...draft?.values,
       });
     }
     setErrors({});
-  }, [event, isOpen]);
+  }, [event, draft, isOpen]);
 
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
@@ -64,31 +78,51 @@ export default function EventEditor({ event, onSave, onCancel, isOpen }: EventEd
     }
   };
 
-  const validateForm = (): boolean => {
-    const newErrors: Partial<EventEditFormData> = {};
-
-    if (!formData.title.trim()) {
-      newErrors.title = 'Title is required';
-    }
+  const handleRepeatChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const frequency = e.target.value as EventRecurrence['frequency'] | '';
+    setFormData(prev => ({
+      ...prev,
+      recurrence: frequency
+        ? {
+            ...prev.recurrence,
+            frequency,
+            daysOfWeek: prev.recurrence?.daysOfWeek.length
+              ? prev.recurrence.daysOfWeek
+              : prev.date ? [getWeekday(prev.date)] : [],
+          }
+        : undefined,
+    }));
+    setErrors(prev => ({ ...prev, recurrence: undefined }));
+  };
 
-    if (!formData.date) {
-      newErrors.date = 'Date is required';
-    } else {
-      // Validate date format
-      const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-      if (!dateRegex.test(formData.date)) {
-        newErrors.date = 'Invalid date format';
-      }
-    }
+  const toggleRepeatDay = (day: Weekday) => {
+    setFormData(prev => {
+      if (!prev.recurrence) return prev;
+      const selected = prev.recurrence.daysOfWeek.includes(day)
+        ? prev.recurrence.daysOfWeek.filter(d => d !== day)
+        : [...prev.recurrence.daysOfWeek, day];
+      return {
+        ...prev,
+        recurrence: {
+          ...prev.recurrence,
+          daysOfWeek: WEEKDAY_OPTIONS.map(o => o.value).filter(d => selected.includes(d)),
+        },
+      };
+    });
+    setErrors(prev => ({ ...prev, recurrence: undefined }));
+  };
 
-    if (formData.time) {
-      // Validate time format (HH:MM)
-      const timeRegex = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
-      if (!timeRegex.test(formData.time)) {
-        newErrors.time = 'Invalid time format (use HH:MM)';
-      }
-    }
+  const handleRepeatUntilChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const until = e.target.value;
+    setFormData(prev => prev.recurrence
+      ? { ...prev, recurrence: { ...prev.recurrence, until: until || undefined } }
+      : prev
+    );
+    setErrors(prev => ({ ...prev, recurrence: undefined }));
+  };
 
+  const validateForm = (): boolean => {
+    const newErrors = validateEventFields(formData);
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -127,6 +161,11 @@ export default function EventEditor({ event, onSave, onCancel, isOpen }: EventEd
 
   if (!isOpen) return null;
 
+  const source = event ? event.source : draft?.source;
+
+  // Warn, without blocking, about dates on holidays and breaks
+  const datePeriod = term && formData.date ? findTermConflicts([formData], term)[0]?.period : undefined;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
@@ -143,6 +182,27 @@ export default function EventEditor({ event, onSave, onCancel, isOpen }: EventEd
             </button>
           </div>
 
+          {/* Where the event came from, to check it against the syllabus */}
+          {source && (
+            <div className={`mb-6 p-3 text-sm rounded-md border ${
+              event && isLowConfidence(event) ? 'bg-amber-50 border-amber-200' : 'bg-gray-50 border-gray-200'
+            }`}>
+              <div className="flex items-center justify-between mb-1 text-xs font-medium text-gray-500">
+                <span className="flex items-center">
+                  <Quote className="w-3 h-3 mr-1" />
+                  From the syllabus{source.page ? `, page ${source.page}` : ''}
+                </span>
+                {event && isLowConfidence(event) && (
+                  <span className="flex items-center text-amber-700">
+                    <AlertTriangle className="w-3 h-3 mr-1" />
+                    Low confidence ({Math.round(event.confidence! * 100)}%)
+                  </span>
+                )}
+              </div>
+              <p className="text-gray-700 whitespace-pre-line">{source.text}</p>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* Title */}
             <div>
@@ -197,6 +257,18 @@ export default function EventEditor({ event, onSave, onCancel, isOpen }: EventEd
                   }`}
                 />
                 {errors.date && <p className="mt-1 text-sm text-red-600">{errors.date}</p>}
+                {datePeriod && !errors.date && (
+                  <p className="mt-1 text-sm text-yellow-700">
+                    This date falls during {datePeriod.name}
+                  </p>
+                )}
+                {event?.dateExpression && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    {formData.date === event.date
+                      ? `Worked out from "${event.dateExpression}" in the syllabus`
+                      : `The syllabus says "${event.dateExpression}"`}
+                  </p>
+                )}
               </div>
 
               <div>
@@ -218,6 +290,63 @@ export default function EventEditor({ event, onSave, onCancel, isOpen }: EventEd
               </div>
             </div>
 
+            {/* Recurrence */}
+            <div>
+              <label htmlFor="repeat" className="block text-sm font-medium text-gray-700 mb-2">
+                <Repeat className="w-4 h-4 inline mr-1" />
+                Repeats
+              </label>
+              <select
+                id="repeat"
+                value={formData.recurrence?.frequency || ''}
+                onChange={handleRepeatChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Does not repeat</option>
+                <option value="weekly">Weekly</option>
+                <option value="biweekly">Every other week</option>
+              </select>
+
+              {formData.recurrence && (
+                <div className="mt-3 space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    {WEEKDAY_OPTIONS.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => toggleRepeatDay(value)}
+                        className={`px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+                          formData.recurrence?.daysOfWeek.includes(value)
+                            ? 'bg-blue-600 text-white border-blue-600'
+                            : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <label htmlFor="repeatUntil" className="text-sm text-gray-700">
+                      Until
+                    </label>
+                    <input
+                      type="date"
+                      id="repeatUntil"
+                      value={formData.recurrence.until || ''}
+                      onChange={handleRepeatUntilChange}
+                      className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  {formData.recurrence.exceptions && formData.recurrence.exceptions.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Skips {formData.recurrence.exceptions.join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+              {errors.recurrence && <p className="mt-1 text-sm text-red-600">{errors.recurrence}</p>}
+            </div>
+
             {/* Type and Priority */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
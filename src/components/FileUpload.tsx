@@ -1,18 +1,75 @@
 'use client';
 
 import React, { useState, useRef } from 'react';
-import { Upload, FileText, AlertCircle, CheckCircle } from 'lucide-react';
+import { Upload, FileText, AlertCircle, CheckCircle, ClipboardPaste, Link } from 'lucide-react';
+import { detectTimeZone } from '@/lib/timezone';
+import { getTermCalendar, listTermCalendars } from '@/lib/term-calendars';
+import { readEventStream } from '@/lib/event-stream';
+import {
+  ExtractionProgress,
+  ExtractionStage,
+  OCRReport,
+  ProcessedSyllabus,
+  ProcessingFailure,
+  ProcessingStreamMessage,
+  SyllabusEvent,
+  UploadResponse,
+  Weekday,
+} from '@/types/syllabus';
+
+// Mirrors the server's TextExtractorRegistry; the server sniffs the content as well
+const ACCEPTED_EXTENSIONS = ['.pdf', '.docx', '.txt', '.md', '.markdown', '.html', '.htm'];
+// Below this OCR confidence (0-100) the recognized text is worth reviewing
+const LOW_OCR_CONFIDENCE = 70;
+
+// Share of the progress bar (start and end percent) covered by each stage
+const STAGE_PROGRESS: Record<ExtractionStage, [number, number]> = {
+  parsing: [0, 10],
+  ocr: [10, 40],
+  extracting: [40, 90],
+  validating: [90, 100],
+};
+
+const MEETING_DAY_OPTIONS: { code: Weekday; label: string }[] = [
+  { code: 'MO', label: 'Mon' },
+  { code: 'TU', label: 'Tue' },
+  { code: 'WE', label: 'Wed' },
+  { code: 'TH', label: 'Thu' },
+  { code: 'FR', label: 'Fri' },
+  { code: 'SA', label: 'Sat' },
+];
 
 interface FileUploadProps {
-  onFileProcessed: (result: any) => void;
+  onFileProcessed: (result: ProcessedSyllabus, file?: File) => void;
   onError: (error: string) => void;
+  onEventsFound?: (events: SyllabusEvent[]) => void; // partial results while the syllabus is processed
+  onEventsReset?: () => void; // the partial results so far are replaced, e.g. by a retry with another model
+}
+
+/**
+ * Overall progress in percent for a stage update
+ */
+function getProgressPercent({ stage, completed, total }: ExtractionProgress): number {
+  const [start, end] = STAGE_PROGRESS[stage];
+  const fraction = total ? Math.min(1, (completed || 0) / total) : 0;
+  return Math.round(start + (end - start) * fraction);
 }
 
-export default function FileUpload({ onFileProcessed, onError }: FileUploadProps) {
+export default function FileUpload({ onFileProcessed, onError, onEventsFound, onEventsReset }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'processing' | 'success' | 'error'>('idle');
   const [fileName, setFileName] = useState<string>('');
+  const [source, setSource] = useState<'file' | 'text' | 'url'>('file');
+  const [pastedText, setPastedText] = useState('');
+  const [pageUrl, setPageUrl] = useState('');
+  const [termCalendar, setTermCalendar] = useState('');
+  const [termStart, setTermStart] = useState('');
+  const [termEnd, setTermEnd] = useState('');
+  const [meetingDays, setMeetingDays] = useState<Weekday[]>([]);
+  const [ocrReport, setOcrReport] = useState<OCRReport | null>(null);
+  const [extraction, setExtraction] = useState<Pick<UploadResponse, 'extractionMethod' | 'crossCheck'> | null>(null);
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragEnter = (e: React.DragEvent) => {
@@ -52,8 +109,9 @@ export default function FileUpload({ onFileProcessed, onError }: FileUploadProps
 
   const handleFileSelection = async (file: File) => {
     // Validate file type
-    if (file.type !== 'application/pdf') {
-      onError('Please upload a PDF file only.');
+    const extension = file.name.toLowerCase().match(/\.[a-z0-9]+$/)?.[0];
+    if (!extension || !ACCEPTED_EXTENSIONS.includes(extension)) {
+      onError('Please upload a PDF, Word (.docx), text, Markdown or HTML file.');
       setUploadStatus('error');
       return;
     }
@@ -66,31 +124,98 @@ export default function FileUpload({ onFileProcessed, onError }: FileUploadProps
       return;
     }
 
-    setFileName(file.name);
+    // Create FormData
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('timeZone', detectTimeZone());
+    Object.entries(getTermFields()).forEach(([key, value]) => formData.append(key, value));
+
+    await submitSyllabus(file.name, formData, file);
+  };
+
+  const handleTextSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (source === 'text') {
+      if (pastedText.trim().length < 50) {
+        onError('Please paste the full syllabus text.');
+        return;
+      }
+      await submitSyllabus('Pasted text', JSON.stringify({ text: pastedText, timeZone: detectTimeZone(), ...getTermFields() }));
+    } else {
+      if (!/^https?:\/\/\S+$/i.test(pageUrl.trim())) {
+        onError('Please enter a valid http or https URL.');
+        return;
+      }
+      await submitSyllabus(pageUrl.trim(), JSON.stringify({ url: pageUrl.trim(), timeZone: detectTimeZone(), ...getTermFields() }));
+    }
+  };
+
+  // Term dates let "Week 3 Monday"-style references resolve to exact dates
+  const getTermFields = (): Record<string, string> => {
+    if (!termStart && !termCalendar) return {};
+    return {
+      ...(termCalendar && { termCalendar }),
+      ...(termStart && { termStart }),
+      ...(termEnd && { termEnd }),
+      ...(meetingDays.length > 0 && { meetingDays: meetingDays.join(',') }),
+    };
+  };
+
+  const handleTermCalendarChange = (id: string) => {
+    setTermCalendar(id);
+    const definition = getTermCalendar(id);
+    if (definition) {
+      setTermStart(definition.start);
+      setTermEnd(definition.end);
+    }
+  };
+
+  const toggleMeetingDay = (day: Weekday) => {
+    setMeetingDays(days => days.includes(day) ? days.filter(d => d !== day) : [...days, day]);
+  };
+
+  const submitSyllabus = async (label: string, body: FormData | string, file?: File) => {
+    setFileName(label);
+    setOcrReport(null);
+    setExtraction(null);
+    setProgress(null);
     setIsProcessing(true);
     setUploadStatus('uploading');
 
     try {
-      // Create FormData
-      const formData = new FormData();
-      formData.append('file', file);
-
       setUploadStatus('processing');
 
-      // Upload to API
+      // Upload to API, asking for progress as a Server-Sent Events stream
       const response = await fetch('/api/process-syllabus', {
         method: 'POST',
-        body: formData,
+        body,
+        headers: {
+          Accept: 'text/event-stream',
+          ...(typeof body === 'string' && { 'Content-Type': 'application/json' }),
+        },
       });
 
-      const result = await response.json();
+      let result: UploadResponse | ProcessingFailure | undefined;
+      if (response.headers.get('content-type')?.includes('text/event-stream')) {
+        await readEventStream<ProcessingStreamMessage>(response, message => {
+          if (message.event === 'progress') setProgress(message.data);
+          else if (message.event === 'events') onEventsFound?.(message.data.events);
+          else if (message.event === 'reset') onEventsReset?.();
+          else if (message.event === 'result' || message.event === 'error') result = message.data;
+        });
+      } else {
+        result = await response.json();
+      }
 
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to process syllabus');
+      if (!response.ok || !result?.success || !result.data) {
+        throw new Error(result?.error || 'Failed to process syllabus');
       }
 
       setUploadStatus('success');
-      onFileProcessed(result.data);
+      setOcrReport(result.ocr || null);
+      setExtraction({ extractionMethod: result.extractionMethod, crossCheck: result.crossCheck });
+      onFileProcessed(result.data, file);
 
     } catch (error) {
       console.error('Upload error:', error);
@@ -99,12 +224,15 @@ export default function FileUpload({ onFileProcessed, onError }: FileUploadProps
       setUploadStatus('error');
     } finally {
       setIsProcessing(false);
+      setProgress(null);
     }
   };
 
   const resetUpload = () => {
     setUploadStatus('idle');
     setFileName('');
+    setOcrReport(null);
+    setExtraction(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -128,87 +256,269 @@ export default function FileUpload({ onFileProcessed, onError }: FileUploadProps
       case 'uploading':
         return 'Uploading file...';
       case 'processing':
-        return 'Processing syllabus with AI...';
+        return progress?.message || 'Processing syllabus with AI...';
       case 'success':
         return `Successfully processed ${fileName}`;
       case 'error':
         return 'Upload failed';
       default:
-        return 'Upload your syllabus PDF';
+        return 'Upload your syllabus';
     }
   };
 
+  const sourceTabs = [
+    { id: 'file' as const, label: 'Upload file', icon: Upload },
+    { id: 'text' as const, label: 'Paste text', icon: ClipboardPaste },
+    { id: 'url' as const, label: 'From URL', icon: Link },
+  ];
+
   return (
     <div className="w-full max-w-2xl mx-auto">
-      <div
-        className={`
-          relative border-2 border-dashed rounded-lg p-8 text-center transition-colors
-          ${isDragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300'}
-          ${isProcessing ? 'pointer-events-none opacity-75' : 'hover:border-gray-400 hover:bg-gray-50'}
-          ${uploadStatus === 'success' ? 'border-green-300 bg-green-50' : ''}
-          ${uploadStatus === 'error' ? 'border-red-300 bg-red-50' : ''}
-        `}
-        onDragEnter={handleDragEnter}
-        onDragLeave={handleDragLeave}
-        onDragOver={handleDragOver}
-        onDrop={handleDrop}
-      >
-        <input
-          ref={fileInputRef}
-          type="file"
-          accept=".pdf"
-          onChange={handleFileInputChange}
-          className="hidden"
-          id="file-upload"
-          disabled={isProcessing}
-        />
-
-        <div className="flex flex-col items-center space-y-4">
-          {getStatusIcon()}
-
-          <div>
-            <h3 className="text-lg font-medium text-gray-900">
-              {getStatusMessage()}
-            </h3>
-            <p className="text-sm text-gray-500 mt-1">
-              {uploadStatus === 'idle' && (
-                <>
-                  Drag and drop your PDF here, or{' '}
-                  <label
-                    htmlFor="file-upload"
-                    className="text-blue-600 hover:text-blue-500 cursor-pointer font-medium"
+      <div className="flex mb-4 border-b border-gray-200">
+        {sourceTabs.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setSource(id)}
+            disabled={isProcessing}
+            className={`flex items-center px-4 py-2 -mb-px text-sm font-medium border-b-2 transition-colors ${
+              source === id
+                ? 'border-blue-600 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <Icon className="w-4 h-4 mr-2" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {source !== 'file' && uploadStatus === 'idle' ? (
+        <form onSubmit={handleTextSubmit} className="space-y-3">
+          {source === 'text' ? (
+            <textarea
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              rows={10}
+              placeholder="Paste the syllabus text, e.g. from an LMS announcement or course page"
+              className="w-full p-3 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          ) : (
+            <input
+              type="url"
+              value={pageUrl}
+              onChange={(e) => setPageUrl(e.target.value)}
+              placeholder="https://example.edu/courses/cs101/syllabus"
+              className="w-full p-3 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-400">
+              {source === 'text'
+                ? `${pastedText.length.toLocaleString()} characters`
+                : 'Public course pages and documents only'}
+            </p>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+            >
+              Extract Events
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div
+          className={`
+            relative border-2 border-dashed rounded-lg p-8 text-center transition-colors
+            ${isDragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300'}
+            ${isProcessing ? 'pointer-events-none opacity-75' : 'hover:border-gray-400 hover:bg-gray-50'}
+            ${uploadStatus === 'success' ? 'border-green-300 bg-green-50' : ''}
+            ${uploadStatus === 'error' ? 'border-red-300 bg-red-50' : ''}
+          `}
+          onDragEnter={handleDragEnter}
+          onDragLeave={handleDragLeave}
+          onDragOver={handleDragOver}
+          onDrop={handleDrop}
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_EXTENSIONS.join(',')}
+            onChange={handleFileInputChange}
+            className="hidden"
+            id="file-upload"
+            disabled={isProcessing}
+          />
+
+          <div className="flex flex-col items-center space-y-4">
+            {getStatusIcon()}
+
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">
+                {getStatusMessage()}
+              </h3>
+              <p className="text-sm text-gray-500 mt-1">
+                {uploadStatus === 'idle' && (
+                  <>
+                    Drag and drop your syllabus here, or{' '}
+                    <label
+                      htmlFor="file-upload"
+                      className="text-blue-600 hover:text-blue-500 cursor-pointer font-medium"
+                    >
+                      browse
+                    </label>
+                  </>
+                )}
+                {uploadStatus === 'processing' && !progress && (
+                  'This may take 30-60 seconds depending on syllabus length'
+                )}
+                {uploadStatus === 'success' && (
+                  <button
+                    onClick={resetUpload}
+                    className="text-blue-600 hover:text-blue-500 font-medium"
                   >
-                    browse
-                  </label>
-                </>
-              )}
-              {uploadStatus === 'processing' && (
-                'This may take 30-60 seconds depending on syllabus length'
-              )}
-              {uploadStatus === 'success' && (
-                <button
-                  onClick={resetUpload}
-                  className="text-blue-600 hover:text-blue-500 font-medium"
+                    {source === 'file' ? 'Upload another file' : 'Process another syllabus'}
+                  </button>
+                )}
+              </p>
+            </div>
+
+            {uploadStatus === 'processing' && progress && (
+              <div className="w-full max-w-sm">
+                <div
+                  className="h-2 bg-gray-200 rounded-full overflow-hidden"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={getProgressPercent(progress)}
                 >
-                  Upload another file
-                </button>
+                  <div
+                    className="h-full bg-blue-600 transition-all duration-300"
+                    style={{ width: `${getProgressPercent(progress)}%` }}
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1 text-right">{getProgressPercent(progress)}%</p>
+              </div>
+            )}
+
+            {fileName && uploadStatus !== 'idle' && (
+              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                <FileText className="w-4 h-4" />
+                <span>{fileName}</span>
+              </div>
+            )}
+          </div>
+
+          {ocrReport && uploadStatus === 'success' && (
+            <div className={`mt-4 text-sm ${ocrReport.averageConfidence < LOW_OCR_CONFIDENCE ? 'text-yellow-700' : 'text-gray-600'}`}>
+              <p>
+                Scanned PDF read with OCR • average confidence {ocrReport.averageConfidence}%
+              </p>
+              {ocrReport.pages.some(page => page.confidence < LOW_OCR_CONFIDENCE) && (
+                <p className="mt-1 text-xs">
+                  Low confidence on page{' '}
+                  {ocrReport.pages
+                    .filter(page => page.confidence < LOW_OCR_CONFIDENCE)
+                    .map(page => `${page.page} (${page.confidence}%)`)
+                    .join(', ')}
+                  {' '}— double-check those events.
+                </p>
               )}
+            </div>
+          )}
+
+          {extraction && uploadStatus === 'success' && extraction.extractionMethod === 'rules' && (
+            <p className="mt-4 text-sm text-yellow-700">
+              No AI provider is configured, so events were found with rule-based date matching.
+              Check titles and types before exporting.
             </p>
-          </div>
+          )}
 
-          {fileName && uploadStatus !== 'idle' && (
-            <div className="flex items-center space-x-2 text-sm text-gray-600">
-              <FileText className="w-4 h-4" />
-              <span>{fileName}</span>
+          {extraction?.crossCheck && uploadStatus === 'success' && extraction.crossCheck.missedByModel.length > 0 && (
+            <div className="mt-4 text-sm text-left text-gray-600">
+              <p>
+                A rule-based check found {extraction.crossCheck.missedByModel.length} dated
+                item{extraction.crossCheck.missedByModel.length === 1 ? '' : 's'} the AI didn&apos;t extract:
+              </p>
+              <ul className="mt-1 text-xs list-disc list-inside">
+                {extraction.crossCheck.missedByModel.slice(0, 5).map(event => (
+                  <li key={event.id}>
+                    {event.date} — {event.title}
+                  </li>
+                ))}
+              </ul>
+              {extraction.crossCheck.missedByModel.length > 5 && (
+                <p className="mt-1 text-xs">and {extraction.crossCheck.missedByModel.length - 5} more</p>
+              )}
             </div>
           )}
-        </div>
 
-        <div className="mt-6 text-xs text-gray-400">
-          <p>Supported format: PDF • Maximum size: 10MB</p>
-          <p>Text-based PDFs only (scanned documents not supported)</p>
+          <div className="mt-6 text-xs text-gray-400">
+            <p>Supported formats: PDF, DOCX, TXT, Markdown, HTML • Maximum size: 10MB</p>
+            <p>Scanned PDFs are read with OCR, which takes longer</p>
+          </div>
         </div>
-      </div>
+      )}
+
+      {uploadStatus === 'idle' && (
+        <details className="mt-4 text-sm text-gray-600">
+          <summary className="cursor-pointer font-medium text-gray-700">Term dates (optional)</summary>
+          <p className="mt-2 text-xs text-gray-500">
+            Used to turn references like &quot;Week 3 Monday&quot; or &quot;Session 12&quot; into exact dates.
+          </p>
+          <label className="block mt-3">
+            <span className="text-xs text-gray-500">Academic calendar (adds holidays and breaks)</span>
+            <select
+              value={termCalendar}
+              onChange={(e) => handleTermCalendarChange(e.target.value)}
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">None</option>
+              {listTermCalendars().map(option => (
+                <option key={option.id} value={option.id}>{option.institution}: {option.name}</option>
+              ))}
+            </select>
+          </label>
+          <div className="mt-3 grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-xs text-gray-500">First day of class</span>
+              <input
+                type="date"
+                value={termStart}
+                onChange={(e) => setTermStart(e.target.value)}
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-500">Last day of class</span>
+              <input
+                type="date"
+                value={termEnd}
+                min={termStart || undefined}
+                onChange={(e) => setTermEnd(e.target.value)}
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+          <div className="mt-3 flex flex-wrap gap-2">
+            {MEETING_DAY_OPTIONS.map(({ code, label }) => (
+              <button
+                key={code}
+                type="button"
+                onClick={() => toggleMeetingDay(code)}
+                className={`px-2 py-1 text-xs rounded-md border ${
+                  meetingDays.includes(code)
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+            <span className="self-center text-xs text-gray-400">Class meeting days</span>
+          </div>
+        </details>
+      )}
 
       {uploadStatus === 'error' && (
         <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-md">
@@ -217,7 +527,9 @@ export default function FileUpload({ onFileProcessed, onError }: FileUploadProps
             <div className="ml-3">
               <h3 className="text-sm font-medium text-red-800">Upload Error</h3>
               <div className="mt-2 text-sm text-red-700">
-                <p>Please try again or check that your PDF is text-based and under 10MB.</p>
+                <p>{source === 'file'
+                  ? 'Please try again or check that your file is text-based and under 10MB.'
+                  : 'Please try again or check that the text or page contains the syllabus.'}</p>
                 <button
                   onClick={resetUpload}
                   className="mt-2 text-red-600 hover:text-red-500 font-medium"
@@ -0,0 +1,283 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { SyllabusEvent, GoogleCalendarSummary, GoogleExportResult, GoogleSyncResult } from '@/types/syllabus';
+import { Share2, LogOut, RefreshCw, Eye } from 'lucide-react';
+
+interface GoogleCalendarExportProps {
+  events: SyllabusEvent[];
+  courseName?: string;
+  syncKey: string; // identifies these events in the calendar across syncs, so it must not change with the name
+  timeZone?: string;
+  courseTimeZones?: Record<string, string>; // by course id, when the events come from courses in different zones
+  onExported: (result: GoogleExportResult | GoogleSyncResult) => void;
+  onError: (error: string) => void;
+}
+
+type ConnectionStatus = 'checking' | 'unavailable' | 'disconnected' | 'connected';
+
+const NEW_CALENDAR = '__new__';
+
+export default function GoogleCalendarExport({
+  events,
+  courseName,
+  syncKey,
+  timeZone,
+  courseTimeZones,
+  onExported,
+  onError,
+}: GoogleCalendarExportProps) {
+  const [status, setStatus] = useState<ConnectionStatus>('checking');
+  const [calendars, setCalendars] = useState<GoogleCalendarSummary[]>([]);
+  const [selectedCalendarId, setSelectedCalendarId] = useState<string>(NEW_CALENDAR);
+  const [isExporting, setIsExporting] = useState(false);
+  const [syncMode, setSyncMode] = useState(true);
+  const [preview, setPreview] = useState<GoogleSyncResult | null>(null);
+
+  const loadCalendars = useCallback(async () => {
+    setStatus('checking');
+    try {
+      const response = await fetch('/api/google/calendars');
+      if (response.status === 503) {
+        setStatus('unavailable');
+        return;
+      }
+      if (response.status === 401) {
+        setStatus('disconnected');
+        return;
+      }
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch calendars');
+      }
+
+      setCalendars(result.data);
+      setStatus('connected');
+    } catch (error) {
+      console.error('Google calendars error:', error);
+      setStatus('disconnected');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCalendars();
+  }, [loadCalendars]);
+
+  // A preview is only valid for the event list it was computed from
+  useEffect(() => {
+    setPreview(null);
+  }, [events]);
+
+  // The OAuth popup reports back through postMessage
+  useEffect(() => {
+    const handleMessage = (e: MessageEvent) => {
+      if (e.origin !== window.location.origin || e.data?.type !== 'google-auth') return;
+      if (e.data.success) {
+        loadCalendars();
+      } else {
+        onError(e.data.error || 'Failed to connect to Google Calendar');
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [loadCalendars, onError]);
+
+  const handleConnect = () => {
+    window.open('/api/google/auth', 'google-auth', 'width=500,height=650');
+  };
+
+  const handleDisconnect = async () => {
+    await fetch('/api/google/auth', { method: 'DELETE' });
+    setCalendars([]);
+    setStatus('disconnected');
+  };
+
+  const handleExport = async (dryRun: boolean = false) => {
+    // Syncing an empty list removes every event exported for these courses
+    const deleteAll = syncMode && events.length === 0;
+    if (deleteAll && !dryRun && !window.confirm(
+      'There are no events to sync. Remove every event previously exported from here from Google Calendar?'
+    )) return;
+
+    setIsExporting(true);
+    try {
+      const response = await fetch('/api/google/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          events,
+          timeZone,
+          courseTimeZones,
+          courseName,
+          syncKey,
+          mode: syncMode ? 'sync' : 'insert',
+          dryRun,
+          deleteAll,
+          ...(selectedCalendarId === NEW_CALENDAR
+            ? { newCalendarName: courseName || 'Syllabus' }
+            : { calendarId: selectedCalendarId }),
+        }),
+      });
+
+      const result = await response.json();
+      if (response.status === 401) {
+        setStatus('disconnected');
+      }
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to export to Google Calendar');
+      }
+
+      if (dryRun) {
+        setPreview(result.data);
+        return;
+      }
+
+      setPreview(null);
+      onExported(result.data);
+      // A newly created calendar becomes the target for the next export
+      if (selectedCalendarId === NEW_CALENDAR) {
+        await loadCalendars();
+        setSelectedCalendarId(result.data.calendarId);
+      }
+    } catch (error) {
+      console.error('Google export error:', error);
+      onError(error instanceof Error ? error.message : 'Failed to export to Google Calendar');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (status === 'unavailable') return null;
+
+  if (status === 'checking') {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+        Checking Google Calendar...
+      </div>
+    );
+  }
+
+  if (status === 'disconnected') {
+    return (
+      <button
+        onClick={handleConnect}
+        className="inline-flex items-center px-4 py-2 bg-white text-gray-700 text-sm font-medium border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+      >
+        <Share2 className="w-4 h-4 mr-2" />
+        Connect Google Calendar
+      </button>
+    );
+  }
+
+  const countChanges = (action: 'insert' | 'update' | 'delete') =>
+    preview?.changes.filter(change => change.action === action).length || 0;
+
+  return (
+    <div className="flex flex-col items-end space-y-3">
+      <div className="flex items-center space-x-2">
+        <label className="flex items-center text-sm text-gray-600 mr-2" title="Update and remove previously exported events instead of adding duplicates">
+          <input
+            type="checkbox"
+            checked={syncMode}
+            onChange={(e) => {
+              setSyncMode(e.target.checked);
+              setPreview(null);
+            }}
+            disabled={isExporting}
+            className="mr-1"
+          />
+          Sync
+        </label>
+        <select
+          value={selectedCalendarId}
+          onChange={(e) => {
+            setSelectedCalendarId(e.target.value);
+            setPreview(null);
+          }}
+          disabled={isExporting}
+          className="px-2 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value={NEW_CALENDAR}>New calendar: {courseName || 'Syllabus'}</option>
+          {calendars.map(calendar => (
+            <option key={calendar.id} value={calendar.id}>
+              {calendar.summary}{calendar.primary ? ' (primary)' : ''}
+            </option>
+          ))}
+        </select>
+        {syncMode && (
+          <button
+            onClick={() => handleExport(true)}
+            disabled={isExporting}
+            className="inline-flex items-center px-4 py-2 bg-white text-gray-700 text-sm font-medium border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Eye className="w-4 h-4 mr-2" />
+            Preview
+          </button>
+        )}
+        <button
+          onClick={() => handleExport()}
+          disabled={isExporting || (!syncMode && events.length === 0)}
+          className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isExporting ? (
+            <div className="loading-spinner w-4 h-4 mr-2" />
+          ) : (
+            <Share2 className="w-4 h-4 mr-2" />
+          )}
+          {isExporting ? 'Exporting...' : syncMode ? 'Sync to Google Calendar' : 'Push to Google Calendar'}
+        </button>
+        <button
+          onClick={handleDisconnect}
+          title="Disconnect Google account"
+          className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <LogOut className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Dry-run preview */}
+      {preview && (
+        <div className="w-full max-w-xl border border-gray-200 rounded-md bg-gray-50 p-3 text-sm">
+          <p className="font-medium text-gray-900">
+            {countChanges('insert')} to add, {countChanges('update')} to update, {countChanges('delete')} to remove
+            {preview.unchanged > 0 && `, ${preview.unchanged} unchanged`}
+          </p>
+          {preview.changes.length > 0 && (
+            <ul className="mt-2 max-h-48 overflow-y-auto divide-y divide-gray-200">
+              {preview.changes.map((change, index) => (
+                <li key={`${change.action}-${change.eventId || change.googleEventId || index}`} className="flex justify-between py-1">
+                  <span>
+                    <span className={`font-medium mr-2 ${
+                      change.action === 'insert' ? 'text-green-700' : change.action === 'update' ? 'text-yellow-700' : 'text-red-700'
+                    }`}>
+                      {change.action === 'insert' ? '+' : change.action === 'update' ? '~' : '−'}
+                    </span>
+                    {change.title}
+                  </span>
+                  {change.date && <span className="text-gray-500 ml-4">{change.date}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-end space-x-2 mt-3">
+            <button
+              onClick={() => setPreview(null)}
+              className="px-3 py-1 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => handleExport()}
+              disabled={isExporting || preview.changes.length === 0}
+              className="px-3 py-1 text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply changes
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
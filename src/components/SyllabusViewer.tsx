@@ -0,0 +1,231 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { EventSource } from '@/types/syllabus';
+import { normalizeWords } from '@/lib/provenance';
+import { FileText, Plus } from 'lucide-react';
+
+// Quotes that don't match word for word are located by their opening or closing words
+const PARTIAL_QUOTE_WORDS = 6;
+
+interface SyllabusViewerProps {
+  file: File;
+  highlight?: EventSource;
+  onCreateFromSelection?: (source: EventSource) => void;
+}
+
+interface PageText {
+  page: number;
+  spans: HTMLElement[];
+}
+
+interface TextSelection extends EventSource {
+  top: number;
+  left: number;
+}
+
+/**
+ * Find a run of words in a page's text spans, returning the spans it covers
+ */
+function findQuoteSpans(spans: HTMLElement[], quote: string[]): HTMLElement[] {
+  const words: string[] = [];
+  const wordSpans: number[] = [];
+  spans.forEach((span, index) => {
+    normalizeWords(span.textContent || '').forEach(word => {
+      words.push(word);
+      wordSpans.push(index);
+    });
+  });
+
+  const find = (needle: string[]): [number, number] | undefined => {
+    if (needle.length === 0) return undefined;
+    for (let i = 0; i + needle.length <= words.length; i++) {
+      if (needle.every((word, j) => words[i + j] === word)) return [i, i + needle.length - 1];
+    }
+    return undefined;
+  };
+
+  const range = find(quote) ||
+    find(quote.slice(0, PARTIAL_QUOTE_WORDS)) ||
+    find(quote.slice(-PARTIAL_QUOTE_WORDS));
+  return range ? spans.slice(wordSpans[range[0]], wordSpans[range[1]] + 1) : [];
+}
+
+/**
+ * Renders the uploaded PDF with a selectable text layer, highlights an event's source text,
+ * and offers to create an event from selected text
+ */
+export default function SyllabusViewer({ file, highlight, onCreateFromSelection }: SyllabusViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pagesRef = useRef<HTMLDivElement>(null);
+  const pageTextsRef = useRef<PageText[]>([]);
+  const [renderedPages, setRenderedPages] = useState(0);
+  const [error, setError] = useState('');
+  const [selection, setSelection] = useState<TextSelection | null>(null);
+
+  // Render every page: a canvas for the image and pdf.js's text layer on top for selection and search
+  useEffect(() => {
+    let cancelled = false;
+    let destroy: (() => void) | undefined;
+    const pagesElement = pagesRef.current;
+    if (!pagesElement) return;
+
+    pagesElement.innerHTML = '';
+    pageTextsRef.current = [];
+    setRenderedPages(0);
+    setError('');
+
+    (async () => {
+      try {
+        const pdfjs = await import('pdfjs-dist');
+        // Bundled as a worker chunk; one worker is shared by every document
+        if (!pdfjs.GlobalWorkerOptions.workerPort) {
+          pdfjs.GlobalWorkerOptions.workerPort = new Worker(
+            new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url),
+            { type: 'module' }
+          );
+        }
+
+        const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+        destroy = () => pdf.destroy();
+
+        for (let pageNumber = 1; pageNumber <= pdf.numPages && !cancelled; pageNumber++) {
+          const page = await pdf.getPage(pageNumber);
+          const width = pagesElement.clientWidth || 600;
+          const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+          const outputScale = window.devicePixelRatio || 1;
+
+          const pageElement = document.createElement('div');
+          pageElement.className = 'syllabus-page';
+          pageElement.dataset.page = String(pageNumber);
+          pageElement.style.setProperty('--scale-factor', String(viewport.scale));
+          pageElement.style.width = `${viewport.width}px`;
+          pageElement.style.height = `${viewport.height}px`;
+
+          const canvas = document.createElement('canvas');
+          canvas.width = Math.floor(viewport.width * outputScale);
+          canvas.height = Math.floor(viewport.height * outputScale);
+          canvas.style.width = `${viewport.width}px`;
+          canvas.style.height = `${viewport.height}px`;
+
+          const textElement = document.createElement('div');
+          textElement.className = 'textLayer';
+
+          pageElement.append(canvas, textElement);
+          pagesElement.append(pageElement);
+
+          await page.render({
+            canvasContext: canvas.getContext('2d')!,
+            viewport,
+            transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+          }).promise;
+
+          const textLayer = new pdfjs.TextLayer({
+            textContentSource: page.streamTextContent(),
+            container: textElement,
+            viewport,
+          });
+          await textLayer.render();
+
+          pageTextsRef.current.push({ page: pageNumber, spans: textLayer.textDivs });
+          if (!cancelled) setRenderedPages(pageNumber);
+        }
+      } catch (renderError) {
+        console.error('PDF viewer error:', renderError);
+        if (!cancelled) setError('Could not display this PDF');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      destroy?.();
+    };
+  }, [file]);
+
+  // Highlight the selected event's source text, searching its page first
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    container.querySelectorAll('.source-highlight').forEach(span => span.classList.remove('source-highlight'));
+    if (!highlight) return;
+
+    const quote = normalizeWords(highlight.text);
+    const pages = [...pageTextsRef.current].sort((a, b) =>
+      Number(b.page === highlight.page) - Number(a.page === highlight.page));
+
+    for (const { spans } of pages) {
+      const matched = findQuoteSpans(spans, quote);
+      if (matched.length > 0) {
+        matched.forEach(span => span.classList.add('source-highlight'));
+        matched[0].scrollIntoView({ block: 'center', behavior: 'smooth' });
+        return;
+      }
+    }
+  }, [highlight, renderedPages]);
+
+  const handleMouseUp = () => {
+    const container = containerRef.current;
+    const current = window.getSelection();
+    const text = current?.toString().trim();
+    if (!container || !current || !text || current.rangeCount === 0 || !container.contains(current.anchorNode)) {
+      setSelection(null);
+      return;
+    }
+
+    const anchor = current.anchorNode instanceof Element ? current.anchorNode : current.anchorNode?.parentElement;
+    const page = Number(anchor?.closest<HTMLElement>('[data-page]')?.dataset.page) || undefined;
+    const rect = current.getRangeAt(0).getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+
+    setSelection({
+      text,
+      page,
+      top: rect.bottom - containerRect.top + container.scrollTop + 4,
+      left: Math.max(0, rect.left - containerRect.left),
+    });
+  };
+
+  const createFromSelection = () => {
+    if (!selection) return;
+    onCreateFromSelection?.({ text: selection.text, page: selection.page });
+    window.getSelection()?.removeAllRanges();
+    setSelection(null);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border flex flex-col h-[80vh]">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <div className="flex items-center text-sm font-medium text-gray-700 min-w-0">
+          <FileText className="w-4 h-4 mr-2 flex-shrink-0" />
+          <span className="truncate">{file.name}</span>
+        </div>
+        <p className="text-xs text-gray-500 ml-4 whitespace-nowrap">Select text to add an event</p>
+      </div>
+
+      <div ref={containerRef} className="relative flex-1 overflow-y-auto bg-gray-100 p-4" onMouseUp={handleMouseUp}>
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : renderedPages === 0 && (
+          <div className="flex justify-center py-8">
+            <div className="loading-spinner" />
+          </div>
+        )}
+
+        <div ref={pagesRef} className="space-y-4" />
+
+        {selection && onCreateFromSelection && (
+          <button
+            type="button"
+            onMouseUp={(e) => e.stopPropagation()}
+            onClick={createFromSelection}
+            style={{ top: selection.top, left: selection.left }}
+            className="absolute z-10 inline-flex items-center px-3 py-1.5 text-xs font-medium text-white bg-green-600 rounded-md shadow hover:bg-green-700"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Create event from selection
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
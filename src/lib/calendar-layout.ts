@@ -0,0 +1,138 @@
+import { SyllabusEvent, TermInfo } from '@/types/syllabus';
+import { addDays, getWeekday, parseISODate, WEEKDAYS } from './date-utils';
+import { getTermEnd, getTermWeek } from './relative-dates';
+
+// Shown for timed events without a duration, as in the .ics export
+const DEFAULT_DURATION_MINUTES = 60;
+
+// A timed event placed in a day column of the week view; events that overlap share the width in lanes
+export interface TimedEventLayout {
+  event: SyllabusEvent;
+  start: number; // minutes after midnight
+  end: number;
+  lane: number;
+  lanes: number;
+}
+
+export interface AgendaDay {
+  date: string;
+  events: SyllabusEvent[];
+}
+
+// A week of the agenda, labelled by its week of term when there is one
+export interface AgendaWeek {
+  start: string; // Monday
+  label: string;
+  days: AgendaDay[];
+}
+
+/**
+ * The Monday starting the week a date is in, matching how term weeks are counted
+ */
+export function getWeekStart(date: string): string {
+  return addDays(date, -((WEEKDAYS.indexOf(getWeekday(date)) + 6) % 7));
+}
+
+/**
+ * Monday to Sunday of the week a date is in
+ */
+export function getWeekDates(date: string): string[] {
+  const monday = getWeekStart(date);
+  return Array.from({ length: 7 }, (_, index) => addDays(monday, index));
+}
+
+/**
+ * Minutes after midnight for an HH:MM time
+ */
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Place a day's timed events, giving events that overlap side-by-side lanes
+ */
+export function layoutTimedEvents(events: SyllabusEvent[]): TimedEventLayout[] {
+  const placed = events
+    .filter(event => event.time)
+    .map(event => {
+      const start = toMinutes(event.time!);
+      return { event, start, end: Math.min(start + (event.duration || DEFAULT_DURATION_MINUTES), 24 * 60), lane: 0, lanes: 1 };
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  // Group events that overlap one another, then share each group's width among its lanes
+  let group: TimedEventLayout[] = [];
+  let groupEnd = -1;
+  const finishGroup = () => {
+    const lanes = group.reduce((max, item) => Math.max(max, item.lane + 1), 1);
+    group.forEach(item => { item.lanes = lanes; });
+    group = [];
+  };
+
+  placed.forEach(item => {
+    if (item.start >= groupEnd) {
+      finishGroup();
+      groupEnd = -1;
+    }
+    const laneEnds = group.reduce((ends, other) => {
+      ends[other.lane] = Math.max(ends[other.lane] || 0, other.end);
+      return ends;
+    }, [] as number[]);
+    const free = laneEnds.findIndex(end => end <= item.start);
+    item.lane = free >= 0 ? free : laneEnds.length;
+    group.push(item);
+    groupEnd = Math.max(groupEnd, item.end);
+  });
+  finishGroup();
+
+  return placed;
+}
+
+/**
+ * "Jan 20", or "Jan 20 – Jan 26" for a range
+ */
+export function formatDateRange(start: string, end?: string): string {
+  const format = (date: string) =>
+    parseISODate(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  return end && end !== start ? `${format(start)} – ${format(end)}` : format(start);
+}
+
+/**
+ * Name of a week in the agenda: its week of term, the finals window, or where it falls relative to the term
+ */
+function getWeekLabel(monday: string, term?: TermInfo): string {
+  if (!term) return `Week of ${formatDateRange(monday)}`;
+  const week = getTermWeek(term, monday);
+  if (week < 1) return 'Before the term';
+  if (monday > getTermEnd(term)) {
+    const finals = (term.breaks || []).find(period =>
+      period.kind === 'finals' && period.start <= addDays(monday, 6) && period.end >= monday);
+    return finals ? finals.name : 'After the term';
+  }
+  return `Week ${week}`;
+}
+
+/**
+ * Group events by date into the weeks of the agenda, in date order, skipping empty days and weeks
+ */
+export function groupAgendaWeeks(eventsByDate: Record<string, SyllabusEvent[]>, term?: TermInfo): AgendaWeek[] {
+  const weeks: AgendaWeek[] = [];
+
+  Object.keys(eventsByDate).sort().forEach(date => {
+    const events = eventsByDate[date]
+      .slice()
+      .sort((a, b) => (a.time || '').localeCompare(b.time || ''));
+    if (events.length === 0) return;
+
+    const start = getWeekStart(date);
+    let week = weeks[weeks.length - 1];
+    if (!week || week.start !== start) {
+      week = { start, label: getWeekLabel(start, term), days: [] };
+      weeks.push(week);
+    }
+    week.days.push({ date, events });
+  });
+
+  return weeks;
+}
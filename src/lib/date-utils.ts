@@ -0,0 +1,76 @@
+import { Weekday } from '@/types/syllabus';
+
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check that a string is a real calendar date in YYYY-MM-DD format
+ */
+export function isISODate(value: string): boolean {
+  if (!ISO_DATE_REGEX.test(value)) return false;
+  const date = parseISODate(value);
+  return !isNaN(date.getTime()) && formatISODate(date) === value;
+}
+
+/**
+ * Parse a YYYY-MM-DD string as a UTC midnight Date so that day arithmetic
+ * is independent of the local time zone
+ */
+export function parseISODate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Format a UTC-midnight Date back to YYYY-MM-DD
+ */
+export function formatISODate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Add a number of days to a YYYY-MM-DD string
+ */
+export function addDays(value: string, days: number): string {
+  const date = parseISODate(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatISODate(date);
+}
+
+/**
+ * Get the two-letter weekday code for a YYYY-MM-DD string
+ */
+export function getWeekday(value: string): Weekday {
+  return WEEKDAYS[parseISODate(value).getUTCDay()];
+}
+
+/**
+ * Format a local Date (e.g. from a calendar widget) as YYYY-MM-DD
+ */
+export function toLocalISODate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Local midnight of a YYYY-MM-DD string, for date pickers and other local-time UI
+ */
+export function toLocalDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Add minutes to a wall-clock date and time without involving any time zone
+ */
+export function addMinutes(date: string, time: string, minutes: number): { date: string; time: string } {
+  const [hours, mins] = time.split(':').map(Number);
+  const result = parseISODate(date);
+  result.setUTCMinutes(hours * 60 + mins + minutes);
+  return {
+    date: formatISODate(result),
+    time: result.toISOString().slice(11, 16),
+  };
+}
@@ -0,0 +1,40 @@
+import { SyllabusEvent } from '@/types/syllabus';
+
+// Checked in order, so more specific kinds win (e.g. "exam review reading" is an exam)
+const TYPE_KEYWORDS: { type: SyllabusEvent['type']; pattern: RegExp }[] = [
+  { type: 'exam', pattern: /\b(exams?|midterms?|finals?(?!\s+(projects?|papers?|reports?|essays?|presentations?))|tests?|examinations?)\b/i },
+  { type: 'quiz', pattern: /\bquiz(zes)?\b/i },
+  { type: 'project', pattern: /\b(projects?|presentations?|capstone|proposal)\b/i },
+  { type: 'assignment', pattern: /\b(assignments?|homework|hw\s*\d*|problem sets?|psets?|essays?|papers?|labs?|reports?|deadline|due)\b/i },
+  { type: 'reading', pattern: /\b(readings?|read|chapters?|ch\.)\b/i },
+  { type: 'lecture', pattern: /\b(lectures?|class(es)?|seminars?|sessions?|office hours|discussion|recitation)\b/i },
+];
+
+/**
+ * Guess an event type from free text such as a title or an ICS category
+ */
+export function inferEventType(text: string): SyllabusEvent['type'] {
+  const normalized = text.trim().toLowerCase();
+  const types: SyllabusEvent['type'][] = ['assignment', 'exam', 'reading', 'lecture', 'project', 'quiz', 'other'];
+  if ((types as string[]).includes(normalized)) {
+    return normalized as SyllabusEvent['type'];
+  }
+
+  return TYPE_KEYWORDS.find(({ pattern }) => pattern.test(text))?.type || 'other';
+}
+
+/**
+ * Default priority for an event type, following the extraction prompt's guidelines
+ */
+export function defaultPriority(type: SyllabusEvent['type']): SyllabusEvent['priority'] {
+  switch (type) {
+    case 'exam':
+    case 'project':
+      return 'high';
+    case 'reading':
+    case 'lecture':
+      return 'low';
+    default:
+      return 'medium';
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { SyllabusEvent, WorkspaceCourse } from '@/types/syllabus';
+import { addDays } from './date-utils';
+import { getOccurrenceDates } from './recurrence';
+import { bulkEditCommand, shiftEvent } from './event-edits';
+
+const lecture: SyllabusEvent = {
+  id: 'event-1',
+  title: 'Lecture',
+  description: '',
+  date: '2025-01-20', // Monday
+  time: '10:00',
+  type: 'lecture',
+  priority: 'low',
+  recurrence: {
+    frequency: 'weekly',
+    daysOfWeek: ['MO', 'WE'],
+    until: '2025-02-12',
+    exceptions: ['2025-01-29', '2025-02-10'],
+  },
+};
+
+describe('shiftEvent', () => {
+  it('moves the series, its end date and its skipped dates together', () => {
+    const shifted = shiftEvent(lecture, 1);
+
+    expect(shifted.date).toBe('2025-01-21');
+    expect(shifted.recurrence).toEqual({
+      frequency: 'weekly',
+      daysOfWeek: ['TU', 'TH'],
+      until: '2025-02-13',
+      exceptions: ['2025-01-30', '2025-02-11'],
+    });
+  });
+
+  it('keeps skipping the same occurrences', () => {
+    const before = getOccurrenceDates(lecture);
+    const after = getOccurrenceDates(shiftEvent(lecture, -7));
+
+    expect(before).toHaveLength(6);
+    expect(after).toEqual(before.map(date => addDays(date, -7)));
+  });
+
+  it('leaves one-off events without a recurrence', () => {
+    const { recurrence: _recurrence, ...single } = lecture;
+    expect(shiftEvent(single, 3)).not.toHaveProperty('recurrence');
+  });
+});
+
+describe('bulkEditCommand', () => {
+  // Extracted events can hold values the editor would reject, such as a time the model wrote as "9am"
+  const unchecked: SyllabusEvent = { ...lecture, id: 'event-2', title: 'Lab', time: '9am', recurrence: undefined };
+  const makeCourse = (id: string, courseName: string, events: SyllabusEvent[]): WorkspaceCourse => ({
+    id,
+    color: '#2563eb',
+    syllabus: { courseName, events },
+    events,
+  });
+  const courses = [makeCourse('course-1', 'CS 101', [lecture, unchecked]), makeCourse('course-2', 'CS 102', [])];
+
+  it('duplicates valid events and refuses events the editor would reject', () => {
+    expect(bulkEditCommand(courses, ['event-1'], { type: 'duplicate' }).command).toBeDefined();
+
+    const { command, errors } = bulkEditCommand(courses, ['event-1', 'event-2'], { type: 'duplicate' });
+    expect(command).toBeUndefined();
+    expect(errors).toEqual(['Lab: Invalid time format (use HH:MM)']);
+  });
+
+  it('checks events moved into another course the same way', () => {
+    const valid = bulkEditCommand(courses, ['event-1'], { type: 'move', courseId: 'course-2' });
+    expect(valid.command).toMatchObject({ type: 'bulk', label: 'move 1 event to CS 102' });
+
+    const { command, errors } = bulkEditCommand(courses, ['event-2'], { type: 'move', courseId: 'course-2' });
+    expect(command).toBeUndefined();
+    expect(errors).toEqual(['Lab: Invalid time format (use HH:MM)']);
+  });
+});
@@ -0,0 +1,154 @@
+import { SyllabusEvent, WorkspaceCourse } from '@/types/syllabus';
+import { addDays, WEEKDAYS } from './date-utils';
+import { EventCommand } from './event-history';
+import { toEventFormData, validateEventFields } from './event-validation';
+import { getCourseLabel } from './workspace';
+
+// Fields that can be set on many events at once; an empty location clears it
+export type BulkFieldChanges = Partial<Pick<SyllabusEvent, 'type' | 'priority' | 'location'>>;
+
+export type BulkAction =
+  | { type: 'shift'; days: number }
+  | { type: 'set'; changes: BulkFieldChanges }
+  | { type: 'move'; courseId: string }
+  | { type: 'duplicate' }
+  | { type: 'delete' };
+
+export interface BulkEditResult {
+  command?: EventCommand; // undefined when nothing would change
+  errors: string[]; // one per event the action would make invalid; nothing is changed then
+}
+
+interface BulkTarget {
+  course: WorkspaceCourse;
+  event: SyllabusEvent;
+  index: number;
+}
+
+/**
+ * Apply edits to an event. A new date no longer follows the syllabus's relative wording,
+ * and an edited event has been reviewed, so it no longer needs a confidence flag.
+ */
+export function reviseEvent(event: SyllabusEvent, changes: Partial<SyllabusEvent>): SyllabusEvent {
+  return {
+    ...event,
+    ...changes,
+    dateExpression: changes.date === undefined || changes.date === event.date ? event.dateExpression : undefined,
+    confidence: undefined,
+  };
+}
+
+/**
+ * Move an event by a number of days; recurring events keep their pattern, moved to the new weekdays,
+ * and skip the same occurrences as before
+ */
+export function shiftEvent(event: SyllabusEvent, days: number): SyllabusEvent {
+  const recurrence = event.recurrence && {
+    ...event.recurrence,
+    daysOfWeek: event.recurrence.daysOfWeek
+      .map(day => WEEKDAYS[(((WEEKDAYS.indexOf(day) + days) % 7) + 7) % 7])
+      .sort((a, b) => WEEKDAYS.indexOf(a) - WEEKDAYS.indexOf(b)),
+    ...(event.recurrence.until && { until: addDays(event.recurrence.until, days) }),
+    ...(event.recurrence.exceptions && { exceptions: event.recurrence.exceptions.map(date => addDays(date, days)) }),
+  };
+  return reviseEvent(event, { date: addDays(event.date, days), ...(recurrence && { recurrence }) });
+}
+
+/**
+ * "3 events", "1 event"
+ */
+function countEvents(count: number): string {
+  return `${count} event${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Short description of a bulk action, for messages and the undo button
+ */
+export function describeBulkAction(action: BulkAction, count: number, courses: WorkspaceCourse[]): string {
+  switch (action.type) {
+    case 'shift': {
+      const weeks = action.days % 7 === 0;
+      const amount = Math.abs(weeks ? action.days / 7 : action.days);
+      const unit = `${weeks ? 'week' : 'day'}${amount === 1 ? '' : 's'}`;
+      return `shift ${countEvents(count)} ${amount} ${unit} ${action.days < 0 ? 'earlier' : 'later'}`;
+    }
+    case 'set':
+      return `set the ${Object.keys(action.changes).join(' and ')} of ${countEvents(count)}`;
+    case 'move': {
+      const course = courses.find(c => c.id === action.courseId);
+      return `move ${countEvents(count)} to ${course ? getCourseLabel(course) : 'another course'}`;
+    }
+    case 'duplicate':
+      return `duplicate ${countEvents(count)}`;
+    case 'delete':
+      return `delete ${countEvents(count)}`;
+  }
+}
+
+/**
+ * Build one undoable command applying an action to the selected events, checking every changed event
+ * the way the editor does
+ */
+export function bulkEditCommand(courses: WorkspaceCourse[], eventIds: string[], action: BulkAction): BulkEditResult {
+  const targets: BulkTarget[] = courses.flatMap(course =>
+    course.events
+      .map((event, index) => ({ course, event, index }))
+      .filter(({ event }) => event.id && eventIds.includes(event.id)));
+  const commands: EventCommand[] = [];
+  const errors: string[] = [];
+
+  // Every event an action leaves behind is checked like a saved edit; deleting leaves none
+  const isValid = (event: SyllabusEvent) => {
+    const invalid = Object.values(validateEventFields(toEventFormData(event)));
+    if (invalid.length > 0) errors.push(`${event.title}: ${invalid.join(', ')}`);
+    return invalid.length === 0;
+  };
+  // New events go at the end of their course, after any added before them
+  const appended: Record<string, number> = {};
+  const append = (course: WorkspaceCourse, event: SyllabusEvent) => {
+    if (!isValid(event)) return;
+    const offset = appended[course.id] || 0;
+    appended[course.id] = offset + 1;
+    commands.push({ type: 'create', courseId: course.id, event, index: course.events.length + offset });
+  };
+  // Last-first, so undoing (in reverse) puts each event back at its original index
+  const remove = (removed: BulkTarget[]) => {
+    removed.slice().reverse().forEach(({ course, event, index }) => {
+      commands.push({ type: 'delete', courseId: course.id, event, index });
+    });
+  };
+  const newId = () => `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  switch (action.type) {
+    case 'shift':
+    case 'set':
+      targets.forEach(({ course, event }) => {
+        const after = action.type === 'shift' ? shiftEvent(event, action.days) : reviseEvent(event, action.changes);
+        if (isValid(after)) {
+          commands.push({ type: 'update', courseId: course.id, before: event, after });
+        }
+      });
+      break;
+    case 'move': {
+      const destination = courses.find(course => course.id === action.courseId);
+      if (!destination) return { errors: ['That course is no longer in the workspace'] };
+      const moving = targets.filter(({ course }) => course.id !== destination.id);
+      remove(moving);
+      moving.forEach(({ event }) => append(destination, { ...event, courseId: destination.id }));
+      break;
+    }
+    case 'duplicate':
+      targets.forEach(({ course, event }) => append(course, { ...event, id: newId() }));
+      break;
+    case 'delete':
+      remove(targets);
+      break;
+  }
+
+  if (errors.length > 0) return { errors };
+  if (commands.length === 0) return { errors: [] };
+  return {
+    command: { type: 'bulk', label: describeBulkAction(action, targets.length, courses), commands },
+    errors: [],
+  };
+}
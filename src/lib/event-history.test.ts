@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { SyllabusEvent, WorkspaceCourse } from '@/types/syllabus';
+import { applyCommand, describeCommand, diffCommand, EventCommand, revertCommand } from './event-history';
+
+function makeEvent(id: string, date: string): SyllabusEvent {
+  return { id, title: `Event ${id}`, description: '', date, type: 'assignment', priority: 'medium' };
+}
+
+function makeCourse(events: SyllabusEvent[]): WorkspaceCourse {
+  return {
+    id: 'course-1',
+    color: '#2563eb',
+    syllabus: { events, timeZone: 'America/New_York', term: { start: '2025-01-13' } },
+    events,
+  };
+}
+
+describe('settings commands', () => {
+  it('undoes a term change together with the events it moved', () => {
+    const before = [makeEvent('a', '2025-01-20'), makeEvent('b', '2025-01-22')];
+    const after = [makeEvent('a', '2025-01-27'), before[1]];
+    const courses = [makeCourse(before)];
+    const label = 'change the term dates';
+    const command: EventCommand = {
+      type: 'bulk',
+      label,
+      commands: [
+        { type: 'settings', courseId: 'course-1', label, before: { term: { start: '2025-01-13' } }, after: { term: { start: '2025-01-20' } } },
+        diffCommand('course-1', before, after, label)!,
+      ],
+    };
+
+    const applied = applyCommand(courses, command);
+    expect(applied[0].syllabus.term).toEqual({ start: '2025-01-20' });
+    expect(applied[0].events.map(event => event.date)).toEqual(['2025-01-27', '2025-01-22']);
+    // The extracted events the change log compares against are left alone
+    expect(applied[0].syllabus.events).toBe(before);
+
+    const reverted = revertCommand(applied, command);
+    expect(reverted[0].syllabus.term).toEqual({ start: '2025-01-13' });
+    expect(reverted[0].events).toEqual(before);
+    expect(describeCommand(command)).toBe(label);
+  });
+
+  it('undoes a time zone change', () => {
+    const courses = [makeCourse([])];
+    const command: EventCommand = {
+      type: 'settings',
+      courseId: 'course-1',
+      label: 'set the time zone to Europe/London',
+      before: { timeZone: 'America/New_York' },
+      after: { timeZone: 'Europe/London' },
+    };
+
+    expect(applyCommand(courses, command)[0].syllabus.timeZone).toBe('Europe/London');
+    expect(revertCommand(applyCommand(courses, command), command)[0].syllabus.timeZone).toBe('America/New_York');
+  });
+});
@@ -0,0 +1,201 @@
+import { ProcessedSyllabus, SyllabusEvent, WorkspaceCourse } from '@/types/syllabus';
+
+// Course-wide settings that decide where events fall, undone together with the events they moved
+export type CourseSettings = Partial<Pick<ProcessedSyllabus, 'term' | 'timeZone'>>;
+
+// One reversible change to a course's events. `index` is the event's position in the course's list,
+// so undoing a delete puts the event back where it was.
+export type EventCommand =
+  | { type: 'create'; courseId: string; event: SyllabusEvent; index: number }
+  | { type: 'update'; courseId: string; before: SyllabusEvent; after: SyllabusEvent }
+  | { type: 'delete'; courseId: string; event: SyllabusEvent; index: number }
+  | { type: 'settings'; courseId: string; label: string; before: CourseSettings; after: CourseSettings }
+  | { type: 'bulk'; label: string; commands: EventCommand[] };
+
+export interface EditHistory {
+  undo: EventCommand[]; // most recent last
+  redo: EventCommand[];
+}
+
+// How an event differs from the one originally extracted
+export interface EventChange {
+  kind: 'added' | 'removed' | 'modified';
+  event: SyllabusEvent; // the current event, or the original for removed ones
+  original?: SyllabusEvent;
+  fields: EventChangeField[]; // for modified events
+}
+
+export type EventChangeField = 'title' | 'description' | 'date' | 'time' | 'type' | 'priority' | 'location' | 'duration' | 'recurrence';
+
+// Fields a person edits; ids, sources and confidence don't count as changes
+const CHANGE_FIELDS: EventChangeField[] = ['title', 'description', 'date', 'time', 'type', 'priority', 'location', 'duration', 'recurrence'];
+
+// Older commands are dropped beyond this many
+const MAX_HISTORY = 100;
+
+export const EMPTY_HISTORY: EditHistory = { undo: [], redo: [] };
+
+/**
+ * Replace one course's events, leaving the other courses as they are
+ */
+function mapCourseEvents(
+  courses: WorkspaceCourse[],
+  courseId: string,
+  update: (events: SyllabusEvent[]) => SyllabusEvent[]
+): WorkspaceCourse[] {
+  return courses.map(course => (course.id === courseId ? { ...course, events: update(course.events) } : course));
+}
+
+/**
+ * Replace some of a course's settings, leaving the other courses as they are
+ */
+function mapCourseSettings(courses: WorkspaceCourse[], courseId: string, settings: CourseSettings): WorkspaceCourse[] {
+  return courses.map(course => (course.id === courseId ? { ...course, syllabus: { ...course.syllabus, ...settings } } : course));
+}
+
+/**
+ * Insert an event at a position, or at the end when the list has since become shorter
+ */
+function insertAt(events: SyllabusEvent[], index: number, event: SyllabusEvent): SyllabusEvent[] {
+  const position = Math.min(Math.max(index, 0), events.length);
+  return [...events.slice(0, position), event, ...events.slice(position)];
+}
+
+/**
+ * Apply a command to the workspace
+ */
+export function applyCommand(courses: WorkspaceCourse[], command: EventCommand): WorkspaceCourse[] {
+  switch (command.type) {
+    case 'create':
+      return mapCourseEvents(courses, command.courseId, events => insertAt(events, command.index, command.event));
+    case 'update':
+      return mapCourseEvents(courses, command.courseId, events =>
+        events.map(event => (event.id === command.before.id ? command.after : event)));
+    case 'delete':
+      return mapCourseEvents(courses, command.courseId, events => events.filter(event => event.id !== command.event.id));
+    case 'settings':
+      return mapCourseSettings(courses, command.courseId, command.after);
+    case 'bulk':
+      return command.commands.reduce(applyCommand, courses);
+  }
+}
+
+/**
+ * Undo a command: the reverse of applyCommand
+ */
+export function revertCommand(courses: WorkspaceCourse[], command: EventCommand): WorkspaceCourse[] {
+  switch (command.type) {
+    case 'create':
+      return mapCourseEvents(courses, command.courseId, events => events.filter(event => event.id !== command.event.id));
+    case 'update':
+      return mapCourseEvents(courses, command.courseId, events =>
+        events.map(event => (event.id === command.after.id ? command.before : event)));
+    case 'delete':
+      return mapCourseEvents(courses, command.courseId, events => insertAt(events, command.index, command.event));
+    case 'settings':
+      return mapCourseSettings(courses, command.courseId, command.before);
+    case 'bulk':
+      return command.commands.reduceRight(revertCommand, courses);
+  }
+}
+
+/**
+ * Describe a change to a course's event list as a command, matching events by id; undefined when nothing changed
+ */
+export function diffCommand(
+  courseId: string,
+  before: SyllabusEvent[],
+  after: SyllabusEvent[],
+  label: string
+): EventCommand | undefined {
+  const afterIds = after.map(event => event.id);
+  const beforeIds = before.map(event => event.id);
+  const commands: EventCommand[] = [];
+
+  // Deletes last-first, so undoing them (in reverse) puts each back at its original index
+  before.forEach((event, index) => {
+    if (!afterIds.includes(event.id)) commands.unshift({ type: 'delete', courseId, event, index });
+  });
+  after.forEach(event => {
+    const previous = before[beforeIds.indexOf(event.id)];
+    if (previous && previous !== event) commands.push({ type: 'update', courseId, before: previous, after: event });
+  });
+  after.forEach((event, index) => {
+    if (!beforeIds.includes(event.id)) commands.push({ type: 'create', courseId, event, index });
+  });
+
+  if (commands.length === 0) return undefined;
+  return commands.length === 1 ? commands[0] : { type: 'bulk', label, commands };
+}
+
+/**
+ * Add a command that was just applied; anything undone before it can no longer be redone
+ */
+export function recordCommand(history: EditHistory, command: EventCommand): EditHistory {
+  return { undo: [...history.undo, command].slice(-MAX_HISTORY), redo: [] };
+}
+
+/**
+ * Drop every command touching a course, once the course is removed or replaced
+ */
+export function forgetCourse(history: EditHistory, courseId: string): EditHistory {
+  const touches = (command: EventCommand): boolean =>
+    command.type === 'bulk' ? command.commands.some(touches) : command.courseId === courseId;
+  return {
+    undo: history.undo.filter(command => !touches(command)),
+    redo: history.redo.filter(command => !touches(command)),
+  };
+}
+
+/**
+ * Short description of a command for the undo and redo buttons
+ */
+export function describeCommand(command: EventCommand): string {
+  switch (command.type) {
+    case 'create':
+      return `add "${command.event.title}"`;
+    case 'update':
+      return `edit "${command.after.title}"`;
+    case 'delete':
+      return `delete "${command.event.title}"`;
+    case 'settings':
+    case 'bulk':
+      return command.label;
+  }
+}
+
+/**
+ * A field's value for comparison; the editor saves cleared fields as empty strings
+ */
+function fieldValue(event: SyllabusEvent, field: EventChangeField): string | undefined {
+  const value = event[field];
+  return value === undefined || value === '' ? undefined : JSON.stringify(value);
+}
+
+/**
+ * How the current events differ from the originally extracted ones, matched by id, in the current order
+ * with removed events last
+ */
+export function listEventChanges(original: SyllabusEvent[], current: SyllabusEvent[]): EventChange[] {
+  const changes: EventChange[] = [];
+
+  current.forEach(event => {
+    const extracted = original.find(o => o.id === event.id);
+    if (!extracted) {
+      changes.push({ kind: 'added', event, fields: [] });
+      return;
+    }
+    const fields = CHANGE_FIELDS.filter(field => fieldValue(extracted, field) !== fieldValue(event, field));
+    if (fields.length > 0) {
+      changes.push({ kind: 'modified', event, original: extracted, fields });
+    }
+  });
+
+  original.forEach(event => {
+    if (!current.some(c => c.id === event.id)) {
+      changes.push({ kind: 'removed', event, fields: [] });
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { SyllabusEvent } from '@/types/syllabus';
+import { findOverlaps, isSameEvent, titleSimilarity } from './event-merge';
+
+function makeEvent(overrides: Partial<SyllabusEvent> = {}): SyllabusEvent {
+  return {
+    id: 'event-1',
+    title: 'Homework 1',
+    description: '',
+    date: '2025-01-20',
+    type: 'assignment',
+    priority: 'medium',
+    ...overrides,
+  };
+}
+
+describe('isSameEvent', () => {
+  it('matches titles that differ only in filler words and punctuation', () => {
+    expect(titleSimilarity('Homework 1 due', 'homework #1')).toBe(1);
+    expect(isSameEvent(makeEvent(), makeEvent({ title: 'Due: Homework 1' }))).toBe(true);
+  });
+
+  it('tells apart different dates, times and titles', () => {
+    expect(isSameEvent(makeEvent(), makeEvent({ date: '2025-01-21' }))).toBe(false);
+    expect(isSameEvent(makeEvent({ time: '09:00' }), makeEvent({ time: '14:00' }))).toBe(false);
+    expect(isSameEvent(makeEvent(), makeEvent({ title: 'Homework 2' }))).toBe(false);
+  });
+
+  it('matches when only one of the two has a time', () => {
+    expect(isSameEvent(makeEvent({ time: '23:59' }), makeEvent())).toBe(true);
+  });
+});
+
+describe('findOverlaps', () => {
+  it('reports duplicates and time conflicts once per pair', () => {
+    const lecture = makeEvent({
+      id: 'lecture',
+      title: 'Lecture',
+      type: 'lecture',
+      time: '10:00',
+      duration: 75,
+      recurrence: { frequency: 'weekly', daysOfWeek: ['MO', 'WE'], until: '2025-02-05' },
+    });
+    const incoming = [
+      makeEvent({ id: 'duplicate', title: 'Homework #1' }),
+      makeEvent({ id: 'quiz', title: 'Quiz', time: '11:00', date: '2025-01-22' }),
+      makeEvent({ id: 'lecture-copy', title: 'Lecture', type: 'lecture', time: '10:00', recurrence: lecture.recurrence }),
+    ];
+
+    const overlaps = findOverlaps([makeEvent(), lecture], incoming);
+
+    expect(overlaps.map(({ kind, existing, incoming: event }) => [kind, existing.id, event.id])).toEqual([
+      ['duplicate', 'event-1', 'duplicate'],
+      ['conflict', 'lecture', 'quiz'],
+      ['duplicate', 'lecture', 'lecture-copy'],
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import { SyllabusEvent } from '@/types/syllabus';
+import { expandEvents } from './recurrence';
+
+export interface EventOverlap {
+  kind: 'duplicate' | 'conflict';
+  existing: SyllabusEvent;
+  incoming: SyllabusEvent;
+  date: string;
+}
+
+const DEFAULT_DURATION_MINUTES = 60;
+const SIMILAR_TITLE_THRESHOLD = 0.6;
+
+/**
+ * Lower-case a title and reduce it to its significant words
+ */
+export function normalizeTitle(title: string): string[] {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0 && !['the', 'a', 'an', 'of', 'on', 'for', 'due', 'and'].includes(word));
+}
+
+/**
+ * Jaccard similarity of two titles' word sets, from 0 to 1
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const wordsA = new Set(normalizeTitle(a));
+  const wordsB = new Set(normalizeTitle(b));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  wordsA.forEach(word => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+// What isSameEvent compares; extracted events still have an unchecked time
+type ComparableEvent = Pick<SyllabusEvent, 'title' | 'date'> & { time?: unknown };
+
+/**
+ * Check whether two events on the same date describe the same thing
+ */
+export function isSameEvent(a: ComparableEvent, b: ComparableEvent): boolean {
+  if (a.date !== b.date) return false;
+  if (a.time && b.time && a.time !== b.time) return false;
+  return titleSimilarity(a.title, b.title) >= SIMILAR_TITLE_THRESHOLD;
+}
+
+/**
+ * Convert HH:MM to minutes since midnight
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check whether two timed events on the same date overlap in time
+ */
+function timesOverlap(a: SyllabusEvent, b: SyllabusEvent): boolean {
+  if (!a.time || !b.time) return false;
+  const startA = toMinutes(a.time);
+  const startB = toMinutes(b.time);
+  const endA = startA + (a.duration || DEFAULT_DURATION_MINUTES);
+  const endB = startB + (b.duration || DEFAULT_DURATION_MINUTES);
+  return startA < endB && startB < endA;
+}
+
+/**
+ * Find incoming events that duplicate or clash with existing ones.
+ * Recurring events are compared occurrence by occurrence; each pair is reported once.
+ */
+export function findOverlaps(existing: SyllabusEvent[], incoming: SyllabusEvent[]): EventOverlap[] {
+  const existingByDate = expandEvents(existing).reduce((acc, event) => {
+    (acc[event.date] = acc[event.date] || []).push(event);
+    return acc;
+  }, {} as Record<string, SyllabusEvent[]>);
+
+  const overlaps: EventOverlap[] = [];
+  const seenPairs = new Set<string>();
+
+  for (const occurrence of expandEvents(incoming)) {
+    for (const candidate of existingByDate[occurrence.date] || []) {
+      const pairKey = `${candidate.id}|${occurrence.id}`;
+      if (seenPairs.has(pairKey)) continue;
+
+      const kind = isSameEvent(candidate, occurrence)
+        ? 'duplicate'
+        : timesOverlap(candidate, occurrence) ? 'conflict' : undefined;
+      if (!kind) continue;
+
+      seenPairs.add(pairKey);
+      overlaps.push({
+        kind,
+        existing: existing.find(e => e.id === candidate.id) || candidate,
+        incoming: incoming.find(e => e.id === occurrence.id) || occurrence,
+        date: occurrence.date,
+      });
+    }
+  }
+
+  return overlaps;
+}
+
+/**
+ * Append incoming events to an event list, reporting any overlaps for review
+ */
+export function mergeEvents(
+  existing: SyllabusEvent[],
+  incoming: SyllabusEvent[]
+): { events: SyllabusEvent[]; overlaps: EventOverlap[] } {
+  return {
+    events: [...existing, ...incoming],
+    overlaps: findOverlaps(existing, incoming),
+  };
+}
@@ -0,0 +1,56 @@
+export interface ServerSentEvent {
+  event: string;
+  data: unknown; // parsed JSON, or the raw text when it isn't JSON
+}
+
+/**
+ * Parse one Server-Sent Events message block ("event:" and "data:" lines)
+ */
+function parseMessage(block: string): ServerSentEvent | undefined {
+  let event = 'message';
+  const data: string[] = [];
+
+  block.split('\n').forEach(line => {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+  });
+
+  if (data.length === 0) return undefined;
+  try {
+    return { event, data: JSON.parse(data.join('\n')) };
+  } catch {
+    return { event, data: data.join('\n') };
+  }
+}
+
+/**
+ * Read a fetch response as a Server-Sent Events stream, calling onMessage for each message as it arrives.
+ * The message type describes what the server sends; it isn't checked.
+ */
+export async function readEventStream<T extends ServerSentEvent = ServerSentEvent>(
+  response: Response,
+  onMessage: (message: T) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('The server response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done }).replace(/\r\n?/g, '\n');
+
+    // Messages end with a blank line; keep any incomplete one for the next read
+    const blocks = buffer.split('\n\n');
+    buffer = done ? '' : blocks.pop() || '';
+    blocks.forEach(block => {
+      const message = parseMessage(block);
+      if (message) onMessage(message as T);
+    });
+
+    if (done) return;
+  }
+}
@@ -0,0 +1,53 @@
+import { EventEditFormData, SyllabusEvent } from '@/types/syllabus';
+
+export type EventFieldErrors = Partial<Record<keyof EventEditFormData, string>>;
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+/**
+ * The editable fields of an event, as the editor form holds them
+ */
+export function toEventFormData(event: SyllabusEvent): EventEditFormData {
+  return {
+    title: event.title,
+    description: event.description,
+    date: event.date,
+    time: event.time || '',
+    type: event.type,
+    priority: event.priority,
+    location: event.location || '',
+    recurrence: event.recurrence,
+  };
+}
+
+/**
+ * Check an event's fields before saving, returning a message per invalid field (empty when valid)
+ */
+export function validateEventFields(data: EventEditFormData): EventFieldErrors {
+  const errors: EventFieldErrors = {};
+
+  if (!data.title.trim()) {
+    errors.title = 'Title is required';
+  }
+
+  if (!data.date) {
+    errors.date = 'Date is required';
+  } else if (!DATE_REGEX.test(data.date)) {
+    errors.date = 'Invalid date format';
+  }
+
+  if (data.time && !TIME_REGEX.test(data.time)) {
+    errors.time = 'Invalid time format (use HH:MM)';
+  }
+
+  if (data.recurrence) {
+    if (data.recurrence.daysOfWeek.length === 0) {
+      errors.recurrence = 'Select at least one day';
+    } else if (data.recurrence.until && data.recurrence.until < data.date) {
+      errors.recurrence = 'Repeat end date must be after the event date';
+    }
+  }
+
+  return errors;
+}
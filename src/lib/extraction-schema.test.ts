@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { findExtractionErrors, hasEventsArray } from './extraction-schema';
+
+const event = { title: 'Quiz 1', description: '', date: '2025-01-20', type: 'quiz', priority: 'medium' };
+
+describe('findExtractionErrors', () => {
+  it('accepts a result with valid events', () => {
+    expect(findExtractionErrors({ events: [event, { ...event, time: '09:30' }, { ...event, time: null }] })).toEqual([]);
+    expect(findExtractionErrors({ events: [] })).toEqual([]);
+  });
+
+  it('rejects anything but an object with an events array', () => {
+    expect(findExtractionErrors(null)).toEqual(['The response must be a JSON object with an "events" array']);
+    expect(findExtractionErrors([event])).toEqual(['The response must be a JSON object with an "events" array']);
+    expect(findExtractionErrors({ events: 'none' })).toEqual(['"events" must be an array']);
+  });
+
+  it('lists each problem with the event it belongs to', () => {
+    const errors = findExtractionErrors({
+      events: [
+        event,
+        'Quiz 2',
+        { ...event, title: ' ', date: '01/20/2025' },
+        { ...event, time: '9:30 AM', type: 'homework' },
+      ],
+    });
+
+    expect(errors).toEqual([
+      'events[1] must be an object',
+      'events[2].title is missing',
+      'events[2].date "01/20/2025" is not in YYYY-MM-DD format',
+      'events[3].time "9:30 AM" is not in HH:MM format',
+      'events[3].type "homework" must be one of assignment, exam, reading, lecture, project, quiz, other',
+    ]);
+  });
+});
+
+describe('hasEventsArray', () => {
+  it('tells apart results that have events to keep', () => {
+    expect(hasEventsArray({ events: [] })).toBe(true);
+    expect(hasEventsArray({ events: {} })).toBe(false);
+    expect(hasEventsArray(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+import { SyllabusEvent, ProcessedSyllabus, EventRecurrence, EventSource, NonInstructionalPeriod, TermInfo, Weekday } from '@/types/syllabus';
+import { NON_INSTRUCTIONAL_KINDS } from './relative-dates';
+
+type JSONSchema = Record<string, unknown>;
+
+// Fields the model fills in; ids and workspace courses are assigned on our side and the course comes from the syllabus
+type ExtractedEventField = Exclude<keyof SyllabusEvent, 'id' | 'course' | 'courseId'>;
+
+// A parsed model response. findExtractionErrors vouches for its shape, but each value still needs cleaning.
+// The id is ours, given to each event when its response arrives so it stays the same until the final result.
+export type RawExtractedEvent = Partial<Record<ExtractedEventField | 'id', unknown>>;
+export type RawExtraction = Partial<Record<Exclude<keyof ProcessedSyllabus, 'events'>, unknown>> & { events: unknown[] };
+
+export const EVENT_TYPES: SyllabusEvent['type'][] = ['assignment', 'exam', 'reading', 'lecture', 'project', 'quiz', 'other'];
+export const EVENT_PRIORITIES: SyllabusEvent['priority'][] = ['high', 'medium', 'low'];
+const WEEKDAY_CODES: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const ISO_DATE_PATTERN = '^\\d{4}-\\d{2}-\\d{2}$';
+const TIME_PATTERN = '^\\d{2}:\\d{2}$';
+
+const nullable = (schema: JSONSchema): JSONSchema => ({ anyOf: [schema, { type: 'null' }] });
+
+const recurrenceProperties: Record<keyof EventRecurrence, JSONSchema> = {
+  frequency: { type: 'string', enum: ['weekly', 'biweekly'] },
+  daysOfWeek: { type: 'array', items: { type: 'string', enum: WEEKDAY_CODES }, minItems: 1 },
+  until: nullable({ type: 'string', pattern: ISO_DATE_PATTERN, description: 'Last occurrence, inclusive' }),
+  exceptions: { type: 'array', items: { type: 'string', pattern: ISO_DATE_PATTERN }, description: 'Dates with no meeting, e.g. holidays' },
+};
+
+const sourceProperties: Record<keyof EventSource, JSONSchema> = {
+  text: { type: 'string', minLength: 1, description: 'Verbatim quote of the syllabus line or table row' },
+  page: nullable({ type: 'integer', minimum: 1 }),
+};
+
+const eventProperties: Record<ExtractedEventField, JSONSchema> = {
+  title: { type: 'string', minLength: 1 },
+  description: { type: 'string' },
+  date: { type: 'string', pattern: ISO_DATE_PATTERN, description: 'YYYY-MM-DD; the first occurrence for recurring events' },
+  time: nullable({ type: 'string', pattern: TIME_PATTERN, description: '24-hour HH:MM if a time is mentioned' }),
+  type: { type: 'string', enum: EVENT_TYPES },
+  priority: { type: 'string', enum: EVENT_PRIORITIES },
+  location: nullable({ type: 'string' }),
+  duration: nullable({ type: 'integer', minimum: 1, description: 'Length in minutes if an end time is mentioned' }),
+  recurrence: nullable({
+    type: 'object',
+    properties: recurrenceProperties,
+    required: ['frequency', 'daysOfWeek'],
+  }),
+  dateExpression: nullable({ type: 'string', description: "The syllabus's own wording when the date is relative, e.g. 'Week 3 Monday'" }),
+  confidence: { type: 'number', minimum: 0, maximum: 1, description: '1 when date and details are stated outright, lower when inferred' },
+  source: nullable({ type: 'object', properties: sourceProperties, required: ['text'] }),
+};
+
+const periodProperties: Record<keyof NonInstructionalPeriod, JSONSchema> = {
+  name: { type: 'string' },
+  kind: { type: 'string', enum: NON_INSTRUCTIONAL_KINDS },
+  start: { type: 'string', pattern: ISO_DATE_PATTERN },
+  end: { type: 'string', pattern: ISO_DATE_PATTERN, description: 'Inclusive; same as start for a single day' },
+};
+
+const termProperties: Record<keyof TermInfo, JSONSchema> = {
+  start: { type: 'string', pattern: ISO_DATE_PATTERN, description: 'First day of class' },
+  end: nullable({ type: 'string', pattern: ISO_DATE_PATTERN, description: 'Last day of class' }),
+  meetingDays: { type: 'array', items: { type: 'string', enum: WEEKDAY_CODES } },
+  noClassDates: { type: 'array', items: { type: 'string', pattern: ISO_DATE_PATTERN }, description: 'Holidays and breaks' },
+  breaks: {
+    type: 'array',
+    items: { type: 'object', properties: periodProperties, required: ['name', 'kind', 'start', 'end'] },
+    description: 'Named holidays, breaks, reading days and the finals window',
+  },
+};
+
+const syllabusProperties: Record<Exclude<keyof ProcessedSyllabus, 'events'>, JSONSchema> & { events: JSONSchema } = {
+  courseName: nullable({ type: 'string' }),
+  instructor: nullable({ type: 'string' }),
+  semester: nullable({ type: 'string', description: "e.g. 'Fall 2024'" }),
+  year: nullable({ type: 'integer' }),
+  timeZone: nullable({ type: 'string', description: 'IANA time zone, e.g. America/Chicago' }),
+  term: nullable({ type: 'object', properties: termProperties, required: ['start'] }),
+  events: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: eventProperties,
+      required: ['title', 'description', 'date', 'type', 'priority'],
+    },
+  },
+};
+
+/**
+ * JSON schema for an extraction result, mirroring ProcessedSyllabus and SyllabusEvent
+ */
+export const SYLLABUS_EXTRACTION_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: syllabusProperties,
+  required: ['events'],
+};
+
+export const EXTRACTION_FUNCTION_NAME = 'record_syllabus_events';
+
+/**
+ * Whether a parsed response at least has an events array to take events from
+ */
+export function hasEventsArray(result: unknown): result is RawExtraction {
+  return !!result && typeof result === 'object' && Array.isArray((result as { events?: unknown }).events);
+}
+
+/**
+ * Check a parsed result against the schema's essentials, returning readable problems for the model to fix
+ */
+export function findExtractionErrors(result: unknown): string[] {
+  if (!result || typeof result !== 'object' || Array.isArray(result)) {
+    return ['The response must be a JSON object with an "events" array'];
+  }
+
+  const events = (result as { events?: unknown }).events;
+  if (!Array.isArray(events)) {
+    return ['"events" must be an array'];
+  }
+
+  const errors: string[] = [];
+  events.forEach((event, index) => {
+    if (!event || typeof event !== 'object') {
+      errors.push(`events[${index}] must be an object`);
+      return;
+    }
+    const { title, date, time, type } = event as Record<string, unknown>;
+    if (typeof title !== 'string' || !title.trim()) {
+      errors.push(`events[${index}].title is missing`);
+    }
+    if (typeof date !== 'string' || !new RegExp(ISO_DATE_PATTERN).test(date)) {
+      errors.push(`events[${index}].date ${JSON.stringify(date)} is not in YYYY-MM-DD format`);
+    }
+    if (time !== undefined && time !== null && (typeof time !== 'string' || !new RegExp(TIME_PATTERN).test(time))) {
+      errors.push(`events[${index}].time ${JSON.stringify(time)} is not in HH:MM format`);
+    }
+    if (type !== undefined && !(EVENT_TYPES as unknown[]).includes(type)) {
+      errors.push(`events[${index}].type ${JSON.stringify(type)} must be one of ${EVENT_TYPES.join(', ')}`);
+    }
+  });
+
+  return errors;
+}
@@ -1,10 +1,37 @@
+import crypto from 'crypto';
 import { google } from 'googleapis';
-import { SyllabusEvent, GoogleCalendarEvent } from '@/types/syllabus';
+import { SyllabusEvent, GoogleCalendarEvent, GoogleSyncChange, GoogleSyncResult } from '@/types/syllabus';
+import { buildRecurrenceLines } from './recurrence';
+import { addDays, addMinutes } from './date-utils';
+import { DEFAULT_TIME_ZONE } from './timezone';
+
+// Private extended properties used to recognise events we exported earlier
+const EVENT_ID_PROPERTY = 'syllabusEventId';
+const COURSE_KEY_PROPERTY = 'syllabusCourseKey';
+const CONTENT_HASH_PROPERTY = 'syllabusHash';
+
+/**
+ * Derive the key identifying a course's events from its id, e.g. "course-1700000000000-abc123def".
+ * Falls back to the course name for callers that don't send an id.
+ */
+export function toCourseKey(courseIdOrName?: string): string {
+  const key = (courseIdOrName || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64);
+  return key || 'syllabus';
+}
 
 export class GoogleCalendarService {
   private calendar;
+  private timeZone: string;
+  private courseTimeZones: Record<string, string>;
 
-  constructor(accessToken: string) {
+  // `courseTimeZones` (by course id) overrides `timeZone` for events of courses in another zone
+  constructor(accessToken: string, timeZone: string = DEFAULT_TIME_ZONE, courseTimeZones: Record<string, string> = {}) {
+    this.timeZone = timeZone;
+    this.courseTimeZones = courseTimeZones;
     const auth = new google.auth.OAuth2();
     auth.setCredentials({ access_token: accessToken });
     this.calendar = google.calendar({ version: 'v3', auth });
@@ -13,21 +40,7 @@ export class GoogleCalendarService {
   /**
    * Convert SyllabusEvent to Google Calendar event format
    */
-  private convertToGoogleEvent(event: SyllabusEvent): GoogleCalendarEvent {
-    const startDate = new Date(event.date);
-    const endDate = new Date(event.date);
-
-    // If time is specified, use it
-    if (event.time) {
-      const [hours, minutes] = event.time.split(':').map(Number);
-      startDate.setHours(hours, minutes);
-      endDate.setHours(hours + (event.duration ? Math.floor(event.duration / 60) : 1), 
-                      minutes + (event.duration ? event.duration % 60 : 0));
-    } else {
-      // All-day event
-      endDate.setDate(endDate.getDate() + 1);
-    }
-
+  private convertToGoogleEvent(event: SyllabusEvent, courseKey?: string): GoogleCalendarEvent {
     const googleEvent: GoogleCalendarEvent = {
       summary: event.title,
       description: this.formatDescription(event),
@@ -36,27 +49,67 @@ export class GoogleCalendarService {
       end: {},
     };
 
+    const timeZone = (event.courseId && this.courseTimeZones[event.courseId]) || this.timeZone;
     if (event.time) {
+      // Wall-clock times interpreted in the syllabus time zone
+      const end = addMinutes(event.date, event.time, event.duration || 60);
       googleEvent.start = {
-        dateTime: startDate.toISOString(),
-        timeZone: 'America/New_York', // Default timezone, could be configurable
+        dateTime: `${event.date}T${event.time}:00`,
+        timeZone,
       };
       googleEvent.end = {
-        dateTime: endDate.toISOString(),
-        timeZone: 'America/New_York',
+        dateTime: `${end.date}T${end.time}:00`,
+        timeZone,
       };
     } else {
+      // All-day event
       googleEvent.start = {
         date: event.date,
       };
       googleEvent.end = {
-        date: endDate.toISOString().split('T')[0],
+        date: addDays(event.date, 1),
+      };
+    }
+
+    if (event.recurrence) {
+      googleEvent.recurrence = buildRecurrenceLines(event, timeZone);
+    }
+
+    // Tag the event so a later sync can find, compare and update it
+    if (courseKey && event.id) {
+      googleEvent.extendedProperties = {
+        private: {
+          [EVENT_ID_PROPERTY]: event.id,
+          [COURSE_KEY_PROPERTY]: courseKey,
+          [CONTENT_HASH_PROPERTY]: crypto.createHash('sha1').update(JSON.stringify(googleEvent)).digest('hex'),
+        },
       };
     }
 
     return googleEvent;
   }
 
+  /**
+   * Patch requests merge fields, so explicitly clear whatever the new version no longer sets
+   */
+  private toPatchBody(googleEvent: GoogleCalendarEvent) {
+    return {
+      ...googleEvent,
+      location: googleEvent.location ?? null,
+      recurrence: googleEvent.recurrence ?? null,
+      start: {
+        date: googleEvent.start.date ?? null,
+        dateTime: googleEvent.start.dateTime ?? null,
+        timeZone: googleEvent.start.timeZone ?? null,
+      },
+      end: {
+        date: googleEvent.end.date ?? null,
+        dateTime: googleEvent.end.dateTime ?? null,
+        timeZone: googleEvent.end.timeZone ?? null,
+      },
+    };
+  }
+
   /**
    * Format event description for Google Calendar
    */
@@ -78,9 +131,9 @@ export class GoogleCalendarService {
   /**
    * Create a single event in Google Calendar
    */
-  async createEvent(event: SyllabusEvent, calendarId: string = 'primary'): Promise<string> {
+  async createEvent(event: SyllabusEvent, calendarId: string = 'primary', courseKey?: string): Promise<string> {
     try {
-      const googleEvent = this.convertToGoogleEvent(event);
+      const googleEvent = this.convertToGoogleEvent(event, courseKey);
       
       const response = await this.calendar.events.insert({
         calendarId,
@@ -97,13 +150,13 @@ export class GoogleCalendarService {
   /**
    * Create multiple events in Google Calendar
    */
-  async createEvents(events: SyllabusEvent[], calendarId: string = 'primary'): Promise<{ success: string[], failed: { event: SyllabusEvent, error: string }[] }> {
+  async createEvents(events: SyllabusEvent[], calendarId: string = 'primary', courseKey?: string): Promise<{ success: string[], failed: { event: SyllabusEvent, error: string }[] }> {
     const success: string[] = [];
     const failed: { event: SyllabusEvent, error: string }[] = [];
 
     for (const event of events) {
       try {
-        const eventId = await this.createEvent(event, calendarId);
+        const eventId = await this.createEvent(event, calendarId, courseKey);
         success.push(eventId);
       } catch (error) {
         failed.push({
@@ -116,6 +169,146 @@ export class GoogleCalendarService {
     return { success, failed };
   }
 
+  /**
+   * List the events previously exported for a course
+   */
+  private async listSyncedEvents(calendarId: string, courseKey: string) {
+    const items = [];
+    let pageToken: string | undefined;
+
+    try {
+      do {
+        const response = await this.calendar.events.list({
+          calendarId,
+          privateExtendedProperty: [`${COURSE_KEY_PROPERTY}=${courseKey}`],
+          maxResults: 2500,
+          pageToken,
+        });
+        items.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+    } catch (error) {
+      console.error('Error listing synced events:', error);
+      throw new Error('Failed to read existing calendar events');
+    }
+
+    return items;
+  }
+
+  /**
+   * Work out the inserts, patches and deletes that make the calendar mirror `events`
+   */
+  async planSync(
+    events: SyllabusEvent[],
+    calendarId: string,
+    courseKey: string
+  ): Promise<{ changes: GoogleSyncChange[]; unchanged: number }> {
+    const existing = await this.listSyncedEvents(calendarId, courseKey);
+    const existingById = new Map<string, (typeof existing)[number]>();
+    const changes: GoogleSyncChange[] = [];
+
+    for (const item of existing) {
+      const eventId = item.extendedProperties?.private?.[EVENT_ID_PROPERTY];
+      if (eventId && !existingById.has(eventId)) {
+        existingById.set(eventId, item);
+      } else {
+        // Untagged leftovers or duplicates from earlier blind inserts
+        changes.push({
+          action: 'delete',
+          title: item.summary || 'Untitled event',
+          date: (item.start?.date || item.start?.dateTime || '').slice(0, 10) || undefined,
+          googleEventId: item.id || undefined,
+        });
+      }
+    }
+
+    let unchanged = 0;
+    for (const event of events) {
+      // Without an id the event couldn't be found again next time, and would be inserted on every sync
+      if (!event.id) {
+        throw new Error(`"${event.title}" has no id, so it can't be synced`);
+      }
+
+      const current = existingById.get(event.id);
+      if (!current) {
+        changes.push({ action: 'insert', title: event.title, date: event.date, eventId: event.id });
+        continue;
+      }
+
+      existingById.delete(event.id);
+      const hash = this.convertToGoogleEvent(event, courseKey).extendedProperties?.private?.[CONTENT_HASH_PROPERTY];
+      if (current.extendedProperties?.private?.[CONTENT_HASH_PROPERTY] === hash) {
+        unchanged++;
+      } else {
+        changes.push({
+          action: 'update',
+          title: event.title,
+          date: event.date,
+          eventId: event.id,
+          googleEventId: current.id || undefined,
+        });
+      }
+    }
+
+    // Anything left was removed from the event list since the last export
+    existingById.forEach(item => {
+      changes.push({
+        action: 'delete',
+        title: item.summary || 'Untitled event',
+        date: (item.start?.date || item.start?.dateTime || '').slice(0, 10) || undefined,
+        googleEventId: item.id || undefined,
+      });
+    });
+
+    return { changes, unchanged };
+  }
+
+  /**
+   * Sync a course's events so the calendar mirrors the edited event list exactly.
+   * With `dryRun` the changes are computed but not applied.
+   */
+  async syncEvents(
+    events: SyllabusEvent[],
+    calendarId: string,
+    courseKey: string,
+    dryRun: boolean = false
+  ): Promise<GoogleSyncResult> {
+    const { changes, unchanged } = await this.planSync(events, calendarId, courseKey);
+    const failed: GoogleSyncResult['failed'] = [];
+
+    if (!dryRun) {
+      const eventsById = new Map(events.map(event => [event.id, event]));
+
+      for (const change of changes) {
+        try {
+          if (change.action === 'insert') {
+            const eventId = await this.createEvent(eventsById.get(change.eventId)!, calendarId, courseKey);
+            change.googleEventId = eventId;
+          } else if (change.action === 'update') {
+            await this.calendar.events.patch({
+              calendarId,
+              eventId: change.googleEventId!,
+              requestBody: this.toPatchBody(this.convertToGoogleEvent(eventsById.get(change.eventId)!, courseKey)),
+            });
+          } else {
+            await this.calendar.events.delete({
+              calendarId,
+              eventId: change.googleEventId!,
+            });
+          }
+        } catch (error) {
+          console.error(`Error applying ${change.action} for "${change.title}":`, error);
+          failed.push({
+            change,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+    }
+
+    return { calendarId, dryRun, changes, unchanged, failed };
+  }
+
   /**
    * Get list of user's calendars
    */
@@ -138,7 +331,7 @@ export class GoogleCalendarService {
         requestBody: {
           summary: `${courseName} - Syllabus Events`,
           description: `Calendar created for ${courseName} syllabus events`,
-          timeZone: 'America/New_York',
+          timeZone: this.timeZone,
         },
       });
 
@@ -153,7 +346,7 @@ export class GoogleCalendarService {
 /**
  * Generate Google OAuth URL for calendar access
  */
-export function getGoogleAuthUrl(clientId: string, redirectUri: string): string {
+export function getGoogleAuthUrl(clientId: string, redirectUri: string, state?: string): string {
   const scopes = [
     'https://www.googleapis.com/auth/calendar',
     'https://www.googleapis.com/auth/calendar.events'
@@ -169,6 +362,8 @@ export function getGoogleAuthUrl(clientId: string, redirectUri: string): string
     access_type: 'offline',
     scope: scopes,
     include_granted_scopes: true,
+    prompt: 'consent', // Always return a refresh token
+    state,
   });
 }
 
@@ -179,7 +374,7 @@ export async function exchangeCodeForToken(
   code: string,
   clientId: string,
   redirectUri: string
-): Promise<{ access_token: string; refresh_token?: string }> {
+): Promise<{ access_token: string; refresh_token?: string; expiry_date?: number }> {
   const oauth2Client = new google.auth.OAuth2(
     clientId,
     process.env.GOOGLE_CLIENT_SECRET,
@@ -191,9 +386,38 @@ export async function exchangeCodeForToken(
     return {
       access_token: tokens.access_token || '',
       refresh_token: tokens.refresh_token || undefined,
+      expiry_date: tokens.expiry_date || undefined,
     };
   } catch (error) {
     console.error('Error exchanging code for token:', error);
     throw new Error('Failed to authenticate with Google');
   }
 }
+
+/**
+ * Obtain a new access token using a stored refresh token
+ */
+export async function refreshAccessToken(
+  refreshToken: string,
+  clientId: string
+): Promise<{ access_token: string; expiry_date?: number }> {
+  const oauth2Client = new google.auth.OAuth2(
+    clientId,
+    process.env.GOOGLE_CLIENT_SECRET
+  );
+  oauth2Client.setCredentials({ refresh_token: refreshToken });
+
+  try {
+    const { token } = await oauth2Client.getAccessToken();
+    if (!token) {
+      throw new Error('No access token returned');
+    }
+    return {
+      access_token: token,
+      expiry_date: oauth2Client.credentials.expiry_date || undefined,
+    };
+  } catch (error) {
+    console.error('Error refreshing access token:', error);
+    throw new Error('Google session expired. Please reconnect your Google account.');
+  }
+}
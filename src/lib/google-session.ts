@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshAccessToken } from './google-calendar';
+
+export const GOOGLE_SESSION_COOKIE = 'google_session';
+export const GOOGLE_STATE_COOKIE = 'google_oauth_state';
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60; // 30 days, in seconds
+const STATE_MAX_AGE = 10 * 60;
+// Refresh slightly before Google's expiry to avoid racing it mid-export
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+export interface GoogleSession {
+  access_token: string;
+  refresh_token?: string;
+  expiry_date?: number;
+}
+
+/**
+ * Check that the Google OAuth client and cookie encryption are configured
+ */
+export function isGoogleConfigured(): boolean {
+  return Boolean(
+    process.env.GOOGLE_CLIENT_ID &&
+    process.env.GOOGLE_CLIENT_SECRET &&
+    process.env.GOOGLE_TOKEN_SECRET
+  );
+}
+
+/**
+ * Build the OAuth redirect URI for this deployment
+ */
+export function getRedirectUri(request: NextRequest): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+  return `${baseUrl.replace(/\/$/, '')}/api/google/callback`;
+}
+
+/**
+ * Derive the AES-256 key from GOOGLE_TOKEN_SECRET
+ */
+function getEncryptionKey(): Buffer {
+  const secret = process.env.GOOGLE_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('GOOGLE_TOKEN_SECRET is not configured');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a session with AES-256-GCM as base64url(iv | auth tag | ciphertext)
+ */
+export function encryptSession(session: GoogleSession): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(session), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+/**
+ * Decrypt a session cookie value, returning null if it was tampered with or is malformed
+ */
+export function decryptSession(value: string): GoogleSession | null {
+  try {
+    const data = Buffer.from(value, 'base64url');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    const plaintext = Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+
+    const session = JSON.parse(plaintext);
+    return session && typeof session.access_token === 'string' ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the Google session for a request, refreshing the access token if it has expired.
+ * `refreshed` is set when the caller must write the updated session back.
+ */
+export async function getGoogleSession(
+  request: NextRequest
+): Promise<{ session: GoogleSession; refreshed: boolean } | null> {
+  const cookie = request.cookies.get(GOOGLE_SESSION_COOKIE)?.value;
+  const session = cookie ? decryptSession(cookie) : null;
+  if (!session) return null;
+
+  const expired = session.expiry_date !== undefined && session.expiry_date - EXPIRY_MARGIN_MS < Date.now();
+  if (!expired) {
+    return { session, refreshed: false };
+  }
+
+  if (!session.refresh_token) return null;
+
+  const token = await refreshAccessToken(session.refresh_token, process.env.GOOGLE_CLIENT_ID!);
+  return {
+    session: { ...session, ...token },
+    refreshed: true,
+  };
+}
+
+/**
+ * Store the session in an encrypted HTTP-only cookie
+ */
+export function setGoogleSessionCookie(response: NextResponse, session: GoogleSession): void {
+  response.cookies.set(GOOGLE_SESSION_COOKIE, encryptSession(session), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_MAX_AGE,
+  });
+}
+
+/**
+ * Remove the session cookie (disconnect)
+ */
+export function clearGoogleSessionCookie(response: NextResponse): void {
+  response.cookies.set(GOOGLE_SESSION_COOKIE, '', { path: '/', maxAge: 0 });
+}
+
+/**
+ * Store the OAuth state parameter for CSRF protection during the consent flow
+ */
+export function setOAuthStateCookie(response: NextResponse, state: string): void {
+  response.cookies.set(GOOGLE_STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/google',
+    maxAge: STATE_MAX_AGE,
+  });
+}
@@ -0,0 +1,115 @@
+// Convert HTML (course pages, DOCX rendered by mammoth) into plain text that keeps
+// the document structure: headings, list items and tables as Markdown. The tidying
+// helpers are shared by every extractor that preserves line structure.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  rsquo: "'",
+  lsquo: "'",
+  rdquo: '"',
+  ldquo: '"',
+  bull: '•',
+};
+
+/**
+ * Decode named and numeric character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Reduce an HTML fragment to a single line of text
+ */
+function inlineText(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Render the rows of an HTML table as a Markdown table
+ */
+function tableToMarkdown(tableHtml: string): string {
+  const rows = (tableHtml.match(/<tr[^>]*>[\s\S]*?<\/tr>/gi) || []).map(row =>
+    (row.match(/<t[hd][^>]*>[\s\S]*?<\/t[hd]>/gi) || []).flatMap(cell => {
+      const colspan = Number(cell.match(/colspan\s*=\s*["']?(\d+)/i)?.[1] || 1);
+      const content = inlineText(cell).replace(/\|/g, '\\|');
+      return [content, ...Array(Math.max(0, colspan - 1)).fill('')];
+    })
+  ).filter(cells => cells.some(cell => cell.length > 0));
+
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map(cells => cells.length));
+  const toLine = (cells: string[]) =>
+    `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+
+  return [
+    toLine(rows[0]),
+    `|${Array(width).fill(' --- ').join('|')}|`,
+    ...rows.slice(1).map(toLine),
+  ].join('\n');
+}
+
+/**
+ * Convert an HTML document to structured plain text
+ */
+export function htmlToText(html: string): string {
+  let text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|head|nav|iframe)\b[^>]*>[\s\S]*?<\/\1>/gi, '');
+
+  text = text.replace(/<table\b[^>]*>([\s\S]*?)<\/table>/gi, (_, inner: string) => `\n\n${tableToMarkdown(inner)}\n\n`);
+
+  text = text
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, content: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${inlineText(content)}\n\n`)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|main|ul|ol|li|header|footer|blockquote|pre|dl|dd|dt|hr)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return tidyText(decodeEntities(text));
+}
+
+/**
+ * Collapse runs of spaces within lines and runs of blank lines, keeping line structure
+ */
+export function tidyText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t ]+/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Normalize text while keeping line breaks, so tables and lists survive for the AI prompt
+ */
+export function cleanStructuredText(text: string): string {
+  return tidyText(
+    text
+      .replace(/\f/g, '\n')
+      .replace(/[•·‣⁃]/g, '-')
+      .replace(/[“”]/g, '"')
+      .replace(/[‘’]/g, "'")
+  );
+}
@@ -0,0 +1,83 @@
+// RFC 5545 line and value formatting shared by the generator and parser
+
+export const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Reverse escapeText
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets, never splitting a UTF-8 character.
+ * Continuation lines start with a single space, which counts toward their length.
+ */
+export function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const lines: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      lines.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  lines.push(current);
+
+  return lines.join(`${CRLF} `);
+}
+
+/**
+ * Undo line folding on a whole calendar document
+ */
+export function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.length > 0);
+}
+
+/**
+ * Format YYYY-MM-DD as an iCalendar DATE value
+ */
+export function formatDateValue(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+/**
+ * Format a wall-clock date and HH:MM time as a local DATE-TIME value
+ */
+export function formatLocalDateTimeValue(date: string, time: string): string {
+  return `${formatDateValue(date)}T${time.replace(':', '')}00`;
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME value
+ */
+export function formatUTCDateTimeValue(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+}
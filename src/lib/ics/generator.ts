@@ -0,0 +1,138 @@
+import { SyllabusEvent } from '@/types/syllabus';
+import { buildRecurrenceLines, getSeriesEnd } from '../recurrence';
+import { buildVTimezone } from '../timezone';
+import { addDays, addMinutes } from '../date-utils';
+import {
+  CRLF,
+  escapeText,
+  foldLine,
+  formatDateValue,
+  formatLocalDateTimeValue,
+  formatUTCDateTimeValue,
+} from './format';
+
+export const ICS_PRODID = '-//Syllabus to Calendar//EN';
+const UID_DOMAIN = 'syllabus-to-calendar';
+const DEFAULT_DURATION_MINUTES = 60;
+
+export interface ICSOptions {
+  calendarName?: string;
+  timeZone?: string; // timed events are floating when omitted
+  courseTimeZones?: Record<string, string>; // by course id, for events whose course uses another zone
+  now?: Date; // DTSTAMP, overridable for reproducible output
+}
+
+// RFC 5545 PRIORITY: 1 is highest, 9 is lowest
+export const PRIORITY_VALUES: Record<SyllabusEvent['priority'], number> = {
+  high: 1,
+  medium: 5,
+  low: 9,
+};
+
+/**
+ * Capitalize a type or priority for display, e.g. "exam" -> "Exam"
+ */
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Build the DESCRIPTION text for an event
+ */
+function formatDescription(event: SyllabusEvent): string {
+  let description = event.description;
+  description += `${description ? '\n\n' : ''}Type: ${capitalize(event.type)}`;
+  description += `\nPriority: ${capitalize(event.priority)}`;
+  if (event.course) {
+    description += `\nCourse: ${event.course}`;
+  }
+  return description;
+}
+
+/**
+ * The zone an event's wall-clock times are in: its course's, or the calendar's
+ */
+function getEventTimeZone(event: SyllabusEvent, options: ICSOptions): string | undefined {
+  return (event.courseId && options.courseTimeZones?.[event.courseId]) || options.timeZone;
+}
+
+/**
+ * Build the content lines of a single VEVENT
+ */
+function buildEvent(event: SyllabusEvent, index: number, timeZone: string | undefined, dtstamp: string): string[] {
+  const tzParam = timeZone ? `;TZID=${timeZone}` : '';
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id || `${event.date}-${index}`}@${UID_DOMAIN}`,
+    `DTSTAMP:${dtstamp}`,
+  ];
+
+  if (event.time) {
+    const end = addMinutes(event.date, event.time, event.duration || DEFAULT_DURATION_MINUTES);
+    lines.push(
+      `DTSTART${tzParam}:${formatLocalDateTimeValue(event.date, event.time)}`,
+      `DTEND${tzParam}:${formatLocalDateTimeValue(end.date, end.time)}`
+    );
+  } else {
+    // All-day events end on the following day (exclusive)
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDateValue(event.date)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(addDays(event.date, 1))}`
+    );
+  }
+
+  lines.push(...buildRecurrenceLines(event, timeZone));
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  lines.push(`DESCRIPTION:${escapeText(formatDescription(event))}`);
+
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+
+  lines.push(`CATEGORIES:${escapeText(capitalize(event.type))}`);
+  lines.push(`PRIORITY:${PRIORITY_VALUES[event.priority]}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Generate an RFC 5545 calendar (CRLF line endings, folded at 75 octets)
+ */
+export function generateICS(events: SyllabusEvent[], options: ICSOptions = {}): string {
+  const dtstamp = formatUTCDateTimeValue(options.now || new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  if (options.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+
+  // Describe each zone in use for the years its timed events (and their series) span
+  const timedYears = new Map<string, number[]>();
+  events.forEach(event => {
+    const timeZone = getEventTimeZone(event, options);
+    if (!event.time || !timeZone) return;
+    const years = timedYears.get(timeZone) || [];
+    years.push(...[event.date, getSeriesEnd(event)].map(date => Number(date.slice(0, 4))));
+    timedYears.set(timeZone, years);
+  });
+  if (options.timeZone && timedYears.size > 0) {
+    lines.push(`X-WR-TIMEZONE:${options.timeZone}`);
+  }
+  timedYears.forEach((years, timeZone) => {
+    lines.push(...buildVTimezone(timeZone, Math.min(...years), Math.max(...years)));
+  });
+
+  events.forEach((event, index) => {
+    lines.push(...buildEvent(event, index, getEventTimeZone(event, options), dtstamp));
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
@@ -0,0 +1,283 @@
+import { describe, expect, it } from 'vitest';
+import { SyllabusEvent } from '@/types/syllabus';
+import { getOccurrenceDates } from '../recurrence';
+import { escapeText, foldLine, generateICS, parseICS, unescapeText, unfoldLines } from '.';
+
+const NOW = new Date(Date.UTC(2025, 0, 2, 3, 4, 5));
+const encoder = new TextEncoder();
+
+function makeEvent(overrides: Partial<SyllabusEvent> = {}): SyllabusEvent {
+  return {
+    id: 'event-1',
+    title: 'Problem Set 1',
+    description: 'Chapters 1-2',
+    date: '2025-01-20',
+    time: '09:30',
+    duration: 90,
+    type: 'assignment',
+    priority: 'high',
+    ...overrides,
+  };
+}
+
+/**
+ * Generate a calendar and parse it straight back, as re-importing an export would
+ */
+function roundTrip(events: SyllabusEvent[], timeZone?: string) {
+  const ics = generateICS(events, { calendarName: 'CS 101', timeZone, now: NOW });
+  return { ics, parsed: parseICS(ics) };
+}
+
+describe('text escaping', () => {
+  it('escapes and restores backslashes, semicolons, commas and newlines', () => {
+    const text = 'Read ch. 1; 2, and 3\\appendix\nthen review';
+    expect(escapeText(text)).toBe('Read ch. 1\\; 2\\, and 3\\\\appendix\\nthen review');
+    expect(unescapeText(escapeText(text))).toBe(text);
+  });
+
+  it('round-trips special characters in titles, descriptions and locations', () => {
+    const event = makeEvent({
+      title: 'Essay; draft, v2 \\ final',
+      description: 'Line one\nLine two, with a comma; and a semicolon',
+      location: 'Room 101, Main Hall',
+      course: 'CS 101; Section A',
+    });
+    const [parsed] = roundTrip([event]).parsed.events;
+
+    expect(parsed.title).toBe(event.title);
+    expect(parsed.description).toBe(event.description);
+    expect(parsed.location).toBe(event.location);
+    expect(parsed.course).toBe(event.course);
+  });
+});
+
+describe('line format', () => {
+  it('ends every line with CRLF', () => {
+    const { ics } = roundTrip([makeEvent()]);
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('folds lines longer than 75 octets without splitting UTF-8 characters', () => {
+    const title = 'Lecture on café culture — ünïcödé ' + 'é'.repeat(80);
+    const { ics, parsed } = roundTrip([makeEvent({ title })]);
+    const lines = ics.split('\r\n').filter(Boolean);
+
+    for (const line of lines) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('�');
+    }
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+    expect(parsed.events[0].title).toBe(title);
+  });
+
+  it('unfolds what foldLine folds', () => {
+    const line = `DESCRIPTION:${'x'.repeat(200)}`;
+    expect(unfoldLines(foldLine(line))).toEqual([line]);
+  });
+});
+
+describe('generateICS', () => {
+  it('stamps every event with the given time in UTC', () => {
+    const { ics } = roundTrip([makeEvent(), makeEvent({ id: 'event-2', time: undefined })]);
+    expect(ics.match(/^DTSTAMP:20250102T030405Z$/gm)).toHaveLength(2);
+  });
+
+  it('describes the time zone once when it has timed events', () => {
+    const { ics } = roundTrip([makeEvent()], 'America/New_York');
+    expect(ics.match(/^BEGIN:VTIMEZONE$/gm)).toHaveLength(1);
+    expect(ics).toContain('TZID:America/New_York');
+    expect(ics).toMatch(/^BEGIN:DAYLIGHT$/m);
+    expect(ics).toMatch(/^TZOFFSETTO:-0500$/m);
+    expect(ics).toContain('DTSTART;TZID=America/New_York:20250120T093000');
+  });
+
+  it('writes events of courses in other zones in their own zone', () => {
+    const events = [
+      makeEvent({ courseId: 'course-ny' }),
+      makeEvent({ id: 'event-2', courseId: 'course-london', date: '2026-02-02' }),
+      makeEvent({ id: 'event-3', courseId: 'course-unzoned' }),
+    ];
+    const ics = generateICS(events, {
+      timeZone: 'America/New_York',
+      courseTimeZones: { 'course-ny': 'America/New_York', 'course-london': 'Europe/London' },
+      now: NOW,
+    });
+
+    expect(ics).toContain('X-WR-TIMEZONE:America/New_York');
+    expect(ics.match(/^BEGIN:VTIMEZONE$/gm)).toHaveLength(2);
+    expect(ics).toContain('TZID:Europe/London');
+    expect(ics).toContain('DTSTART;TZID=Europe/London:20260202T093000');
+    expect(ics.match(/^DTSTART;TZID=America\/New_York:20250120T093000$/gm)).toHaveLength(2);
+
+    // Re-imported into New York time, London's 09:30 is 04:30
+    const parsed = parseICS(ics).events;
+    expect(parsed.map(event => `${event.date} ${event.time}`)).toEqual(['2025-01-20 09:30', '2026-02-02 04:30', '2025-01-20 09:30']);
+  });
+
+  it('leaves out VTIMEZONE for floating times and all-day events', () => {
+    expect(roundTrip([makeEvent()]).ics).not.toContain('VTIMEZONE');
+    expect(roundTrip([makeEvent({ time: undefined })], 'America/New_York').ics).not.toContain('VTIMEZONE');
+  });
+});
+
+describe('round trip', () => {
+  it('keeps dates, times, durations and classification', () => {
+    const events = [
+      makeEvent(),
+      makeEvent({ id: 'event-2', title: 'Midterm', type: 'exam', priority: 'high', date: '2025-03-05', time: undefined, duration: undefined }),
+      makeEvent({ id: 'event-3', title: 'Reading', type: 'reading', priority: 'low', time: '23:30', duration: 60 }),
+    ];
+    const { parsed } = roundTrip(events, 'America/New_York');
+
+    expect(parsed.calendarName).toBe('CS 101');
+    expect(parsed.timeZone).toBe('America/New_York');
+    expect(parsed.events.map(({ title, date, time, duration, type, priority }) =>
+      ({ title, date, time, duration, type, priority }))).toEqual([
+      { title: 'Problem Set 1', date: '2025-01-20', time: '09:30', duration: 90, type: 'assignment', priority: 'high' },
+      { title: 'Midterm', date: '2025-03-05', time: undefined, duration: undefined, type: 'exam', priority: 'high' },
+      { title: 'Reading', date: '2025-01-20', time: '23:30', duration: 60, type: 'reading', priority: 'low' },
+    ]);
+  });
+
+  it('keeps weekly recurrence with its end date and exceptions', () => {
+    const recurrence = {
+      frequency: 'weekly' as const,
+      daysOfWeek: ['MO' as const, 'WE' as const],
+      until: '2025-05-05',
+      exceptions: ['2025-03-10', '2025-03-12'],
+    };
+    const { ics, parsed } = roundTrip([makeEvent({ type: 'lecture', recurrence })], 'America/New_York');
+
+    // UNTIL is in UTC for zoned times: 09:30 EDT is 13:30Z
+    expect(ics).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,WE;WKST=MO;UNTIL=20250505T133000Z');
+    expect(ics).toContain('EXDATE;TZID=America/New_York:20250310T093000,20250312T093000');
+    expect(parsed.events).toHaveLength(1);
+    expect(parsed.events[0].recurrence).toEqual(recurrence);
+  });
+
+  it('ends a series without an end date where the calendar view stops showing it', () => {
+    const recurrence = { frequency: 'weekly' as const, daysOfWeek: ['MO' as const] };
+    const event = makeEvent({ type: 'lecture', recurrence });
+    const { ics, parsed } = roundTrip([event], 'America/New_York');
+    const shown = getOccurrenceDates(event);
+
+    expect(ics).toMatch(/^RRULE:.*;UNTIL=\d{8}T\d{6}Z$/m);
+    expect(parsed.events[0].recurrence?.until).toBe(shown[shown.length - 1]);
+  });
+
+  it('keeps biweekly all-day recurrence', () => {
+    const recurrence = {
+      frequency: 'biweekly' as const,
+      daysOfWeek: ['FR' as const],
+      until: '2025-04-25',
+      exceptions: ['2025-03-14'],
+    };
+    const { ics, parsed } = roundTrip([makeEvent({ date: '2025-01-24', time: undefined, recurrence })]);
+
+    expect(ics).toContain('UNTIL=20250425');
+    expect(ics).toContain('EXDATE;VALUE=DATE:20250314');
+    expect(parsed.events[0].recurrence).toEqual(recurrence);
+  });
+
+  it('keeps floating recurrence without a time zone', () => {
+    const recurrence = { frequency: 'weekly' as const, daysOfWeek: ['TU' as const], until: '2025-02-25' };
+    const { ics, parsed } = roundTrip([makeEvent({ date: '2025-01-21', recurrence })]);
+
+    expect(ics).toContain('UNTIL=20250225T093000');
+    expect(ics).not.toMatch(/UNTIL=\d+T\d+Z/);
+    expect(parsed.events[0].recurrence).toEqual(recurrence);
+  });
+});
+
+describe('parseICS', () => {
+  const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+  const lecture = [
+    'BEGIN:VEVENT',
+    'UID:lecture@example.edu',
+    'DTSTART;TZID=America/Chicago:20250120T100000',
+    'DTEND;TZID=America/Chicago:20250120T111500',
+    'RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20250217T160000Z',
+    'SUMMARY:Lecture',
+    'END:VEVENT',
+  ];
+
+  it('turns a moved occurrence into an exception of the series and a separate event', () => {
+    const moved = [
+      'BEGIN:VEVENT',
+      'UID:lecture@example.edu',
+      'RECURRENCE-ID;TZID=America/Chicago:20250203T100000',
+      'DTSTART;TZID=America/Chicago:20250204T140000',
+      'DTEND;TZID=America/Chicago:20250204T151500',
+      'SUMMARY:Lecture (moved)',
+      'END:VEVENT',
+    ];
+    const { events } = parseICS(calendar(...lecture, ...moved), { timeZone: 'America/Chicago' });
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({ title: 'Lecture', date: '2025-01-20', time: '10:00' });
+    expect(events[0].recurrence).toEqual({
+      frequency: 'weekly',
+      daysOfWeek: ['MO'],
+      until: '2025-02-17',
+      exceptions: ['2025-02-03'],
+    });
+    expect(events[1]).toMatchObject({ title: 'Lecture (moved)', date: '2025-02-04', time: '14:00', duration: 75 });
+    expect(events[1].recurrence).toBeUndefined();
+  });
+
+  it('drops a cancelled occurrence from the series', () => {
+    const cancelled = [
+      'BEGIN:VEVENT',
+      'UID:lecture@example.edu',
+      'RECURRENCE-ID;TZID=America/Chicago:20250127T100000',
+      'DTSTART;TZID=America/Chicago:20250127T100000',
+      'STATUS:CANCELLED',
+      'SUMMARY:Lecture',
+      'END:VEVENT',
+    ];
+    const { events } = parseICS(calendar(...cancelled, ...lecture), { timeZone: 'America/Chicago' });
+
+    expect(events).toHaveLength(1);
+    expect(events[0].recurrence?.exceptions).toEqual(['2025-01-27']);
+  });
+
+  it('removes moved occurrences from rules it expands', () => {
+    const daily = [
+      'BEGIN:VEVENT',
+      'UID:review@example.edu',
+      'DTSTART;VALUE=DATE:20250505',
+      'RRULE:FREQ=DAILY;COUNT=3',
+      'SUMMARY:Review session',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:review@example.edu',
+      'RECURRENCE-ID;VALUE=DATE:20250506',
+      'DTSTART;VALUE=DATE:20250508',
+      'SUMMARY:Review session',
+      'END:VEVENT',
+    ];
+    const { events } = parseICS(calendar(...daily));
+
+    expect(events.map(event => event.date)).toEqual(['2025-05-05', '2025-05-07', '2025-05-08']);
+  });
+
+  it('keeps zoned times in their zone when the file names no calendar zone', () => {
+    const parsed = parseICS(calendar(...lecture));
+
+    expect(parsed.timeZone).toBe('America/Chicago');
+    expect(parsed.events[0]).toMatchObject({ date: '2025-01-20', time: '10:00' });
+  });
+
+  it('converts zoned and UTC times into the default zone when one is given', () => {
+    const exam = ['BEGIN:VEVENT', 'UID:exam@example.edu', 'DTSTART:20250301T150000Z', 'SUMMARY:Midterm', 'END:VEVENT'];
+    const parsed = parseICS(calendar(...lecture, ...exam), { defaultTimeZone: 'America/New_York' });
+
+    expect(parsed.timeZone).toBe('America/New_York');
+    expect(parsed.events.map(({ date, time }) => ({ date, time }))).toEqual([
+      { date: '2025-01-20', time: '11:00' },
+      { date: '2025-03-01', time: '10:00' },
+    ]);
+  });
+});
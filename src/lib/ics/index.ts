@@ -0,0 +1,5 @@
+export { generateICS, PRIORITY_VALUES, ICS_PRODID } from './generator';
+export type { ICSOptions } from './generator';
+export { parseICS } from './parser';
+export type { ParsedCalendar, ICSParseOptions } from './parser';
+export { escapeText, unescapeText, foldLine, unfoldLines } from './format';
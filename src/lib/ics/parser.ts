@@ -0,0 +1,365 @@
+import { SyllabusEvent, EventRecurrence, Weekday } from '@/types/syllabus';
+import { getOccurrenceDates } from '../recurrence';
+import { addDays, getWeekday, parseISODate, formatISODate } from '../date-utils';
+import { isValidTimeZone, utcToZonedTime, zonedTimeToUtc } from '../timezone';
+import { inferEventType, defaultPriority } from '../event-classifier';
+import { unescapeText, unfoldLines } from './format';
+
+export interface ParsedCalendar {
+  events: SyllabusEvent[];
+  calendarName?: string;
+  timeZone?: string;
+}
+
+export interface ICSParseOptions {
+  timeZone?: string; // zone to express imported times in; defaults to the file's X-WR-TIMEZONE
+  defaultTimeZone?: string; // used when the file names no calendar zone, e.g. the browser's
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface DateValue {
+  date: string;
+  time?: string;
+}
+
+const WEEKDAY_CODES: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+// Rules our recurrence model can't represent are expanded into at most this many events
+const MAX_EXPANDED_OCCURRENCES = 366;
+
+/**
+ * Split a content line into name, parameters and value, respecting quoted parameter values
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let valueStart = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      valueStart = i;
+      break;
+    }
+  }
+  if (valueStart === -1) return null;
+
+  const segments = line.slice(0, valueStart).match(/(?:[^;"]|"[^"]*")+/g) || [];
+  const [name, ...rawParams] = segments;
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: (name || '').toUpperCase(), params, value: line.slice(valueStart + 1) };
+}
+
+/**
+ * Parse a DATE or DATE-TIME value into the target time zone's wall clock
+ */
+function parseDateValue(value: string, params: Record<string, string>, timeZone?: string): DateValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, , utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (hours === undefined || params.VALUE === 'DATE') {
+    return { date };
+  }
+
+  const time = `${hours}:${minutes}`;
+  if (utc) {
+    const instant = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes));
+    return timeZone ? utcToZonedTime(instant, timeZone) : { date, time };
+  }
+
+  const sourceZone = params.TZID;
+  if (sourceZone && timeZone && sourceZone !== timeZone && isValidTimeZone(sourceZone)) {
+    return utcToZonedTime(zonedTimeToUtc(date, time, sourceZone), timeZone);
+  }
+
+  // Floating time, or already in the target zone
+  return { date, time };
+}
+
+/**
+ * Parse an ISO 8601 DURATION value (e.g. PT1H30M) into minutes
+ */
+function parseDuration(value: string): number | undefined {
+  const match = value.trim().match(/^[+]?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+  const [, weeks, days, hours, minutes] = match.map(part => Number(part || 0));
+  const total = weeks * 7 * 24 * 60 + days * 24 * 60 + hours * 60 + minutes;
+  return total > 0 ? total : undefined;
+}
+
+/**
+ * Minutes between two wall-clock values
+ */
+function minutesBetween(start: DateValue, end: DateValue): number {
+  const toMs = (value: DateValue) => {
+    const [hours, minutes] = (value.time || '00:00').split(':').map(Number);
+    return parseISODate(value.date).getTime() + (hours * 60 + minutes) * 60000;
+  };
+  return Math.round((toMs(end) - toMs(start)) / 60000);
+}
+
+/**
+ * Parse an RRULE value into its parts
+ */
+function parseRule(value: string): Record<string, string> {
+  return value.split(';').reduce((acc, part) => {
+    const [key, ...rest] = part.split('=');
+    if (key) acc[key.toUpperCase()] = rest.join('=').toUpperCase();
+    return acc;
+  }, {} as Record<string, string>);
+}
+
+/**
+ * Map a rule onto the app's weekly/biweekly recurrence model when it fits
+ */
+function toRecurrence(
+  rule: Record<string, string>,
+  start: DateValue,
+  exceptions: string[],
+  timeZone?: string
+): EventRecurrence | undefined {
+  const interval = Number(rule.INTERVAL || 1);
+  if (rule.FREQ !== 'WEEKLY' || (interval !== 1 && interval !== 2)) return undefined;
+
+  const days = rule.BYDAY ? rule.BYDAY.split(',') : [getWeekday(start.date)];
+  if (!days.every(day => (WEEKDAY_CODES as string[]).includes(day))) return undefined;
+
+  const recurrence: EventRecurrence = {
+    frequency: interval === 2 ? 'biweekly' : 'weekly',
+    daysOfWeek: WEEKDAY_CODES.filter(day => days.includes(day)),
+  };
+
+  if (rule.UNTIL) {
+    recurrence.until = parseDateValue(rule.UNTIL, {}, timeZone)?.date;
+  } else if (rule.COUNT) {
+    // Exception dates don't count toward COUNT, so find the last date without them
+    const dates = getOccurrenceDates(
+      { date: start.date, recurrence: { ...recurrence, until: addDays(start.date, 7 * interval * Number(rule.COUNT)) } } as SyllabusEvent
+    );
+    recurrence.until = dates[Math.min(Number(rule.COUNT), dates.length) - 1];
+  }
+
+  if (exceptions.length > 0) {
+    recurrence.exceptions = Array.from(new Set(exceptions)).sort();
+  }
+
+  return recurrence;
+}
+
+/**
+ * Expand a rule the recurrence model can't represent into individual dates
+ */
+function expandRule(rule: Record<string, string>, start: DateValue, exceptions: string[], timeZone?: string): string[] {
+  const interval = Math.max(1, Number(rule.INTERVAL || 1));
+  const count = rule.COUNT ? Number(rule.COUNT) : undefined;
+  const until = rule.UNTIL ? parseDateValue(rule.UNTIL, {}, timeZone)?.date : undefined;
+  const byDay = rule.BYDAY?.split(',').filter(day => (WEEKDAY_CODES as string[]).includes(day));
+  const limit = Math.min(count || MAX_EXPANDED_OCCURRENCES, MAX_EXPANDED_OCCURRENCES);
+
+  const dates: string[] = [];
+  const startDate = parseISODate(start.date);
+
+  for (let step = 0; dates.length < limit && step < MAX_EXPANDED_OCCURRENCES * 7; step++) {
+    const candidates: string[] = [];
+    const cursor = new Date(startDate);
+
+    switch (rule.FREQ) {
+      case 'DAILY':
+        cursor.setUTCDate(cursor.getUTCDate() + step * interval);
+        candidates.push(formatISODate(cursor));
+        break;
+      case 'WEEKLY': {
+        cursor.setUTCDate(cursor.getUTCDate() + step * interval * 7);
+        const weekStart = addDays(formatISODate(cursor), -WEEKDAY_CODES.indexOf(getWeekday(formatISODate(cursor))));
+        for (const day of byDay?.length ? byDay : [getWeekday(start.date)]) {
+          candidates.push(addDays(weekStart, WEEKDAY_CODES.indexOf(day as Weekday)));
+        }
+        break;
+      }
+      case 'MONTHLY':
+        cursor.setUTCMonth(cursor.getUTCMonth() + step * interval);
+        // Skip months without this day (e.g. the 31st)
+        if (cursor.getUTCDate() === startDate.getUTCDate()) candidates.push(formatISODate(cursor));
+        break;
+      case 'YEARLY':
+        cursor.setUTCFullYear(cursor.getUTCFullYear() + step * interval);
+        if (cursor.getUTCDate() === startDate.getUTCDate()) candidates.push(formatISODate(cursor));
+        break;
+      default:
+        return [start.date];
+    }
+
+    for (const date of candidates.sort()) {
+      if (date < start.date || dates.includes(date)) continue;
+      if ((until && date > until) || dates.length >= limit) return dates.filter(d => !exceptions.includes(d));
+      dates.push(date);
+    }
+  }
+
+  return dates.filter(date => !exceptions.includes(date));
+}
+
+/**
+ * Remove the "Type / Priority / Course" trailer our own exports append to descriptions
+ */
+function splitDescription(description: string): { description: string; course?: string } {
+  const match = description.match(/\n*Type: [A-Za-z]+\nPriority: [A-Za-z]+(?:\nCourse: (.*))?\s*$/);
+  if (!match) return { description: description.trim() };
+  return {
+    description: description.slice(0, match.index).trim(),
+    course: match[1]?.trim() || undefined,
+  };
+}
+
+/**
+ * Map an ICS PRIORITY (1 highest .. 9 lowest, 0 undefined) onto the app's levels
+ */
+function toPriority(value: string | undefined, type: SyllabusEvent['type']): SyllabusEvent['priority'] {
+  const priority = Number(value);
+  if (!priority) return defaultPriority(type);
+  if (priority <= 4) return 'high';
+  if (priority === 5) return 'medium';
+  return 'low';
+}
+
+/**
+ * Generate a fresh event id; imported UIDs may clash with events already in the list
+ */
+function generateEventId(): string {
+  return `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Convert the content lines of one VEVENT into syllabus events. `overridden` lists the dates of
+ * occurrences that other VEVENTs with the same UID replace (RECURRENCE-ID).
+ */
+function convertEvent(lines: ContentLine[], timeZone?: string, overridden: string[] = []): SyllabusEvent[] {
+  const get = (name: string) => lines.find(line => line.name === name);
+  const dtstart = get('DTSTART');
+  const start = dtstart ? parseDateValue(dtstart.value, dtstart.params, timeZone) : null;
+  if (!start || get('STATUS')?.value.toUpperCase() === 'CANCELLED') return [];
+
+  const summary = unescapeText(get('SUMMARY')?.value || '').trim() || 'Untitled event';
+  const { description, course } = splitDescription(unescapeText(get('DESCRIPTION')?.value || ''));
+  const categories = lines
+    .filter(line => line.name === 'CATEGORIES')
+    .flatMap(line => (line.value.match(/(?:\\.|[^,])+/g) || []).map(unescapeText));
+  const type = inferEventType(categories.find(category => inferEventType(category) !== 'other') || summary);
+
+  let duration: number | undefined;
+  if (start.time) {
+    const dtend = get('DTEND');
+    const end = dtend ? parseDateValue(dtend.value, dtend.params, timeZone) : null;
+    duration = end ? minutesBetween(start, end) : parseDuration(get('DURATION')?.value || '');
+    if (duration !== undefined && duration <= 0) duration = undefined;
+  }
+
+  const event: SyllabusEvent = {
+    id: generateEventId(),
+    title: summary,
+    description,
+    date: start.date,
+    time: start.time,
+    type,
+    priority: toPriority(get('PRIORITY')?.value, type),
+    course,
+    location: unescapeText(get('LOCATION')?.value || '').trim() || undefined,
+    duration,
+  };
+
+  const rrule = get('RRULE');
+  if (!rrule) return [event];
+
+  const exceptions = lines
+    .filter(line => line.name === 'EXDATE')
+    .flatMap(line => line.value.split(',').map(value => parseDateValue(value, line.params, timeZone)?.date))
+    .filter((date): date is string => Boolean(date))
+    .concat(overridden);
+  const rule = parseRule(rrule.value);
+
+  const recurrence = toRecurrence(rule, start, exceptions, timeZone);
+  if (recurrence) {
+    return [{ ...event, recurrence }];
+  }
+
+  return expandRule(rule, start, exceptions, timeZone).map(date => ({ ...event, id: generateEventId(), date }));
+}
+
+/**
+ * Parse an iCalendar file into syllabus events. Weekly rules become recurring events;
+ * other rules are expanded into individual events. Moved occurrences stay separate events.
+ */
+export function parseICS(content: string, options: ICSParseOptions = {}): ParsedCalendar {
+  const lines = unfoldLines(content)
+    .map(parseContentLine)
+    .filter((line): line is ContentLine => line !== null);
+
+  if (!lines.some(line => line.name === 'BEGIN' && line.value.toUpperCase() === 'VCALENDAR')) {
+    throw new Error('Not a valid iCalendar file');
+  }
+
+  const calendarName = lines.find(line => line.name === 'X-WR-CALNAME')?.value;
+  const fileTimeZone = lines.find(line => line.name === 'X-WR-TIMEZONE')?.value.trim();
+  // Without a zone to convert into, TZID and UTC times would be read as floating wall-clock times
+  const firstTZID = lines.map(line => line.params.TZID).find(zone => zone && isValidTimeZone(zone));
+  const timeZone = options.timeZone ||
+    (fileTimeZone && isValidTimeZone(fileTimeZone) ? fileTimeZone : undefined) ||
+    options.defaultTimeZone ||
+    firstTZID;
+
+  const components: ContentLine[][] = [];
+  let current: ContentLine[] | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const component = line.value.toUpperCase();
+    if (line.name === 'BEGIN' && component === 'VEVENT') {
+      current = [];
+    } else if (line.name === 'END' && component === 'VEVENT') {
+      if (current) components.push(current);
+      current = null;
+    } else if (current && line.name === 'BEGIN') {
+      // Skip nested components such as VALARM
+      nestedDepth++;
+    } else if (current && line.name === 'END') {
+      nestedDepth--;
+    } else if (current && nestedDepth === 0) {
+      current.push(line);
+    }
+  }
+
+  // Moved or cancelled occurrences of a series (RECURRENCE-ID) become exceptions of the series, by UID
+  const getUID = (component: ContentLine[]) => component.find(line => line.name === 'UID')?.value.trim();
+  const seriesUIDs = new Set(components
+    .filter(component => component.some(line => line.name === 'RRULE') && !component.some(line => line.name === 'RECURRENCE-ID'))
+    .map(getUID));
+  const overridden = new Map<string, string[]>();
+  for (const component of components) {
+    const uid = getUID(component);
+    const recurrenceId = component.find(line => line.name === 'RECURRENCE-ID');
+    const date = recurrenceId && parseDateValue(recurrenceId.value, recurrenceId.params, timeZone)?.date;
+    if (uid && date && seriesUIDs.has(uid)) {
+      overridden.set(uid, [...(overridden.get(uid) || []), date]);
+    }
+  }
+
+  const events = components.flatMap(component => {
+    const isOverride = component.some(line => line.name === 'RECURRENCE-ID');
+    return convertEvent(component, timeZone, isOverride ? [] : overridden.get(getUID(component) || ''));
+  });
+
+  return {
+    events,
+    calendarName: calendarName ? unescapeText(calendarName).trim() : undefined,
+    timeZone,
+  };
+}
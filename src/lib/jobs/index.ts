@@ -0,0 +1,34 @@
+import { JobStore, JobStoreName } from './types';
+import { MemoryJobStore } from './memory-store';
+import { SqliteJobStore } from './sqlite-store';
+import { getSqlitePath } from '../sqlite';
+
+// Kept on globalThis so every route and module reload in development shares one store
+const storeState = globalThis as typeof globalThis & { jobStore?: JobStore };
+
+/**
+ * Create the store selected by JOB_STORE ("memory" by default, or "sqlite" at SQLITE_DATABASE_PATH)
+ */
+export function createJobStore(name: string = process.env.JOB_STORE || 'memory'): JobStore {
+  switch (name.trim().toLowerCase() as JobStoreName) {
+    case 'sqlite':
+      return new SqliteJobStore(getSqlitePath());
+    default:
+      return new MemoryJobStore();
+  }
+}
+
+/**
+ * The job store shared by this process
+ */
+export function getJobStore(): JobStore {
+  if (!storeState.jobStore) {
+    storeState.jobStore = createJobStore();
+  }
+  return storeState.jobStore;
+}
+
+export { startJobWorkers } from './worker';
+export { MemoryJobStore } from './memory-store';
+export { SqliteJobStore } from './sqlite-store';
+export type { JobStore, JobStoreName, JobChanges } from './types';
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { SyllabusRequest } from '../syllabus-pipeline';
+import { MemoryJobStore } from './memory-store';
+import { SqliteJobStore } from './sqlite-store';
+import { JobStore } from './types';
+
+const LEASE_MS = 60 * 1000;
+const request: SyllabusRequest = { source: { type: 'text', text: 'CS 101 syllabus' } };
+const databaseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'job-store-'));
+
+afterAll(() => {
+  fs.rmSync(databaseDir, { recursive: true, force: true });
+});
+
+describe.each<[string, () => JobStore]>([
+  ['MemoryJobStore', () => new MemoryJobStore()],
+  ['SqliteJobStore', () => new SqliteJobStore(path.join(databaseDir, `${crypto.randomUUID()}.db`))],
+])('%s', (_name, createStore) => {
+  it('claims queued jobs oldest first, counting each claim as an attempt', async () => {
+    const store = createStore();
+    const first = await store.create(request, 'first');
+    await store.create(request, 'second');
+
+    const claimed = await store.claimNext(LEASE_MS);
+    expect(claimed).toMatchObject({ id: first.id, status: 'processing', attempts: 1 });
+    expect((await store.claimNext(LEASE_MS))?.label).toBe('second');
+    expect(await store.claimNext(LEASE_MS)).toBeUndefined();
+  });
+
+  it('claims a processing job again once its lease runs out', async () => {
+    const store = createStore();
+    const job = await store.create(request, 'stuck');
+
+    await store.claimNext(0);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const reclaimed = await store.claimNext(LEASE_MS);
+    expect(reclaimed).toMatchObject({ id: job.id, status: 'processing', attempts: 2 });
+    expect(await store.claimNext(LEASE_MS)).toBeUndefined();
+  });
+
+  it('keeps a renewed lease', async () => {
+    const store = createStore();
+    const job = await store.create(request, 'busy');
+
+    await store.claimNext(0);
+    await store.extendLease(job.id, LEASE_MS);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(await store.claimNext(LEASE_MS)).toBeUndefined();
+  });
+
+  it('never claims finished jobs', async () => {
+    const store = createStore();
+    const job = await store.create(request, 'done');
+
+    await store.claimNext(0);
+    await store.update(job.id, { status: 'completed' });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(await store.claimNext(LEASE_MS)).toBeUndefined();
+  });
+});
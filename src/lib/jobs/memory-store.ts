@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { ProcessingJob } from '@/types/syllabus';
+import { SyllabusRequest } from '../syllabus-pipeline';
+import { JobChanges, JobStore } from './types';
+
+// Finished jobs are dropped after this long so uploads don't pile up in memory
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Jobs kept in process memory: nothing to set up, but lost on restart and not shared between instances
+ */
+export class MemoryJobStore implements JobStore {
+  readonly name = 'memory';
+  private jobs = new Map<string, ProcessingJob>();
+  private requests = new Map<string, SyllabusRequest>();
+  // When each processing job's lease runs out, in ms since the epoch
+  private leases = new Map<string, number>();
+
+  async create(request: SyllabusRequest, label: string): Promise<ProcessingJob> {
+    this.prune();
+
+    const now = new Date().toISOString();
+    const job: ProcessingJob = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      label,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    this.requests.set(job.id, request);
+    return { ...job };
+  }
+
+  async get(id: string): Promise<ProcessingJob | undefined> {
+    const job = this.jobs.get(id);
+    return job && { ...job };
+  }
+
+  async getRequest(id: string): Promise<SyllabusRequest | undefined> {
+    return this.requests.get(id);
+  }
+
+  async update(id: string, changes: JobChanges): Promise<ProcessingJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updated = { ...job, ...changes, updatedAt: new Date().toISOString() };
+    this.jobs.set(id, updated);
+    // The upload is only needed until the job finishes
+    if (updated.status === 'completed' || updated.status === 'failed') {
+      this.requests.delete(id);
+      this.leases.delete(id);
+    }
+    return { ...updated };
+  }
+
+  async claimNext(leaseMs: number): Promise<ProcessingJob | undefined> {
+    const now = Date.now();
+    // Maps keep insertion order, so the first match is the oldest
+    const next = Array.from(this.jobs.values()).find(job =>
+      job.status === 'queued' || (job.status === 'processing' && (this.leases.get(job.id) ?? 0) < now));
+    if (!next) return undefined;
+
+    this.leases.set(next.id, now + leaseMs);
+    return this.update(next.id, { status: 'processing', attempts: next.attempts + 1 });
+  }
+
+  async extendLease(id: string, leaseMs: number): Promise<void> {
+    if (this.jobs.get(id)?.status === 'processing') {
+      this.leases.set(id, Date.now() + leaseMs);
+    }
+  }
+
+  /**
+   * Drop finished jobs older than the TTL
+   */
+  private prune(): void {
+    const cutoff = new Date(Date.now() - FINISHED_JOB_TTL_MS).toISOString();
+    Array.from(this.jobs.values()).forEach(job => {
+      if ((job.status === 'completed' || job.status === 'failed') && job.updatedAt < cutoff) {
+        this.jobs.delete(job.id);
+        this.requests.delete(job.id);
+        this.leases.delete(job.id);
+      }
+    });
+  }
+}
@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import type Database from 'better-sqlite3';
+import { ProcessingJob } from '@/types/syllabus';
+import { SyllabusRequest } from '../syllabus-pipeline';
+import { openSqliteDatabase } from '../sqlite';
+import { JobChanges, JobStore } from './types';
+
+// Finished jobs are deleted after this long; the client saves the result it needs
+const FINISHED_JOB_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface JobRow {
+  id: string;
+  status: ProcessingJob['status'];
+  label: string;
+  attempts: number;
+  progress: string | null;
+  result: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Turn a database row into a job, parsing its JSON columns
+ */
+function rowToJob(row: JobRow): ProcessingJob {
+  return {
+    id: row.id,
+    status: row.status,
+    label: row.label,
+    attempts: row.attempts,
+    ...(row.progress && { progress: JSON.parse(row.progress) }),
+    ...(row.result && { result: JSON.parse(row.result) }),
+    ...(row.error && { error: row.error }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Jobs kept in a local SQLite file: they survive restarts and are shared by processes on the same machine
+ */
+export class SqliteJobStore implements JobStore {
+  readonly name = 'sqlite';
+  private database?: Promise<Database.Database>;
+
+  constructor(private filename: string) {}
+
+  /**
+   * Open the database and create the table on first use
+   */
+  private db(): Promise<Database.Database> {
+    if (!this.database) {
+      this.database = openSqliteDatabase(this.filename).then(db => {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS jobs (
+            id TEXT PRIMARY KEY,
+            status TEXT NOT NULL,
+            label TEXT NOT NULL,
+            attempts INTEGER NOT NULL DEFAULT 0,
+            progress TEXT,
+            result TEXT,
+            error TEXT,
+            request TEXT,
+            file BLOB,
+            lease_expires_at TEXT,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+          );
+          CREATE INDEX IF NOT EXISTS jobs_status ON jobs (status, created_at);
+        `);
+        // Databases created before jobs were leased
+        const columns = db.prepare('PRAGMA table_info(jobs)').all() as { name: string }[];
+        if (!columns.some(column => column.name === 'lease_expires_at')) {
+          db.exec('ALTER TABLE jobs ADD COLUMN lease_expires_at TEXT');
+        }
+        return db;
+      });
+    }
+    return this.database;
+  }
+
+  async create(request: SyllabusRequest, label: string): Promise<ProcessingJob> {
+    const db = await this.db();
+    const cutoff = new Date(Date.now() - FINISHED_JOB_TTL_MS).toISOString();
+    db.prepare(`DELETE FROM jobs WHERE status IN ('completed', 'failed') AND updated_at < ?`).run(cutoff);
+
+    // The uploaded file goes in its own BLOB column rather than inside the JSON
+    const { source } = request;
+    const storedRequest = source.type === 'file'
+      ? { ...request, source: { ...source, buffer: undefined } }
+      : request;
+
+    const now = new Date().toISOString();
+    const row = db.prepare(`
+      INSERT INTO jobs (id, status, label, attempts, request, file, created_at, updated_at)
+      VALUES (?, 'queued', ?, 0, ?, ?, ?, ?)
+      RETURNING *
+    `).get(
+      crypto.randomUUID(),
+      label,
+      JSON.stringify(storedRequest),
+      source.type === 'file' ? source.buffer : null,
+      now,
+      now
+    ) as JobRow;
+    return rowToJob(row);
+  }
+
+  async get(id: string): Promise<ProcessingJob | undefined> {
+    const db = await this.db();
+    const row = db.prepare('SELECT * FROM jobs WHERE id = ?').get(id) as JobRow | undefined;
+    return row && rowToJob(row);
+  }
+
+  async getRequest(id: string): Promise<SyllabusRequest | undefined> {
+    const db = await this.db();
+    const row = db.prepare('SELECT request, file FROM jobs WHERE id = ?').get(id) as
+      { request: string | null; file: Buffer | null } | undefined;
+    if (!row?.request) return undefined;
+
+    const request: SyllabusRequest = JSON.parse(row.request);
+    if (request.source.type === 'file') {
+      if (!row.file) return undefined;
+      request.source.buffer = row.file;
+    }
+    return request;
+  }
+
+  async update(id: string, changes: JobChanges): Promise<ProcessingJob | undefined> {
+    const db = await this.db();
+    const columns: Record<string, unknown> = {};
+    if ('status' in changes) columns.status = changes.status;
+    if ('attempts' in changes) columns.attempts = changes.attempts;
+    if ('progress' in changes) columns.progress = changes.progress ? JSON.stringify(changes.progress) : null;
+    if ('result' in changes) columns.result = changes.result ? JSON.stringify(changes.result) : null;
+    if ('error' in changes) columns.error = changes.error ?? null;
+    // The upload is only needed until the job finishes
+    if (changes.status === 'completed' || changes.status === 'failed') {
+      columns.request = null;
+      columns.file = null;
+      columns.lease_expires_at = null;
+    }
+    columns.updated_at = new Date().toISOString();
+
+    const assignments = Object.keys(columns).map(column => `${column} = @${column}`).join(', ');
+    const row = db.prepare(`UPDATE jobs SET ${assignments} WHERE id = @id RETURNING *`)
+      .get({ ...columns, id }) as JobRow | undefined;
+    return row && rowToJob(row);
+  }
+
+  async claimNext(leaseMs: number): Promise<ProcessingJob | undefined> {
+    const db = await this.db();
+    const now = new Date();
+    // A single statement, so two processes can't claim the same job.
+    // Processing jobs without a lease were claimed before leases existed and are taken over too.
+    const row = db.prepare(`
+      UPDATE jobs SET status = 'processing', attempts = attempts + 1, lease_expires_at = @leaseExpiresAt, updated_at = @now
+      WHERE id = (
+        SELECT id FROM jobs
+        WHERE status = 'queued'
+          OR (status = 'processing' AND (lease_expires_at IS NULL OR lease_expires_at < @now))
+        ORDER BY created_at LIMIT 1
+      )
+      RETURNING *
+    `).get({
+      now: now.toISOString(),
+      leaseExpiresAt: new Date(now.getTime() + leaseMs).toISOString(),
+    }) as JobRow | undefined;
+    return row && rowToJob(row);
+  }
+
+  async extendLease(id: string, leaseMs: number): Promise<void> {
+    const db = await this.db();
+    db.prepare(`UPDATE jobs SET lease_expires_at = ? WHERE id = ? AND status = 'processing'`)
+      .run(new Date(Date.now() + leaseMs).toISOString(), id);
+  }
+}
@@ -0,0 +1,25 @@
+import { ProcessingJob } from '@/types/syllabus';
+import { SyllabusRequest } from '../syllabus-pipeline';
+
+export type JobStoreName = 'memory' | 'sqlite';
+
+export type JobChanges = Partial<Omit<ProcessingJob, 'id' | 'label' | 'createdAt' | 'updatedAt'>>;
+
+export interface JobStore {
+  name: JobStoreName;
+  /** Queue a syllabus request and return the new job */
+  create(request: SyllabusRequest, label: string): Promise<ProcessingJob>;
+  get(id: string): Promise<ProcessingJob | undefined>;
+  /** The request a job was created with, including any uploaded file */
+  getRequest(id: string): Promise<SyllabusRequest | undefined>;
+  /** Apply changes; a field set to undefined is cleared */
+  update(id: string, changes: JobChanges): Promise<ProcessingJob | undefined>;
+  /**
+   * Mark the oldest queued job as processing and return it, leased to the caller for `leaseMs` so no
+   * other worker picks it up. A processing job whose lease ran out (its worker died or hung) is claimed
+   * again. Every claim counts as an attempt.
+   */
+  claimNext(leaseMs: number): Promise<ProcessingJob | undefined>;
+  /** Keep a claimed job leased for another `leaseMs` */
+  extendLease(id: string, leaseMs: number): Promise<void>;
+}
@@ -0,0 +1,73 @@
+import OpenAI from 'openai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UploadResponse } from '@/types/syllabus';
+import { extractSyllabusText, processSyllabusText, SyllabusRequest } from '../syllabus-pipeline';
+import { LLMRequestError } from '../llm';
+import { MemoryJobStore } from './memory-store';
+import { startJobWorkers } from './worker';
+
+vi.mock('../syllabus-pipeline', () => ({
+  extractSyllabusText: vi.fn(),
+  processSyllabusText: vi.fn(),
+}));
+
+const request: SyllabusRequest = { source: { type: 'text', text: 'CS 101 syllabus' } };
+const response: UploadResponse = { success: true, message: 'Extracted 0 events' };
+
+/**
+ * Queue one job and run the workers to the end, skipping the retry delays
+ */
+async function runOneJob() {
+  const store = new MemoryJobStore();
+  const { id } = await store.create(request, 'CS 101');
+  const done = startJobWorkers(store);
+  await vi.runAllTimersAsync();
+  await done;
+  return store.get(id);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'clearInterval'] });
+  vi.mocked(extractSyllabusText).mockResolvedValue({ text: 'CS 101 syllabus' });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.mocked(processSyllabusText).mockReset();
+});
+
+describe('job retries', () => {
+  it('retries rate limits and server errors until the AI step succeeds', async () => {
+    vi.mocked(processSyllabusText)
+      .mockRejectedValueOnce(new OpenAI.APIError(429, undefined, 'Rate limit reached', undefined))
+      .mockRejectedValueOnce(new LLMRequestError('AI processing failed', true))
+      .mockResolvedValueOnce(response);
+
+    const job = await runOneJob();
+    expect(job).toMatchObject({ status: 'completed', attempts: 3, result: response });
+  });
+
+  it('fails right away on errors a retry would repeat', async () => {
+    vi.mocked(processSyllabusText)
+      .mockRejectedValueOnce(new OpenAI.APIError(401, undefined, 'Incorrect API key', undefined));
+
+    const job = await runOneJob();
+    expect(job).toMatchObject({ status: 'failed', attempts: 1, error: '401 Incorrect API key' });
+    expect(processSyllabusText).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry responses the model could not fix', async () => {
+    vi.mocked(processSyllabusText).mockRejectedValue(new LLMRequestError('AI processing failed', false));
+
+    const job = await runOneJob();
+    expect(job).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(processSyllabusText).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up on passing errors after JOB_MAX_ATTEMPTS', async () => {
+    vi.mocked(processSyllabusText).mockRejectedValue(new LLMRequestError('AI processing failed', true));
+
+    const job = await runOneJob();
+    expect(job).toMatchObject({ status: 'failed', attempts: 3, error: 'AI processing failed' });
+  });
+});
@@ -0,0 +1,126 @@
+import { ExtractionProgress, ProcessingJob } from '@/types/syllabus';
+import { extractSyllabusText, processSyllabusText, SyllabusText } from '../syllabus-pipeline';
+import { isTransientError } from '../llm';
+import { JobStore } from './types';
+
+const MAX_CONCURRENT_JOBS = 2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Doubled after each failed attempt
+const RETRY_DELAY_MS = 5000;
+// A claimed job is handed to another worker if its worker stops renewing the lease for this long
+const JOB_LEASE_MS = 2 * 60 * 1000;
+const LEASE_RENEWAL_MS = JOB_LEASE_MS / 4;
+
+// Kept on globalThis so module reloads in development don't start a second set of workers
+const workerState = globalThis as typeof globalThis & { activeJobWorkers?: number };
+
+/**
+ * Attempts allowed for the AI step of a job, from JOB_MAX_ATTEMPTS
+ */
+function getMaxAttempts(): number {
+  const value = Number(process.env.JOB_MAX_ATTEMPTS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_ATTEMPTS;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Start workers in this process until queued jobs are taken or the concurrency limit is reached.
+ * Safe to call often: workers stop when the queue is empty.
+ * Resolves when the workers started by this call stop, so serverless routes can hand it to waitUntil.
+ */
+export function startJobWorkers(store: JobStore): Promise<void> {
+  const started: Promise<void>[] = [];
+  while ((workerState.activeJobWorkers || 0) < MAX_CONCURRENT_JOBS) {
+    workerState.activeJobWorkers = (workerState.activeJobWorkers || 0) + 1;
+    started.push(work(store)
+      .catch(error => console.error('Job worker error:', error))
+      .finally(() => {
+        workerState.activeJobWorkers = (workerState.activeJobWorkers || 1) - 1;
+      }));
+  }
+  return Promise.all(started).then(() => undefined);
+}
+
+/**
+ * Process queued jobs one at a time until none are left, renewing each job's lease while it runs
+ */
+async function work(store: JobStore): Promise<void> {
+  let job: ProcessingJob | undefined;
+  while ((job = await store.claimNext(JOB_LEASE_MS))) {
+    const { id } = job;
+    const renewal = setInterval(() => {
+      store.extendLease(id, JOB_LEASE_MS).catch(error => console.error('Job lease renewal failed:', error));
+    }, LEASE_RENEWAL_MS);
+    try {
+      await runJob(store, job);
+    } finally {
+      clearInterval(renewal);
+    }
+  }
+}
+
+/**
+ * Extract the job's text once, then run the AI step, retrying passing provider failures
+ * (rate limits, server errors, timeouts) with a growing delay
+ */
+async function runJob(store: JobStore, job: ProcessingJob): Promise<void> {
+  const reportProgress = (progress: ExtractionProgress) => {
+    store.update(job.id, { progress }).catch(error => console.error('Job progress update failed:', error));
+  };
+
+  // Claiming counted this run as an attempt, so a job whose worker keeps dying gives up like one that keeps failing
+  const maxAttempts = getMaxAttempts();
+  if (job.attempts > maxAttempts) {
+    await store.update(job.id, { status: 'failed', progress: undefined, error: 'Processing was interrupted too many times' });
+    return;
+  }
+
+  const request = await store.getRequest(job.id);
+  if (!request) {
+    await store.update(job.id, { status: 'failed', error: 'The uploaded syllabus is no longer available' });
+    return;
+  }
+
+  // Unreadable documents won't improve on a retry
+  let extraction: SyllabusText;
+  try {
+    extraction = await extractSyllabusText(request, { onProgress: reportProgress });
+  } catch (extractError) {
+    console.error(`Job ${job.id} text extraction error:`, extractError);
+    await store.update(job.id, {
+      status: 'failed',
+      progress: undefined,
+      error: extractError instanceof Error ? extractError.message : 'Failed to read document',
+    });
+    return;
+  }
+
+  for (let attempt = job.attempts; ; attempt++) {
+    if (attempt > job.attempts) await store.update(job.id, { attempts: attempt });
+    try {
+      const result = await processSyllabusText(extraction, { onProgress: reportProgress });
+      await store.update(job.id, { status: 'completed', progress: undefined, error: undefined, result });
+      return;
+    } catch (aiError) {
+      console.error(`Job ${job.id} attempt ${attempt} failed:`, aiError);
+      const error = aiError instanceof Error ? aiError.message : 'Failed to process syllabus with AI';
+
+      // A bad key, an unknown model or a response the model can't fix fails the same way next time
+      if (attempt >= maxAttempts || !isTransientError(aiError)) {
+        await store.update(job.id, { status: 'failed', progress: undefined, error });
+        return;
+      }
+
+      const delay = RETRY_DELAY_MS * 2 ** (attempt - 1);
+      await store.update(job.id, {
+        error,
+        progress: {
+          stage: 'extracting',
+          message: `Retrying in ${Math.round(delay / 1000)} seconds (attempt ${attempt + 1} of ${maxAttempts})`,
+        },
+      });
+      await sleep(delay);
+    }
+  }
+}
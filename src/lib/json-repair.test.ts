@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseModelJSON } from './json-repair';
+
+describe('parseModelJSON', () => {
+  it('parses valid JSON as is', () => {
+    expect(parseModelJSON('{"events": [{"title": "Quiz"}]}')).toEqual({ events: [{ title: 'Quiz' }] });
+  });
+
+  it('strips code fences and the prose around them', () => {
+    const text = 'Here are the events:\n```json\n{"events": []}\n```\nLet me know if you need more.';
+    expect(parseModelJSON(text)).toEqual({ events: [] });
+  });
+
+  it('finds the JSON in prose without fences', () => {
+    expect(parseModelJSON('Sure! {"events": [1, 2]} Hope this helps.')).toEqual({ events: [1, 2] });
+  });
+
+  it('drops trailing commas and comments', () => {
+    const text = `{
+      "events": [
+        {"title": "Quiz", "date": "2025-01-20",}, // first quiz
+        /* second */ {"title": "Exam"},
+      ],
+    }`;
+    expect(parseModelJSON(text)).toEqual({ events: [{ title: 'Quiz', date: '2025-01-20' }, { title: 'Exam' }] });
+  });
+
+  it('leaves commas, slashes and brackets inside strings alone', () => {
+    const text = '{"title": "Read ch. 1, 2 // see [notes], {optional}",}';
+    expect(parseModelJSON(text)).toEqual({ title: 'Read ch. 1, 2 // see [notes], {optional}' });
+  });
+
+  it('keeps the complete events of a truncated array', () => {
+    const text = '{"courseName": "CS 101", "events": [{"title": "Quiz", "date": "2025-01-20"}, {"title": "Ex';
+    expect(parseModelJSON(text)).toEqual({ courseName: 'CS 101', events: [{ title: 'Quiz', date: '2025-01-20' }] });
+  });
+
+  it('closes a response cut off right after an element', () => {
+    expect(parseModelJSON('```json\n{"events": [{"title": "Quiz"},')).toEqual({ events: [{ title: 'Quiz' }] });
+  });
+
+  it('keeps escaped quotes when cutting off inside a string', () => {
+    const text = '{"events": [{"title": "The \\"Big\\" Exam"}, {"title": "Unfinished \\"';
+    expect(parseModelJSON(text)).toEqual({ events: [{ title: 'The "Big" Exam' }] });
+  });
+
+  it('throws the original parse error when nothing can be repaired', () => {
+    expect(() => parseModelJSON('no JSON here')).toThrow(SyntaxError);
+  });
+});
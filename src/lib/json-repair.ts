@@ -0,0 +1,93 @@
+// Tolerant parsing for JSON produced by language models: code fences, surrounding
+// prose, comments, trailing commas and responses cut off by the token limit.
+
+/**
+ * Remove Markdown code fences and any prose around the outermost JSON value
+ */
+function extractJSONBody(text: string): string {
+  const fenced = text.match(/```(?:json|JSON)?\s*\n?([\s\S]*?)(?:```|$)/);
+  const body = fenced ? fenced[1] : text;
+
+  const start = body.search(/[{[]/);
+  if (start === -1) return body.trim();
+
+  const closer = body[start] === '{' ? '}' : ']';
+  const end = body.lastIndexOf(closer);
+  return (end > start ? body.slice(start, end + 1) : body.slice(start)).trim();
+}
+
+/**
+ * Drop comments and trailing commas, and close brackets left open by a truncated response
+ */
+function normalizeJSON(text: string): string {
+  let output = '';
+  const stack: string[] = [];
+  // Output length and open brackets after the last complete array element or property
+  let lastComplete: { length: number; stack: string[] } | null = null;
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      output += char;
+      if (char === '\\') {
+        output += text[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      continue;
+    }
+    if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      // Trailing comma before a closing bracket
+      output = output.replace(/,\s*$/, '');
+      stack.pop();
+      output += char;
+      lastComplete = { length: output.length, stack: [...stack] };
+      continue;
+    } else if (char === ',' && stack.length > 0) {
+      lastComplete = { length: output.length, stack: [...stack] };
+    }
+
+    output += char;
+  }
+
+  if (stack.length === 0 && !inString) {
+    return output;
+  }
+
+  // Truncated: keep everything up to the last complete element and close what is still open
+  const cut = lastComplete || { length: 0, stack: [] };
+  return output.slice(0, cut.length).replace(/,\s*$/, '') + [...cut.stack].reverse().join('');
+}
+
+/**
+ * Parse JSON from a model response, repairing common formatting problems
+ */
+export function parseModelJSON(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (originalError) {
+    const repaired = normalizeJSON(extractJSONBody(text));
+    try {
+      return JSON.parse(repaired);
+    } catch {
+      throw originalError;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMConfig, LLMProvider, LLMProviderName, StructuredOutputMode, StructuredRequest } from './types';
+
+/**
+ * Messages API provider for Anthropic models
+ */
+export class AnthropicProvider implements LLMProvider {
+  name: LLMProviderName = 'anthropic';
+  private client: Anthropic;
+  private structuredOutput: StructuredOutputMode;
+
+  constructor(config: LLMConfig) {
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+      ...(config.baseURL && { baseURL: config.baseURL }),
+    });
+    // There is no JSON response mode, so anything but prompt-only uses a forced tool call
+    this.structuredOutput = config.structuredOutput === 'prompt' ? 'prompt' : 'tools';
+  }
+
+  async generateStructured(request: StructuredRequest): Promise<string> {
+    const response = await this.client.messages.create({
+      model: request.model,
+      system: request.system,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(this.structuredOutput === 'tools' && {
+        tools: [{
+          name: request.schemaName,
+          description: request.schemaDescription,
+          input_schema: request.schema as Anthropic.Tool.InputSchema,
+        }],
+        tool_choice: { type: 'tool' as const, name: request.schemaName },
+      }),
+    });
+
+    const toolUse = response.content.find(block => block.type === 'tool_use');
+    if (toolUse && toolUse.type === 'tool_use') {
+      return JSON.stringify(toolUse.input);
+    }
+
+    const text = response.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('')
+      .trim();
+    if (!text) {
+      throw new Error('No response from the AI model');
+    }
+    return text;
+  }
+}
@@ -0,0 +1,71 @@
+import { LLMConfig, LLMProviderName, StructuredOutputMode } from './types';
+
+const PROVIDERS: LLMProviderName[] = ['openai', 'azure', 'anthropic', 'openai-compatible'];
+
+const DEFAULT_MODELS: Record<LLMProviderName, { model: string; fallbackModel?: string }> = {
+  openai: { model: 'gpt-4', fallbackModel: 'gpt-3.5-turbo' },
+  azure: { model: '' }, // deployment name, always configured
+  anthropic: { model: 'claude-3-5-sonnet-latest', fallbackModel: 'claude-3-5-haiku-latest' },
+  'openai-compatible': { model: 'llama3.1' },
+};
+
+/**
+ * Read a number from the environment, ignoring blanks and junk
+ */
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Build the LLM configuration from environment variables
+ */
+export function getLLMConfig(): LLMConfig {
+  const requested = (process.env.LLM_PROVIDER || 'openai').trim().toLowerCase() as LLMProviderName;
+  const provider = PROVIDERS.includes(requested) ? requested : 'openai';
+  const defaults = DEFAULT_MODELS[provider];
+
+  const structuredOutput = (process.env.LLM_STRUCTURED_OUTPUT || '').trim().toLowerCase() as StructuredOutputMode;
+
+  return {
+    provider,
+    model: process.env.LLM_MODEL || (provider === 'azure' ? process.env.AZURE_OPENAI_DEPLOYMENT || '' : defaults.model),
+    fallbackModel: process.env.LLM_FALLBACK_MODEL === 'none'
+      ? undefined
+      : process.env.LLM_FALLBACK_MODEL || defaults.fallbackModel,
+    temperature: numberFromEnv('LLM_TEMPERATURE', 0.1),
+    maxTokens: numberFromEnv('LLM_MAX_TOKENS', 3000),
+    fallbackMaxTokens: numberFromEnv('LLM_FALLBACK_MAX_TOKENS', 2000),
+    // Local servers often lack tool calling but support a JSON response mode
+    structuredOutput: ['tools', 'json', 'prompt'].includes(structuredOutput)
+      ? structuredOutput
+      : provider === 'openai-compatible' ? 'json' : 'tools',
+    apiKey: process.env.LLM_API_KEY || {
+      openai: process.env.OPENAI_API_KEY,
+      azure: process.env.AZURE_OPENAI_API_KEY,
+      anthropic: process.env.ANTHROPIC_API_KEY,
+      'openai-compatible': undefined,
+    }[provider],
+    baseURL: process.env.LLM_BASE_URL || (provider === 'azure' ? process.env.AZURE_OPENAI_ENDPOINT : undefined),
+    azureApiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-06-01',
+  };
+}
+
+/**
+ * Describe what is missing from the configuration, or return null when extraction can run
+ */
+export function getLLMConfigError(config: LLMConfig = getLLMConfig()): string | null {
+  switch (config.provider) {
+    case 'openai':
+      return config.apiKey ? null : 'OpenAI API key not configured. Please set OPENAI_API_KEY environment variable.';
+    case 'anthropic':
+      return config.apiKey ? null : 'Anthropic API key not configured. Please set ANTHROPIC_API_KEY environment variable.';
+    case 'azure':
+      if (!config.apiKey || !config.baseURL) {
+        return 'Azure OpenAI not configured. Please set AZURE_OPENAI_API_KEY and AZURE_OPENAI_ENDPOINT environment variables.';
+      }
+      return config.model ? null : 'Azure OpenAI deployment not configured. Please set AZURE_OPENAI_DEPLOYMENT or LLM_MODEL.';
+    case 'openai-compatible':
+      return config.baseURL ? null : 'Local model server not configured. Please set LLM_BASE_URL (e.g. http://localhost:11434/v1).';
+  }
+}
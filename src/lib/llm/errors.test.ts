@@ -0,0 +1,28 @@
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { describe, expect, it } from 'vitest';
+import { isTransientError, LLMRequestError } from './errors';
+
+describe('isTransientError', () => {
+  it('treats rate limits, timeouts and server errors as transient', () => {
+    for (const status of [408, 409, 429, 500, 503, 529]) {
+      expect(isTransientError(new OpenAI.APIError(status, undefined, 'error', undefined))).toBe(true);
+      expect(isTransientError(new Anthropic.APIError(status, undefined, 'error', undefined))).toBe(true);
+    }
+    expect(isTransientError(new OpenAI.APIConnectionTimeoutError())).toBe(true);
+    expect(isTransientError(new Anthropic.APIConnectionError({ message: 'socket hang up' }))).toBe(true);
+  });
+
+  it('treats client errors and everything else as permanent', () => {
+    for (const status of [400, 401, 403, 404, 422]) {
+      expect(isTransientError(new OpenAI.APIError(status, undefined, 'error', undefined))).toBe(false);
+    }
+    expect(isTransientError(new Error('Invalid JSON response from AI model'))).toBe(false);
+    expect(isTransientError('rate limit')).toBe(false);
+  });
+
+  it('keeps the verdict on errors wrapped by the processor', () => {
+    expect(isTransientError(new LLMRequestError('AI processing failed', true))).toBe(true);
+    expect(isTransientError(new LLMRequestError('AI processing failed', false))).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+
+// Statuses worth another try: request timeout, conflict, rate limit and server errors
+const TRANSIENT_STATUSES = [408, 409, 429];
+
+/**
+ * A failed extraction that remembers whether the provider error behind it may pass on a retry
+ */
+export class LLMRequestError extends Error {
+  constructor(message: string, readonly transient: boolean) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+/**
+ * Whether an error is a passing provider problem (rate limit, overload, timeout, dropped connection)
+ * rather than one that fails the same way every time (bad key, unknown model, invalid response)
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof LLMRequestError) {
+    return error.transient;
+  }
+  // Connection errors and timeouts have no status
+  if (error instanceof OpenAI.APIConnectionError || error instanceof Anthropic.APIConnectionError) {
+    return true;
+  }
+  if (error instanceof OpenAI.APIError || error instanceof Anthropic.APIError) {
+    const status = error.status;
+    return typeof status === 'number' && (TRANSIENT_STATUSES.includes(status) || status >= 500);
+  }
+  return false;
+}
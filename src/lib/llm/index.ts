@@ -0,0 +1,22 @@
+import { LLMConfig, LLMProvider } from './types';
+import { getLLMConfig } from './config';
+import { OpenAIProvider } from './openai-provider';
+import { AnthropicProvider } from './anthropic-provider';
+
+/**
+ * Create the provider selected by the configuration (LLM_PROVIDER by default)
+ */
+export function createLLMProvider(config: LLMConfig = getLLMConfig()): LLMProvider {
+  switch (config.provider) {
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    default:
+      return new OpenAIProvider(config);
+  }
+}
+
+export { getLLMConfig, getLLMConfigError } from './config';
+export { OpenAIProvider } from './openai-provider';
+export { AnthropicProvider } from './anthropic-provider';
+export type { LLMConfig, LLMProvider, LLMProviderName, LLMMessage, StructuredRequest, StructuredOutputMode } from './types';
+export { LLMRequestError, isTransientError } from './errors';
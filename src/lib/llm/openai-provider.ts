@@ -0,0 +1,66 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { LLMConfig, LLMProvider, LLMProviderName, StructuredOutputMode, StructuredRequest } from './types';
+
+/**
+ * Chat-completions provider for OpenAI, Azure OpenAI and OpenAI-compatible local servers (Ollama, llama.cpp, vLLM)
+ */
+export class OpenAIProvider implements LLMProvider {
+  name: LLMProviderName;
+  private client: OpenAI;
+  private structuredOutput: StructuredOutputMode;
+
+  constructor(config: LLMConfig) {
+    this.name = config.provider;
+    this.structuredOutput = config.structuredOutput;
+
+    if (config.provider === 'azure') {
+      this.client = new AzureOpenAI({
+        apiKey: config.apiKey,
+        endpoint: config.baseURL,
+        deployment: config.model,
+        apiVersion: config.azureApiVersion,
+      });
+    } else {
+      this.client = new OpenAI({
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: config.apiKey || (config.provider === 'openai-compatible' ? 'not-needed' : undefined),
+        baseURL: config.baseURL,
+      });
+    }
+  }
+
+  async generateStructured(request: StructuredRequest): Promise<string> {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      { role: 'system', content: request.system },
+      ...request.messages,
+    ];
+
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(this.structuredOutput === 'tools' && {
+        tools: [{
+          type: 'function' as const,
+          function: {
+            name: request.schemaName,
+            description: request.schemaDescription,
+            parameters: request.schema,
+          },
+        }],
+        tool_choice: { type: 'function' as const, function: { name: request.schemaName } },
+      }),
+      ...(this.structuredOutput === 'json' && {
+        response_format: { type: 'json_object' as const },
+      }),
+    });
+
+    const message = response.choices[0]?.message;
+    const content = message?.tool_calls?.[0]?.function.arguments ?? message?.content;
+    if (!content) {
+      throw new Error('No response from the AI model');
+    }
+    return content;
+  }
+}
@@ -0,0 +1,39 @@
+export type LLMProviderName = 'openai' | 'azure' | 'anthropic' | 'openai-compatible';
+
+// How a provider is asked for JSON: a forced tool call, a JSON response mode, or the prompt alone
+export type StructuredOutputMode = 'tools' | 'json' | 'prompt';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface StructuredRequest {
+  system: string;
+  messages: LLMMessage[];
+  schema: Record<string, unknown>;
+  schemaName: string;
+  schemaDescription: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  /** Run a request that should produce a JSON document matching the schema; returns the raw JSON text */
+  generateStructured(request: StructuredRequest): Promise<string>;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  fallbackModel?: string;
+  temperature: number;
+  maxTokens: number;
+  fallbackMaxTokens: number;
+  structuredOutput: StructuredOutputMode;
+  apiKey?: string;
+  baseURL?: string;
+  azureApiVersion?: string;
+}
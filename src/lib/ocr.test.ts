@@ -0,0 +1,64 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createCanvas } from '@napi-rs/canvas';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OCRProcessor } from './ocr';
+
+/**
+ * A white page image with one line of black text
+ */
+function renderText(text: string): Buffer {
+  const canvas = createCanvas(600, 120);
+  const context = canvas.getContext('2d');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = '#000000';
+  context.font = '40px sans-serif';
+  context.fillText(text, 20, 70);
+  return canvas.toBuffer('image/png');
+}
+
+describe('OCRProcessor.recognizePDF', () => {
+  const langPath = process.env.OCR_LANG_PATH;
+
+  beforeEach(() => {
+    delete process.env.OCR_LANG_PATH;
+    vi.spyOn(OCRProcessor, 'rasterizePDF').mockResolvedValue([renderText('Midterm Exam Oct 15')]);
+  });
+
+  afterEach(() => {
+    process.env.OCR_LANG_PATH = langPath;
+    if (langPath === undefined) delete process.env.OCR_LANG_PATH;
+    vi.restoreAllMocks();
+  });
+
+  it('reads English from the installed language data', async () => {
+    const result = await OCRProcessor.recognizePDF(Buffer.from(''), { language: 'eng' });
+
+    expect(result.text.trim()).toBe('Midterm Exam Oct 15');
+    expect(result.pages).toHaveLength(1);
+  }, 60000);
+
+  it('replaces a dangling link to language data left by an earlier install', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ocr-'));
+    vi.stubEnv('TMPDIR', tmpDir);
+    try {
+      const shared = path.join(tmpDir, 'tesseract-lang-data');
+      fs.mkdirSync(shared);
+      fs.symlinkSync(path.join(tmpDir, 'removed', 'eng.traineddata.gz'), path.join(shared, 'eng.traineddata.gz'));
+
+      // Several languages are read through the shared directory of links
+      const result = await OCRProcessor.recognizePDF(Buffer.from(''), { language: 'eng+eng' });
+      expect(result.text.trim()).toBe('Midterm Exam Oct 15');
+    } finally {
+      vi.unstubAllEnvs();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  }, 60000);
+
+  it('names the package to install for a missing language', async () => {
+    await expect(OCRProcessor.recognizePDF(Buffer.from(''), { language: 'eng+xyz' }))
+      .rejects.toThrow('install @tesseract.js-data/xyz or set OCR_LANG_PATH');
+  });
+});
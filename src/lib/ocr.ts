@@ -0,0 +1,150 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createRequire } from 'module';
+import { ExtractionListener, OCRReport } from '@/types/syllabus';
+import { loadPDFDocument } from './pdf-layout';
+
+export interface OCRResult extends OCRReport {
+  text: string;
+}
+
+export interface OCROptions {
+  language?: string;
+  maxPages?: number;
+  scale?: number;
+  onProgress?: ExtractionListener['onProgress'];
+}
+
+const DEFAULT_MAX_PAGES = 15;
+// Roughly 150 DPI, which keeps recognition accurate without huge bitmaps
+const DEFAULT_SCALE = 2;
+// The integer LSTM models in each @tesseract.js-data package, which are what tesseract.js loads by default
+const LANGUAGE_DATA_DIR = '4.0.0_best_int';
+
+/**
+ * A directory with the traineddata of each language ("eng+spa" style), taken from the installed
+ * @tesseract.js-data packages so OCR works without downloading anything
+ */
+function getInstalledLangPath(language: string): string {
+  // Resolved from the app root at runtime, outside the bundler
+  const resolver = createRequire(path.join(process.cwd(), 'package.json'));
+  const codes = language.split('+');
+  const dirs = codes.map(code => {
+    try {
+      return path.join(path.dirname(resolver.resolve(`@tesseract.js-data/${code}/package.json`)), LANGUAGE_DATA_DIR);
+    } catch {
+      throw new Error(`No OCR language data for "${code}": install @tesseract.js-data/${code} or set OCR_LANG_PATH`);
+    }
+  });
+  if (dirs.length === 1) return dirs[0];
+
+  // tesseract.js reads every language from one directory, so link each package's file into a shared one
+  const shared = path.join(os.tmpdir(), 'tesseract-lang-data');
+  fs.mkdirSync(shared, { recursive: true });
+  codes.forEach((code, index) => {
+    const target = path.join(dirs[index], `${code}.traineddata.gz`);
+    const link = path.join(shared, `${code}.traineddata.gz`);
+    // A link left by an earlier install can point at a moved or removed package, so replace any other target
+    let current: string | undefined;
+    try {
+      current = fs.readlinkSync(link);
+    } catch {
+      current = undefined;
+    }
+    if (current !== target) {
+      fs.rmSync(link, { force: true });
+      fs.symlinkSync(target, link);
+    }
+  });
+  return shared;
+}
+
+export class OCRProcessor {
+  /**
+   * Render PDF pages to PNG images
+   */
+  static async rasterizePDF(buffer: Buffer, maxPages: number, scale: number): Promise<Buffer[]> {
+    // Dynamic import to avoid build issues
+    const { createCanvas } = await import('@napi-rs/canvas');
+    const document = await loadPDFDocument(buffer);
+
+    try {
+      const images: Buffer[] = [];
+      const pageCount = Math.min(document.numPages, maxPages);
+
+      for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        const page = await document.getPage(pageNumber);
+        const viewport = page.getViewport({ scale });
+        const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+        const context = canvas.getContext('2d');
+
+        // Scans often have transparent backgrounds; OCR expects dark text on white
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+
+        await page.render({
+          canvasContext: context as unknown as CanvasRenderingContext2D,
+          viewport,
+        }).promise;
+
+        images.push(canvas.toBuffer('image/png'));
+        page.cleanup();
+      }
+
+      return images;
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  /**
+   * Rasterize a scanned PDF and recognize its text page by page
+   */
+  static async recognizePDF(buffer: Buffer, options: OCROptions = {}): Promise<OCRResult> {
+    const language = options.language || process.env.OCR_LANGUAGE || 'eng';
+    const maxPages = options.maxPages || Number(process.env.OCR_MAX_PAGES) || DEFAULT_MAX_PAGES;
+
+    let images: Buffer[];
+    try {
+      images = await this.rasterizePDF(buffer, maxPages, options.scale || DEFAULT_SCALE);
+    } catch (error) {
+      console.error('PDF rasterization error:', error);
+      throw new Error(`Failed to render scanned PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    // The installed packages are read in place, so there is nothing to cache in the working directory
+    const { createWorker } = await import('tesseract.js');
+    const worker = await createWorker(language, undefined, process.env.OCR_LANG_PATH
+      ? { langPath: process.env.OCR_LANG_PATH }
+      : { langPath: getInstalledLangPath(language), cacheMethod: 'none' });
+
+    try {
+      const pages: OCRResult['pages'] = [];
+      const texts: string[] = [];
+
+      for (let index = 0; index < images.length; index++) {
+        options.onProgress?.({
+          stage: 'ocr',
+          message: `Recognizing text on page ${index + 1} of ${images.length}`,
+          completed: index,
+          total: images.length,
+        });
+        const { data } = await worker.recognize(images[index]);
+        pages.push({ page: index + 1, confidence: Math.round(data.confidence) });
+        texts.push(data.text);
+      }
+
+      const averageConfidence = pages.length > 0
+        ? Math.round(pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length)
+        : 0;
+
+      return { text: texts.join('\n\f\n'), pages, averageConfidence };
+    } catch (error) {
+      console.error('OCR error:', error);
+      throw new Error(`Failed to recognize text in scanned PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await worker.terminate();
+    }
+  }
+}
@@ -0,0 +1,241 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SyllabusProcessor } from './openai-client';
+import { LLMConfig, LLMMessage, LLMProvider } from './llm';
+
+const config: LLMConfig = {
+  provider: 'openai',
+  model: 'primary',
+  fallbackModel: 'fallback',
+  temperature: 0,
+  maxTokens: 1000,
+  fallbackMaxTokens: 1000,
+  structuredOutput: 'tools',
+};
+
+// Long enough to be extracted in several sections
+const syllabus = [1, 2, 3]
+  .map(week => `## Week ${week}\n${`Reading and discussion for week ${week}. `.repeat(250)}`)
+  .join('\n\n');
+
+const extraction = (title: string) => JSON.stringify({
+  events: [{ title, description: '', date: '2025-01-20', type: 'assignment', priority: 'medium' }],
+});
+
+describe('SyllabusProcessor.extractEventsWithFallback', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('tells the listener to drop streamed events before the fallback model reports them again', async () => {
+    // The failure is expected, so keep its logging out of the test output
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    let primaryCalls = 0;
+    const provider: LLMProvider = {
+      name: 'openai',
+      async generateStructured({ model }) {
+        // The primary model finishes one section, then fails
+        if (model === 'primary' && primaryCalls++ > 0) throw new Error('Rate limited');
+        return extraction(`${model} section`);
+      },
+    };
+
+    const log: string[] = [];
+    let found: string[] = [];
+    const result = await new SyllabusProcessor(config, provider).extractEventsWithFallback(syllabus, {
+      onEvents: events => {
+        log.push('events');
+        found = [...found, ...events.map(event => event.title)];
+      },
+      onEventsReset: () => {
+        log.push('reset');
+        found = [];
+      },
+    });
+
+    expect(log.filter(entry => entry === 'reset')).toHaveLength(1);
+    expect(log.indexOf('reset')).toBeGreaterThan(0);
+    expect(found.length).toBeGreaterThan(1);
+    expect(found.every(title => title === 'fallback section')).toBe(true);
+    expect(result.events.length).toBeGreaterThan(0);
+  });
+
+  it('stops the failed run from sending or reporting more sections once one fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const longSyllabus = Array.from({ length: 10 }, (_, i) => `## Week ${i + 1}\n${'Reading and discussion. '.repeat(400)}`).join('\n\n');
+    let primaryCalls = 0;
+    const provider: LLMProvider = {
+      name: 'openai',
+      async generateStructured({ model, messages }) {
+        if (model === 'fallback') return extraction('fallback section');
+        primaryCalls++;
+        // Section 1 fails at once; the sections sent alongside it are still in flight
+        if (messages[0].content.includes('This is part 1 of')) throw new Error('Invalid API key');
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return extraction('primary section');
+      },
+    };
+
+    const log: string[] = [];
+    await new SyllabusProcessor(config, provider).extractEventsWithFallback(longSyllabus, {
+      onEvents: events => log.push(...events.map(event => event.title)),
+      onEventsReset: () => log.push('reset'),
+    });
+    // Let the abandoned requests settle
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(primaryCalls).toBe(4);
+    expect(log[0]).toBe('reset');
+    expect(log.slice(1).every(title => title === 'fallback section')).toBe(true);
+  });
+
+  it('reports events with the ids they keep in the final result', async () => {
+    const provider: LLMProvider = { name: 'openai', generateStructured: async () => extraction('Quiz') };
+    const streamedIds: (string | undefined)[] = [];
+
+    const result = await new SyllabusProcessor(config, provider).extractEventsWithFallback(syllabus, {
+      onEvents: events => streamedIds.push(...events.map(event => event.id)),
+    });
+
+    // Every section found the same quiz; the merged result keeps one of them
+    expect(streamedIds.length).toBeGreaterThan(1);
+    expect(streamedIds.every(Boolean)).toBe(true);
+    expect(new Set(streamedIds).size).toBe(streamedIds.length);
+    expect(result.events).toHaveLength(1);
+    expect(streamedIds).toContain(result.events[0].id);
+  });
+
+  it('does not reset when the primary model succeeds', async () => {
+    const provider: LLMProvider = { name: 'openai', generateStructured: async ({ model }) => extraction(model) };
+    const log: string[] = [];
+
+    await new SyllabusProcessor(config, provider).extractEventsWithFallback(syllabus, {
+      onEvents: () => log.push('events'),
+      onEventsReset: () => log.push('reset'),
+    });
+
+    expect(log).not.toContain('reset');
+    expect(log.length).toBeGreaterThan(1);
+  });
+});
+
+describe('SyllabusProcessor.extractEvents', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Answers each request in turn, recording the conversation it was sent
+  const scriptedProvider = (responses: string[], sent: LLMMessage[][]): LLMProvider => ({
+    name: 'openai',
+    async generateStructured({ messages }) {
+      sent.push([...messages]);
+      return responses[sent.length - 1];
+    },
+  });
+
+  it('repairs formatting problems without asking again', async () => {
+    const sent: LLMMessage[][] = [];
+    const response = '```json\n' + extraction('Quiz').replace(/}]}$/, '},]}') + '\n```';
+    const result = await new SyllabusProcessor(config, scriptedProvider([response], sent)).extractEvents('Quiz on 1/20');
+
+    expect(sent).toHaveLength(1);
+    expect(result.events.map(event => event.title)).toEqual(['Quiz']);
+  });
+
+  it('sends the problems back once and uses the corrected response', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const sent: LLMMessage[][] = [];
+    const invalid = JSON.stringify({ events: [{ title: 'Quiz', description: '', date: 'Jan 20', type: 'quiz', priority: 'low' }] });
+    const provider = scriptedProvider([invalid, extraction('Quiz')], sent);
+
+    const result = await new SyllabusProcessor(config, provider).extractEvents('Quiz on 1/20');
+
+    expect(sent).toHaveLength(2);
+    expect(sent[1].slice(-2)).toEqual([
+      { role: 'assistant', content: invalid },
+      { role: 'user', content: expect.stringContaining('events[0].date "Jan 20" is not in YYYY-MM-DD format') },
+    ]);
+    expect(result.events.map(event => event.date)).toEqual(['2025-01-20']);
+  });
+
+  it('keeps the valid events once out of repair attempts', async () => {
+    const sent: LLMMessage[][] = [];
+    const partlyInvalid = JSON.stringify({
+      events: [
+        { title: 'Quiz', description: '', date: '2025-01-20', type: 'quiz', priority: 'low' },
+        { title: 'Exam', description: '', date: 'TBA', type: 'exam', priority: 'high' },
+      ],
+    });
+    const provider = scriptedProvider([partlyInvalid, partlyInvalid], sent);
+
+    const result = await new SyllabusProcessor(config, provider).extractEvents('Quiz on 1/20, exam TBA');
+
+    expect(sent).toHaveLength(2);
+    expect(result.events.map(event => event.title)).toEqual(['Quiz']);
+  });
+
+  it('fails when no attempt returns events', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const sent: LLMMessage[][] = [];
+    const provider = scriptedProvider(['I could not find any dates.', 'Still no dates.'], sent);
+
+    await expect(new SyllabusProcessor(config, provider).extractEvents('No dates here'))
+      .rejects.toThrow(/Invalid JSON response from AI model/);
+    expect(sent).toHaveLength(2);
+  });
+});
+
+describe('SyllabusProcessor chunked extraction', () => {
+  it('returns an event found at a chunk boundary once, keeping the more detailed copy', async () => {
+    const provider: LLMProvider = {
+      name: 'openai',
+      async generateStructured({ messages }) {
+        const part = Number(messages[0].content.match(/This is part (\d+) of/)?.[1]);
+        const boundaryEvent = part === 2
+          ? { title: 'Midterm Exam', description: 'Chapters 1-5, bring a calculator', date: '2025-03-05', time: '10:00', type: 'exam', priority: 'high' }
+          : { title: 'Midterm exam', description: '', date: '2025-03-05', type: 'exam', priority: 'high' };
+        return JSON.stringify({
+          courseName: part === 1 ? 'CS 101' : null,
+          events: [
+            { title: `Week ${part} reading`, description: '', date: `2025-01-2${part}`, type: 'reading', priority: 'low' },
+            ...(part <= 2 ? [boundaryEvent] : []),
+          ],
+        });
+      },
+    };
+
+    const result = await new SyllabusProcessor(config, provider).extractEvents(syllabus);
+    const midterms = result.events.filter(event => event.type === 'exam');
+
+    expect(result.courseName).toBe('CS 101');
+    expect(midterms).toHaveLength(1);
+    expect(midterms[0]).toMatchObject({ title: 'Midterm Exam', time: '10:00' });
+    expect(result.events.filter(event => event.type === 'reading')).toHaveLength(3);
+  });
+
+  it('sends at most four sections at a time and keeps results in section order', async () => {
+    const longSyllabus = Array.from({ length: 10 }, (_, i) => `## Week ${i + 1}\n${'Reading and discussion. '.repeat(400)}`).join('\n\n');
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const provider: LLMProvider = {
+      name: 'openai',
+      async generateStructured({ messages }) {
+        const part = Number(messages[0].content.match(/This is part (\d+) of/)?.[1]);
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        // Later sections finish first
+        await new Promise(resolve => setTimeout(resolve, 20 - part));
+        inFlight--;
+        return JSON.stringify({
+          events: [{ title: `Section ${part}`, description: '', date: '2025-01-20', type: 'reading', priority: 'low' }],
+        });
+      },
+    };
+
+    const result = await new SyllabusProcessor(config, provider).extractEvents(longSyllabus);
+
+    expect(maxInFlight).toBe(4);
+    expect(result.events.map(event => event.title)).toEqual(Array.from({ length: 10 }, (_, i) => `Section ${i + 1}`));
+  });
+});
@@ -1,22 +1,62 @@
-import OpenAI from 'openai';
-import { SyllabusEvent, ProcessedSyllabus } from '@/types/syllabus';
+import { SyllabusEvent, ProcessedSyllabus, EventSource, ExtractionListener } from '@/types/syllabus';
+import { normalizeRecurrence } from './recurrence';
+import { normalizeTerm } from './relative-dates';
+import { isValidTimeZone } from './timezone';
+import { chunkSyllabusText, getSharedContext, SyllabusChunk } from './syllabus-chunker';
+import { isSameEvent } from './event-merge';
+import {
+  SYLLABUS_EXTRACTION_SCHEMA,
+  EXTRACTION_FUNCTION_NAME,
+  findExtractionErrors,
+  hasEventsArray,
+  RawExtractedEvent,
+  RawExtraction,
+} from './extraction-schema';
+import { parseModelJSON } from './json-repair';
+import {
+  createLLMProvider,
+  getLLMConfig,
+  isTransientError,
+  LLMConfig,
+  LLMMessage,
+  LLMProvider,
+  LLMRequestError,
+} from './llm';
+
+// Chunks are sent concurrently, but capped to stay within API rate limits
+const MAX_PARALLEL_CHUNKS = 4;
+// Extra requests allowed to fix a malformed or invalid response
+const MAX_REPAIR_ATTEMPTS = 1;
+const MAX_SOURCE_LENGTH = 500;
+
+// An extracted event with the title and date every event needs
+type ValidExtractedEvent = RawExtractedEvent & { title: string; date: string };
+
+const SYSTEM_PROMPT = 'You are an expert academic assistant specializing in syllabus analysis. Return only valid JSON responses.';
 
 export class SyllabusProcessor {
-  private openai: OpenAI;
+  private provider: LLMProvider;
+  private config: LLMConfig;
 
-  constructor(apiKey?: string) {
-    this.openai = new OpenAI({
-      apiKey: apiKey || process.env.OPENAI_API_KEY,
-    });
+  constructor(config: LLMConfig = getLLMConfig(), provider?: LLMProvider) {
+    this.config = config;
+    this.provider = provider || createLLMProvider(config);
   }
 
   /**
    * Generate the prompt for extracting syllabus events
    */
-  private createExtractionPrompt(syllabusText: string): string {
+  private createExtractionPrompt(syllabusText: string, chunk?: { index: number; total: number; context: string }): string {
+    const chunkNote = chunk && chunk.total > 1 ? `
+This is part ${chunk.index + 1} of ${chunk.total} of a long syllabus. Extract only the events in this part. The opening of the syllabus is included for course details (name, instructor, semester, year) — use it to resolve dates, but don't extract events from it unless this is part 1.
+
+Syllabus opening:
+${chunk.context}
+` : '';
+
     return `
 You are an expert at analyzing academic syllabi and extracting important dates and events. 
-
+${chunkNote}
 Analyze the following syllabus text and extract ALL important dates, assignments, exams, and deadlines. Return the results as a JSON object with the following structure:
 
 {
@@ -24,6 +64,14 @@ Analyze the following syllabus text and extract ALL important dates, assignments
   "instructor": "Instructor name if mentioned", 
   "semester": "Semester if mentioned (e.g. 'Fall 2024')",
   "year": 2024,
+  "timeZone": "IANA time zone (e.g. 'America/Chicago') if the syllabus states one or names the campus city, otherwise null",
+  "term": {
+    "start": "YYYY-MM-DD first day of class",
+    "end": "YYYY-MM-DD last day of class, or null",
+    "meetingDays": ["MO", "WE"],
+    "noClassDates": ["YYYY-MM-DD holidays and breaks"],
+    "breaks": [{ "name": "Spring Break", "kind": "holiday|break|reading-day|finals", "start": "YYYY-MM-DD", "end": "YYYY-MM-DD" }]
+  } or null,
   "events": [
     {
       "title": "Assignment or event title",
@@ -31,8 +79,18 @@ Analyze the following syllabus text and extract ALL important dates, assignments
       "date": "YYYY-MM-DD format",
       "time": "HH:MM format if specific time mentioned, otherwise null",
       "type": "assignment|exam|reading|lecture|project|quiz|other",
+      "duration": "length in minutes if an end time is mentioned, otherwise null",
       "priority": "high|medium|low",
-      "location": "location if mentioned, otherwise null"
+      "location": "location if mentioned, otherwise null",
+      "recurrence": {
+        "frequency": "weekly|biweekly",
+        "daysOfWeek": ["MO", "TU", "WE", "TH", "FR", "SA", "SU"],
+        "until": "YYYY-MM-DD last occurrence, or null if unknown",
+        "exceptions": ["YYYY-MM-DD dates the series is skipped, e.g. holidays"]
+      } or null,
+      "dateExpression": "the syllabus's own wording if the date is relative (e.g. 'Week 3 Monday', 'Session 12', 'first day of class'), otherwise null",
+      "confidence": "0.0-1.0, how certain you are of the date and details",
+      "source": { "text": "the syllabus line or table row the event comes from, quoted exactly" }
     }
   ]
 }
@@ -49,90 +107,235 @@ Focus on extracting:
 
 Guidelines:
 1. If no year is specified, assume the current or next academic year
-2. For dates like "Week 3 Monday" or "Sept 15", try to determine the actual date
+2. For relative dates like "Week 3 Monday", "Session 12" or "last day of class", copy the phrase into "dateExpression" and give your best estimate in "date"; the app recalculates these from the term dates. Fill in "term" with the first and last day of class and the meeting days when the syllabus gives them
 3. Mark exams and major projects as "high" priority
 4. Mark regular assignments as "medium" priority  
 5. Mark readings and optional items as "low" priority
 6. If time is mentioned (e.g. "due at 11:59 PM"), include it
 7. Be conservative - only extract clear, definite dates
 8. If a date is ambiguous, include it but note the ambiguity in the description
+9. For repeating sessions (e.g. "lectures every Tue/Thu 10:00", "office hours Wednesdays 2-4pm", "weekly quiz every Friday"), return ONE event with a "recurrence" object instead of one event per week. Set "date" to the first occurrence, "daysOfWeek" to the meeting days, "until" to the last day of class if known, and list holidays or breaks with no meeting in "exceptions". Use null for one-off events
+10. If an end time is given, set "duration" to the length in minutes
+11. Schedule tables are given as Markdown tables. Each row belongs together: use the row's own date (or week) for the topics, readings and deliverables in that row, and use the header row to tell which column is which
+12. Quote the source text exactly as it appears, without rewording. Use a confidence near 1 when the date and title are stated outright, around 0.5 when the date is estimated or the item is implied, and lower when guessing
 
-Syllabus text:
+Syllabus text (line breaks and tables preserved from the original layout):
 ${syllabusText}
 
 Return only valid JSON, no additional text or explanations.`;
   }
 
   /**
-   * Extract events from syllabus text using OpenAI
+   * Extract events from syllabus text using the configured model
    */
-  async extractEvents(syllabusText: string): Promise<ProcessedSyllabus> {
+  async extractEvents(syllabusText: string, listener: ExtractionListener = {}): Promise<ProcessedSyllabus> {
     try {
-      const prompt = this.createExtractionPrompt(syllabusText);
-
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4', // Use GPT-4 for better accuracy
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert academic assistant specializing in syllabus analysis. Return only valid JSON responses.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.1, // Low temperature for consistent results
-        max_tokens: 3000,
-      });
+      const parsedResult = await this.extractInChunks(syllabusText, this.config.model, this.config.maxTokens, listener);
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from OpenAI');
-      }
+      // Validate and clean the result
+      return this.validateAndCleanResult(parsedResult);
 
-      // Parse the JSON response
-      let parsedResult: ProcessedSyllabus;
+    } catch (error) {
+      console.error(`${this.provider.name} processing error:`, error);
+      throw new LLMRequestError(
+        `Failed to process syllabus: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        isTransientError(error)
+      );
+    }
+  }
+
+  /**
+   * Send one extraction prompt as a schema-constrained request and parse the result,
+   * repairing malformed JSON and retrying with the problems fed back before giving up
+   */
+  private async requestExtraction(prompt: string, model: string, maxTokens: number): Promise<RawExtraction> {
+    const messages: LLMMessage[] = [{ role: 'user', content: prompt }];
+    let lastError = 'Invalid JSON response from AI model';
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const content = await this.provider.generateStructured({
+        system: SYSTEM_PROMPT,
+        messages,
+        schema: SYLLABUS_EXTRACTION_SCHEMA,
+        schemaName: EXTRACTION_FUNCTION_NAME,
+        schemaDescription: 'Record the course details and dated events found in the syllabus',
+        model,
+        temperature: this.config.temperature,
+        maxTokens,
+      });
+
+      let errors: string[];
+      let parsedResult: unknown;
       try {
-        parsedResult = JSON.parse(content);
+        parsedResult = parseModelJSON(content);
+        errors = findExtractionErrors(parsedResult);
       } catch (parseError) {
-        console.error('Failed to parse OpenAI response:', content);
-        throw new Error('Invalid JSON response from AI model');
+        console.error('Failed to parse AI response:', content);
+        errors = [`The response is not valid JSON (${parseError instanceof Error ? parseError.message : 'parse error'})`];
       }
 
-      // Validate and clean the result
-      return this.validateAndCleanResult(parsedResult);
+      // Out of retries: individual invalid events are dropped during validation, so keep the rest
+      if ((errors.length === 0 || attempt === MAX_REPAIR_ATTEMPTS) && hasEventsArray(parsedResult)) {
+        return this.withEventIds(parsedResult);
+      }
 
-    } catch (error) {
-      console.error('OpenAI processing error:', error);
-      throw new Error(`Failed to process syllabus: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      lastError = errors.join('; ');
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: `Your previous response had these problems: ${errors.slice(0, 10).join('; ')}. Return the complete corrected result as JSON.` }
+      );
     }
+
+    throw new Error(`Invalid JSON response from AI model: ${lastError}`);
+  }
+
+  /**
+   * Give every extracted event its id, so partial results and the final result agree on it
+   */
+  private withEventIds(result: RawExtraction): RawExtraction {
+    return {
+      ...result,
+      events: result.events.map(event =>
+        event && typeof event === 'object' ? { ...event, id: this.generateEventId() } : event),
+    };
+  }
+
+  /**
+   * Split long syllabi into section-aligned chunks, extract them in parallel and merge the results,
+   * reporting each finished chunk and its events to the listener
+   */
+  private async extractInChunks(
+    syllabusText: string,
+    model: string,
+    maxTokens: number,
+    listener: ExtractionListener = {}
+  ): Promise<RawExtraction> {
+    const chunks = chunkSyllabusText(syllabusText);
+    let completed = 0;
+    const report = (result?: RawExtraction) => {
+      listener.onProgress?.({
+        stage: 'extracting',
+        message: chunks.length === 1
+          ? 'Extracting events'
+          : `Extracted section ${completed} of ${chunks.length}`,
+        completed,
+        total: chunks.length,
+      });
+      if (result && listener.onEvents) {
+        const partial = this.validateAndCleanResult(result);
+        listener.onEvents(partial.events, partial.term);
+      }
+    };
+
+    report();
+    if (chunks.length === 1) {
+      const result = await this.requestExtraction(this.createExtractionPrompt(syllabusText), model, maxTokens);
+      completed++;
+      report(result);
+      return result;
+    }
+
+    const context = getSharedContext(syllabusText);
+    const results: RawExtraction[] = new Array(chunks.length);
+    const queue = [...chunks];
+    // Once a section fails the run is thrown away, so stop sending sections and drop results still in flight
+    let failed = false;
+
+    const worker = async () => {
+      let chunk: SyllabusChunk | undefined;
+      while ((chunk = queue.shift())) {
+        const prompt = this.createExtractionPrompt(chunk.text, { index: chunk.index, total: chunks.length, context });
+        let result: RawExtraction;
+        try {
+          result = await this.requestExtraction(prompt, model, maxTokens);
+        } catch (error) {
+          failed = true;
+          queue.length = 0;
+          throw error;
+        }
+        if (failed) return;
+
+        results[chunk.index] = result;
+        completed++;
+        report(result);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(MAX_PARALLEL_CHUNKS, chunks.length) }, worker));
+
+    return this.mergeChunkResults(results);
+  }
+
+  /**
+   * Combine per-chunk results: course details from the earliest chunk that has them,
+   * and events de-duplicated where neighbouring chunks both picked them up
+   */
+  private mergeChunkResults(results: RawExtraction[]): RawExtraction {
+    const valid = results.filter(hasEventsArray);
+    const firstValue = (key: Exclude<keyof RawExtraction, 'events'>) =>
+      valid.map(result => result[key]).find(value => value !== undefined && value !== null && value !== '');
+
+    const events: ValidExtractedEvent[] = [];
+    for (const event of valid.flatMap(result => result.events)) {
+      if (!this.isValidEvent(event)) continue;
+
+      const duplicate = events.findIndex(existing => isSameEvent(existing, event));
+      if (duplicate === -1) {
+        events.push(event);
+      } else if (this.eventDetail(event) > this.eventDetail(events[duplicate])) {
+        events[duplicate] = event;
+      }
+    }
+
+    return {
+      courseName: firstValue('courseName'),
+      instructor: firstValue('instructor'),
+      semester: firstValue('semester'),
+      year: firstValue('year'),
+      timeZone: firstValue('timeZone'),
+      term: firstValue('term'),
+      events,
+    };
+  }
+
+  /**
+   * Rough measure of how much an extracted event says, to keep the richer of two duplicates
+   */
+  private eventDetail(event: RawExtractedEvent): number {
+    return String(event.description || '').length +
+      (event.time ? 50 : 0) +
+      (event.location ? 20 : 0) +
+      (event.recurrence ? 100 : 0);
   }
 
   /**
    * Validate and clean the extracted result
    */
-  private validateAndCleanResult(result: any): ProcessedSyllabus {
-    if (!result || typeof result !== 'object') {
+  private validateAndCleanResult(result: RawExtraction): ProcessedSyllabus {
+    if (!hasEventsArray(result)) {
       throw new Error('Invalid result format');
     }
 
     const events: SyllabusEvent[] = [];
     
-    if (Array.isArray(result.events)) {
-      for (const event of result.events) {
-        if (this.isValidEvent(event)) {
-          events.push({
-            id: this.generateEventId(),
-            title: String(event.title).trim(),
-            description: String(event.description || '').trim(),
-            date: this.validateDate(event.date),
-            time: event.time ? String(event.time).trim() : undefined,
-            type: this.validateEventType(event.type),
-            priority: this.validatePriority(event.priority),
-            location: event.location ? String(event.location).trim() : undefined,
-          });
-        }
+    for (const event of result.events) {
+      if (this.isValidEvent(event)) {
+        events.push({
+          id: typeof event.id === 'string' && event.id ? event.id : this.generateEventId(),
+          title: String(event.title).trim(),
+          description: String(event.description || '').trim(),
+          date: this.validateDate(event.date),
+          time: event.time ? String(event.time).trim() : undefined,
+          type: this.validateEventType(event.type),
+          priority: this.validatePriority(event.priority),
+          location: event.location ? String(event.location).trim() : undefined,
+          duration: this.validateDuration(event.duration),
+          recurrence: normalizeRecurrence(event.recurrence),
+          dateExpression: typeof event.dateExpression === 'string' && event.dateExpression.trim()
+            ? event.dateExpression.trim()
+            : undefined,
+          confidence: this.validateConfidence(event.confidence),
+          source: this.validateSource(event.source),
+        });
       }
     }
 
@@ -142,15 +345,20 @@ Return only valid JSON, no additional text or explanations.`;
       instructor: result.instructor ? String(result.instructor).trim() : undefined,
       semester: result.semester ? String(result.semester).trim() : undefined,
       year: result.year ? Number(result.year) : undefined,
+      timeZone: typeof result.timeZone === 'string' && isValidTimeZone(result.timeZone.trim())
+        ? result.timeZone.trim()
+        : undefined,
+      term: normalizeTerm(result.term),
     };
   }
 
   /**
    * Validate if an event object has required fields
    */
-  private isValidEvent(event: any): boolean {
-    return event && 
-           typeof event.title === 'string' && 
+  private isValidEvent(value: unknown): value is ValidExtractedEvent {
+    if (!value || typeof value !== 'object') return false;
+    const event = value as RawExtractedEvent;
+    return typeof event.title === 'string' && 
            event.title.trim().length > 0 &&
            typeof event.date === 'string' &&
            this.isValidDateFormat(event.date);
@@ -180,7 +388,7 @@ Return only valid JSON, no additional text or explanations.`;
   /**
    * Validate event type
    */
-  private validateEventType(type: string): SyllabusEvent['type'] {
+  private validateEventType(type: unknown): SyllabusEvent['type'] {
     const validTypes = ['assignment', 'exam', 'reading', 'lecture', 'project', 'quiz', 'other'];
     const lowerType = String(type).toLowerCase();
     return validTypes.includes(lowerType) ? lowerType as SyllabusEvent['type'] : 'other';
@@ -189,12 +397,40 @@ Return only valid JSON, no additional text or explanations.`;
   /**
    * Validate priority level
    */
-  private validatePriority(priority: string): SyllabusEvent['priority'] {
+  private validatePriority(priority: unknown): SyllabusEvent['priority'] {
     const validPriorities = ['high', 'medium', 'low'];
     const lowerPriority = String(priority).toLowerCase();
     return validPriorities.includes(lowerPriority) ? lowerPriority as SyllabusEvent['priority'] : 'medium';
   }
 
+  /**
+   * Validate duration in minutes
+   */
+  private validateDuration(duration: unknown): number | undefined {
+    const minutes = Number(duration);
+    return Number.isFinite(minutes) && minutes > 0 ? Math.round(minutes) : undefined;
+  }
+
+  /**
+   * Validate a 0-1 confidence, accepting percentages
+   */
+  private validateConfidence(confidence: unknown): number | undefined {
+    const value = Number(confidence);
+    if (confidence === null || confidence === undefined || !Number.isFinite(value) || value < 0) return undefined;
+    return Math.min(value > 1 ? value / 100 : value, 1);
+  }
+
+  /**
+   * Validate the quoted source text
+   */
+  private validateSource(source: unknown): EventSource | undefined {
+    const text = typeof source === 'string'
+      ? source
+      : source && typeof source === 'object' ? (source as { text?: unknown }).text : undefined;
+    if (typeof text !== 'string' || !text.trim()) return undefined;
+    return { text: text.trim().slice(0, MAX_SOURCE_LENGTH) };
+  }
+
   /**
    * Generate unique event ID
    */
@@ -203,45 +439,29 @@ Return only valid JSON, no additional text or explanations.`;
   }
 
   /**
-   * Fallback extraction using GPT-3.5-turbo for cost optimization
+   * Extraction that retries with the configured fallback model (e.g. a cheaper or smaller one)
    */
-  async extractEventsWithFallback(syllabusText: string): Promise<ProcessedSyllabus> {
+  async extractEventsWithFallback(syllabusText: string, listener: ExtractionListener = {}): Promise<ProcessedSyllabus> {
     try {
-      // Try GPT-4 first
-      return await this.extractEvents(syllabusText);
+      return await this.extractEvents(syllabusText, listener);
     } catch (error) {
-      console.warn('GPT-4 failed, trying GPT-3.5-turbo:', error);
-      
-      try {
-        const prompt = this.createExtractionPrompt(syllabusText);
-        
-        const response = await this.openai.chat.completions.create({
-          model: 'gpt-3.5-turbo',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expert academic assistant specializing in syllabus analysis. Return only valid JSON responses.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.1,
-          max_tokens: 2000,
-        });
+      const { model, fallbackModel, fallbackMaxTokens } = this.config;
+      if (!fallbackModel || fallbackModel === model) {
+        console.error(`${model} failed:`, error);
+        throw new LLMRequestError('AI processing failed. Please try again or check your syllabus format.', isTransientError(error));
+      }
 
-        const content = response.choices[0]?.message?.content;
-        if (!content) {
-          throw new Error('No response from OpenAI');
-        }
+      console.warn(`${model} failed, trying ${fallbackModel}:`, error);
+      // The fallback reports every section again
+      listener.onEventsReset?.();
 
-        const parsedResult = JSON.parse(content);
+      try {
+        const parsedResult = await this.extractInChunks(syllabusText, fallbackModel, fallbackMaxTokens, listener);
         return this.validateAndCleanResult(parsedResult);
 
       } catch (fallbackError) {
-        console.error('Both GPT-4 and GPT-3.5-turbo failed:', fallbackError);
-        throw new Error('AI processing failed. Please try again or check your syllabus format.');
+        console.error(`Both ${model} and ${fallbackModel} failed:`, fallbackError);
+        throw new LLMRequestError('AI processing failed. Please try again or check your syllabus format.', isTransientError(fallbackError));
       }
     }
   }
@@ -0,0 +1,214 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+// A positioned run of text on a page, in PDF user-space units (points)
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+// A horizontal stretch of a line separated from its neighbours by a wide gap
+interface Cell {
+  text: string;
+  x: number;
+}
+
+interface Line {
+  y: number;
+  fontSize: number;
+  cells: Cell[];
+}
+
+// Gaps wider than this many font sizes split a line into table cells
+const CELL_GAP_RATIO = 1.2;
+// Cells this close (in points) horizontally belong to the same column
+const COLUMN_TOLERANCE = 12;
+// A table needs at least this many multi-cell rows
+const MIN_TABLE_ROWS = 2;
+
+/**
+ * Open a PDF with pdf.js
+ */
+export async function loadPDFDocument(buffer: Buffer): Promise<PDFDocumentProxy> {
+  // Dynamic import to avoid build issues
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  return pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    useSystemFonts: true,
+  }).promise;
+}
+
+/**
+ * Group text runs into lines by baseline, top to bottom, splitting each line into cells at wide gaps
+ */
+function buildLines(runs: TextRun[]): Line[] {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: { y: number; fontSize: number; runs: TextRun[] }[] = [];
+
+  for (const run of sorted) {
+    const line = lines.find(l => Math.abs(l.y - run.y) <= Math.max(l.fontSize, run.fontSize) * 0.5);
+    if (line) {
+      line.runs.push(run);
+      line.fontSize = Math.max(line.fontSize, run.fontSize);
+    } else {
+      lines.push({ y: run.y, fontSize: run.fontSize, runs: [run] });
+    }
+  }
+
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map(line => {
+      const cells: Cell[] = [];
+      let previousEnd = -Infinity;
+
+      for (const run of line.runs.sort((a, b) => a.x - b.x)) {
+        const gap = run.x - previousEnd;
+        const current = cells[cells.length - 1];
+
+        if (!current || gap > line.fontSize * CELL_GAP_RATIO) {
+          cells.push({ text: run.text, x: run.x });
+        } else {
+          current.text += gap > line.fontSize * 0.15 && !current.text.endsWith(' ') ? ` ${run.text}` : run.text;
+        }
+        previousEnd = Math.max(previousEnd, run.x + run.width);
+      }
+
+      return {
+        y: line.y,
+        fontSize: line.fontSize,
+        cells: cells.map(cell => ({ ...cell, text: cell.text.replace(/\s+/g, ' ').trim() })).filter(cell => cell.text),
+      };
+    })
+    .filter(line => line.cells.length > 0);
+}
+
+/**
+ * Index of the column a cell starts in, or -1 when it lines up with none
+ */
+function columnIndex(columns: number[], x: number): number {
+  return columns.findIndex(column => Math.abs(column - x) <= COLUMN_TOLERANCE);
+}
+
+/**
+ * Merge a row's cell positions into the table's column anchors
+ */
+function addColumns(columns: number[], cells: Cell[]): number[] {
+  const merged = [...columns];
+  for (const cell of cells) {
+    if (columnIndex(merged, cell.x) === -1) merged.push(cell.x);
+  }
+  return merged.sort((a, b) => a - b);
+}
+
+/**
+ * Render table rows as a Markdown table; cells are placed by column position
+ */
+function renderTable(rows: Line[], columns: number[]): string {
+  const grid: string[][] = [];
+
+  for (const row of rows) {
+    // A lone cell away from the first column is wrapped text from the row above
+    const isContinuation = row.cells.length === 1 && grid.length > 0 && columnIndex(columns, row.cells[0].x) > 0;
+    const target = isContinuation ? grid[grid.length - 1] : Array(columns.length).fill('');
+
+    for (const cell of row.cells) {
+      let index = columnIndex(columns, cell.x);
+      if (index === -1) {
+        // Fall back to the nearest column to the left
+        index = Math.max(0, columns.filter(column => column <= cell.x).length - 1);
+      }
+      target[index] = target[index] ? `${target[index]} ${cell.text}` : cell.text;
+    }
+
+    if (!isContinuation) grid.push(target);
+  }
+
+  const toLine = (cells: string[]) => `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [
+    toLine(grid[0]),
+    `|${Array(columns.length).fill(' --- ').join('|')}|`,
+    ...grid.slice(1).map(toLine),
+  ].join('\n');
+}
+
+/**
+ * Turn a page's lines into text, emitting aligned multi-column runs as Markdown tables
+ */
+function renderPage(lines: Line[]): string {
+  const blocks: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].cells.length < 2) {
+      blocks.push(lines[index].cells[0].text);
+      index++;
+      continue;
+    }
+
+    let columns = addColumns([], lines[index].cells);
+    const rows: Line[] = [lines[index]];
+    let end = index + 1;
+
+    while (end < lines.length) {
+      const line = lines[end];
+      const previous = rows[rows.length - 1];
+      const closeBelow = previous.y - line.y <= Math.max(previous.fontSize, line.fontSize) * 3;
+      const aligned = line.cells.filter(cell => columnIndex(columns, cell.x) !== -1).length;
+
+      const isRow = line.cells.length >= 2 && aligned >= Math.min(2, line.cells.length);
+      const isContinuation = line.cells.length === 1 && columnIndex(columns, line.cells[0].x) > 0;
+      if (!closeBelow || (!isRow && !isContinuation)) break;
+
+      if (isRow) columns = addColumns(columns, line.cells);
+      rows.push(line);
+      end++;
+    }
+
+    const multiCellRows = rows.filter(row => row.cells.length >= 2).length;
+    if (multiCellRows >= MIN_TABLE_ROWS && columns.length >= 2) {
+      blocks.push(`\n${renderTable(rows, columns)}\n`);
+    } else {
+      rows.forEach(row => blocks.push(row.cells.map(cell => cell.text).join('  ')));
+    }
+    index = end;
+  }
+
+  return blocks.join('\n');
+}
+
+/**
+ * Extract PDF text with line breaks kept and schedule tables rebuilt from text positions
+ */
+export async function extractLayoutText(buffer: Buffer): Promise<{ text: string; numpages: number }> {
+  const document = await loadPDFDocument(buffer);
+
+  try {
+    const pages: string[] = [];
+
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      const runs: TextRun[] = content.items
+        .filter((item): item is TextItem => 'str' in item && item.str.trim().length > 0)
+        .map(item => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height || 10,
+        }));
+
+      pages.push(renderPage(buildLines(runs)));
+      page.cleanup();
+    }
+
+    return { text: pages.join('\n\f\n'), numpages: document.numPages };
+  } finally {
+    await document.destroy();
+  }
+}
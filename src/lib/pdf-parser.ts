@@ -1,3 +1,8 @@
+import { OCRProcessor } from './ocr';
+import { extractLayoutText } from './pdf-layout';
+import { cleanStructuredText } from './html-text';
+import { ExtractionListener, OCRReport } from '@/types/syllabus';
+
 export interface PDFParseResult {
   text: string;
   numpages: number;
@@ -5,6 +10,15 @@ export interface PDFParseResult {
   metadata?: any;
 }
 
+// 'layout' keeps line breaks and rebuilds tables from text positions; 'plain' flattens all whitespace
+export type PDFExtractionMode = 'layout' | 'plain';
+
+export interface PDFTextResult {
+  text: string;
+  ocr?: OCRReport;
+  pages?: string[]; // cleaned text of each page, for locating quoted source text
+}
+
 export class PDFProcessor {
   /**
    * Extract text content from PDF buffer
@@ -49,6 +63,25 @@ export class PDFProcessor {
       .trim();
   }
 
+  /**
+   * Extract text with line breaks kept and schedule tables rendered as Markdown
+   */
+  static async extractLayoutText(buffer: Buffer): Promise<PDFParseResult> {
+    try {
+      return await extractLayoutText(buffer);
+    } catch (error) {
+      console.error('PDF layout extraction error:', error);
+      throw new Error(`Failed to parse PDF layout: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Extraction mode from PDF_EXTRACTION_MODE, defaulting to layout
+   */
+  static getExtractionMode(): PDFExtractionMode {
+    return process.env.PDF_EXTRACTION_MODE === 'plain' ? 'plain' : 'layout';
+  }
+
   /**
    * Validate PDF file before processing
    */
@@ -75,27 +108,55 @@ export class PDFProcessor {
   }
 
   /**
-   * Extract text with preprocessing and validation
+   * Extract text with preprocessing and validation, falling back to OCR for scanned PDFs
    */
-  static async processForAI(buffer: Buffer): Promise<string> {
+  static async processForAI(
+    buffer: Buffer,
+    mode: PDFExtractionMode = this.getExtractionMode(),
+    onProgress?: ExtractionListener['onProgress']
+  ): Promise<PDFTextResult> {
     // Validate PDF
     if (!this.validatePDFBuffer(buffer)) {
       throw new Error('Invalid PDF file format');
     }
 
-    // Check if scanned
+    // Scanned PDFs have little or no text layer, so recognize the page images instead
     if (await this.isScannedPDF(buffer)) {
-      throw new Error('Scanned PDFs are not currently supported. Please provide a text-based PDF.');
+      const { text, pages, averageConfidence } = await OCRProcessor.recognizePDF(buffer, { onProgress });
+      const cleanedText = this.cleanText(text);
+
+      if (cleanedText.length < 50) {
+        throw new Error('Could not recognize enough text in the scanned PDF. Try a clearer scan.');
+      }
+
+      return {
+        text: cleanedText,
+        ocr: { pages, averageConfidence },
+        pages: text.split('\f').map(page => this.cleanText(page)),
+      };
     }
 
-    // Extract and clean text
-    const result = await this.extractText(buffer);
-    const cleanedText = this.cleanText(result.text);
+    // Extract and clean text, falling back to plain extraction if pdf.js can't lay the pages out
+    // Pages are separated by form feeds in layout text; plain extraction has no reliable page breaks
+    let cleanedText: string | undefined;
+    let pages: string[] | undefined;
+    if (mode === 'layout') {
+      try {
+        const layoutText = (await this.extractLayoutText(buffer)).text;
+        cleanedText = cleanStructuredText(layoutText);
+        pages = layoutText.split('\f').map(cleanStructuredText);
+      } catch {
+        cleanedText = undefined;
+      }
+    }
+    if (cleanedText === undefined) {
+      cleanedText = this.cleanText((await this.extractText(buffer)).text);
+    }
 
     if (cleanedText.length < 50) {
       throw new Error('PDF appears to contain very little text content');
     }
 
-    return cleanedText;
+    return { text: cleanedText, pages };
   }
-}
\ No newline at end of file
+}
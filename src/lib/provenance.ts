@@ -0,0 +1,77 @@
+import { SyllabusEvent } from '@/types/syllabus';
+
+// Events below this confidence are highlighted for review
+export const LOW_CONFIDENCE = 0.6;
+// A quote that can't be found in the document may have been invented
+const UNVERIFIED_SOURCE_CONFIDENCE = 0.4;
+// Share of a quote's word triples that must appear in the text for it to count as found
+const MIN_QUOTE_OVERLAP = 0.6;
+
+export interface SourceDocument {
+  text: string;
+  pages?: string[];
+}
+
+/**
+ * Lowercase words only, so quotes match across reflowed lines, table pipes and punctuation
+ */
+export function normalizeWords(text: string): string[] {
+  return text.toLowerCase().replace(/[’‘]/g, "'").split(/[^a-z0-9']+/).filter(Boolean);
+}
+
+/**
+ * Share of a quote found in the text: 1 for an exact match, otherwise the share of its word triples
+ */
+function quoteOverlap(quote: string[], text: string[]): number {
+  const joinedText = ` ${text.join(' ')} `;
+  if (joinedText.includes(` ${quote.join(' ')} `)) return 1;
+  if (quote.length < 3) return 0;
+
+  const triples = new Set<string>();
+  for (let i = 0; i + 3 <= text.length; i++) {
+    triples.add(text.slice(i, i + 3).join(' '));
+  }
+  let found = 0;
+  for (let i = 0; i + 3 <= quote.length; i++) {
+    if (triples.has(quote.slice(i, i + 3).join(' '))) found++;
+  }
+  return found / (quote.length - 2);
+}
+
+/**
+ * Whether an event should be flagged for review
+ */
+export function isLowConfidence(event: SyllabusEvent): boolean {
+  return event.confidence !== undefined && event.confidence < LOW_CONFIDENCE;
+}
+
+/**
+ * Check each event's quoted source against the document: add the page it appears on,
+ * and lower the confidence of events whose quote isn't in the document
+ */
+export function attachProvenance(events: SyllabusEvent[], document: SourceDocument): SyllabusEvent[] {
+  const documentWords = normalizeWords(document.text);
+  const pageWords = document.pages && document.pages.length > 1 ? document.pages.map(normalizeWords) : undefined;
+
+  return events.map(event => {
+    if (!event.source) return event;
+    const quote = normalizeWords(event.source.text);
+    if (quote.length === 0) return event;
+
+    if (quoteOverlap(quote, documentWords) < MIN_QUOTE_OVERLAP) {
+      return { ...event, confidence: Math.min(event.confidence ?? 1, UNVERIFIED_SOURCE_CONFIDENCE) };
+    }
+
+    if (!pageWords) return event;
+    let page: number | undefined;
+    let best = 0;
+    pageWords.forEach((words, index) => {
+      const overlap = quoteOverlap(quote, words);
+      if (overlap > best) {
+        best = overlap;
+        page = index + 1;
+      }
+    });
+    return page ? { ...event, source: { ...event.source, page } } : event;
+  });
+}
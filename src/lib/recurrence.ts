@@ -0,0 +1,178 @@
+import { SyllabusEvent, EventRecurrence, Weekday } from '@/types/syllabus';
+import { addDays, getWeekday, isISODate, parseISODate } from './date-utils';
+import { zonedTimeToUtc } from './timezone';
+
+// Series without an end date run this far past their first occurrence, on screen and in exports
+const DEFAULT_HORIZON_DAYS = 20 * 7;
+const MAX_OCCURRENCES = 500;
+
+/**
+ * Weekdays in RFC 5545 week order (WKST=MO)
+ */
+const WEEK_ORDER: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+/**
+ * Normalize a recurrence object coming from the AI model or user input.
+ * Returns undefined when it does not describe a usable series.
+ */
+export function normalizeRecurrence(value: unknown): EventRecurrence | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const input = value as Record<string, unknown>;
+
+  const frequency = String(input.frequency || '').toLowerCase();
+  if (frequency !== 'weekly' && frequency !== 'biweekly') return undefined;
+
+  const days = Array.isArray(input.daysOfWeek) ? input.daysOfWeek : [];
+  const daysOfWeek = WEEK_ORDER.filter(day =>
+    days.some((d: unknown) => String(d).trim().toUpperCase().slice(0, 2) === day)
+  );
+  if (daysOfWeek.length === 0) return undefined;
+
+  const recurrence: EventRecurrence = { frequency, daysOfWeek };
+
+  if (typeof input.until === 'string' && isISODate(input.until)) {
+    recurrence.until = input.until;
+  }
+
+  if (Array.isArray(input.exceptions)) {
+    const exceptions = input.exceptions
+      .map((d: unknown) => String(d).trim())
+      .filter((d: string) => isISODate(d));
+    if (exceptions.length > 0) {
+      recurrence.exceptions = Array.from(new Set<string>(exceptions)).sort();
+    }
+  }
+
+  return recurrence;
+}
+
+/**
+ * Last date a series can occur on: its `until`, or the default horizon when it has none
+ */
+export function getSeriesEnd(event: SyllabusEvent): string {
+  return event.recurrence?.until || addDays(event.date, DEFAULT_HORIZON_DAYS);
+}
+
+/**
+ * List the dates a recurring event occurs on, starting at `event.date`.
+ * Like RFC 5545, the start date is always an occurrence.
+ */
+export function getOccurrenceDates(event: SyllabusEvent, horizonEnd?: string): string[] {
+  const recurrence = event.recurrence;
+  if (!recurrence) return [event.date];
+
+  const end = recurrence.until || horizonEnd || getSeriesEnd(event);
+  const exceptions = new Set(recurrence.exceptions || []);
+  const interval = recurrence.frequency === 'biweekly' ? 2 : 1;
+
+  // Monday of the week containing the first occurrence
+  const weekStart = addDays(event.date, -WEEK_ORDER.indexOf(getWeekday(event.date)));
+  const dates: string[] = [];
+
+  if (!exceptions.has(event.date)) {
+    dates.push(event.date);
+  }
+
+  for (let week = 0; dates.length < MAX_OCCURRENCES; week += interval) {
+    const weekMonday = addDays(weekStart, week * 7);
+    if (weekMonday > end) break;
+
+    for (const day of recurrence.daysOfWeek) {
+      const date = addDays(weekMonday, WEEK_ORDER.indexOf(day));
+      if (date <= event.date || date > end || exceptions.has(date)) continue;
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Expand recurring events into one event per occurrence for display.
+ * Occurrences keep the series id so edits apply to the whole series.
+ */
+export function expandEvents(events: SyllabusEvent[], horizonEnd?: string): SyllabusEvent[] {
+  return events.flatMap(event =>
+    event.recurrence
+      ? getOccurrenceDates(event, horizonEnd).map(date => ({ ...event, date }))
+      : [event]
+  );
+}
+
+/**
+ * Build the RRULE property value for a series, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH
+ * `until` is the already-formatted UNTIL value so callers can match their DTSTART form.
+ */
+export function buildRRule(recurrence: EventRecurrence, until?: string): string {
+  const parts = [
+    'FREQ=WEEKLY',
+    ...(recurrence.frequency === 'biweekly' ? ['INTERVAL=2'] : []),
+    `BYDAY=${recurrence.daysOfWeek.join(',')}`,
+    'WKST=MO',
+  ];
+
+  if (until) {
+    parts.push(`UNTIL=${until}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * Build the RRULE and EXDATE lines for a recurring event. Timed events with a
+ * time zone use TZID exception dates and a UTC UNTIL; without one they stay floating.
+ */
+export function buildRecurrenceLines(event: SyllabusEvent, timeZone?: string): string[] {
+  const recurrence = event.recurrence;
+  if (!recurrence) return [];
+
+  const toDateValue = (date: string) => date.replace(/-/g, '');
+  const toDateTimeValue = (date: string) => `${toDateValue(date)}T${event.time!.replace(':', '')}00`;
+
+  // Open series get the same end as on screen rather than repeating forever
+  const seriesEnd = getSeriesEnd(event);
+  let until: string;
+  if (!event.time) {
+    until = toDateValue(seriesEnd);
+  } else if (timeZone) {
+    until = new Date(zonedTimeToUtc(seriesEnd, event.time, timeZone))
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .split('.')[0] + 'Z';
+  } else {
+    until = toDateTimeValue(seriesEnd);
+  }
+
+  const lines = [`RRULE:${buildRRule(recurrence, until)}`];
+
+  if (recurrence.exceptions?.length) {
+    if (!event.time) {
+      lines.push(`EXDATE;VALUE=DATE:${recurrence.exceptions.map(toDateValue).join(',')}`);
+    } else {
+      const tzParam = timeZone ? `;TZID=${timeZone}` : '';
+      lines.push(`EXDATE${tzParam}:${recurrence.exceptions.map(toDateTimeValue).join(',')}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Human readable summary, e.g. "Every other week on Tue, Thu until 12/6/2024"
+ */
+export function describeRecurrence(recurrence: EventRecurrence): string {
+  const dayNames: Record<Weekday, string> = {
+    MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun',
+  };
+  const days = recurrence.daysOfWeek.map(day => dayNames[day]).join(', ');
+  let summary = `${recurrence.frequency === 'biweekly' ? 'Every other week' : 'Weekly'} on ${days}`;
+
+  if (recurrence.until) {
+    summary += ` until ${parseISODate(recurrence.until).toLocaleDateString('en-US', { timeZone: 'UTC' })}`;
+  }
+  if (recurrence.exceptions?.length) {
+    summary += ` (${recurrence.exceptions.length} skipped)`;
+  }
+
+  return summary;
+}
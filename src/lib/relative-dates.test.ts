@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { SyllabusEvent, TermInfo } from '@/types/syllabus';
+import { getMeetingDates, getTermEnd, getTermWeek, resolveEventDates, resolveRelativeDate } from './relative-dates';
+
+// Starts on a Wednesday, so week 1 begins two days before the first class
+const TERM: TermInfo = {
+  start: '2025-01-15',
+  end: '2025-05-02',
+  meetingDays: ['MO', 'WE'],
+  breaks: [
+    { name: 'MLK Day', kind: 'holiday', start: '2025-01-20', end: '2025-01-20' },
+    { name: 'Spring Break', kind: 'break', start: '2025-03-10', end: '2025-03-14' },
+  ],
+};
+
+function makeEvent(overrides: Partial<SyllabusEvent> = {}): SyllabusEvent {
+  return {
+    id: 'event-1',
+    title: 'Quiz',
+    description: '',
+    date: '2025-01-01',
+    type: 'quiz',
+    priority: 'medium',
+    ...overrides,
+  };
+}
+
+describe('week and weekday', () => {
+  it.each([
+    ['Week 1 Wednesday', '2025-01-15'],
+    ['Week 3 Monday', '2025-01-27'],
+    ['week 3, Mon.', '2025-01-27'],
+    ['Week 10 Fri', '2025-03-21'],
+    ['Thursday of week 2', '2025-01-23'],
+  ])('resolves "%s"', (phrase, date) => {
+    expect(resolveRelativeDate(phrase, TERM)).toBe(date);
+  });
+
+  it('counts week 1 from the Monday before a mid-week start', () => {
+    // Before the first class, but still the date the syllabus names
+    expect(resolveRelativeDate('Week 1 Monday', TERM)).toBe('2025-01-13');
+    expect(getTermWeek(TERM, '2025-01-13')).toBe(1);
+    expect(getTermWeek(TERM, '2025-01-12')).toBe(0);
+    expect(getTermWeek(TERM, '2025-01-20')).toBe(2);
+  });
+
+  it('keeps counting past the last day of class', () => {
+    expect(resolveRelativeDate('Week 17 Monday', TERM)).toBe('2025-05-05');
+  });
+
+  it('takes the first meeting of a week given alone, skipping holidays', () => {
+    expect(resolveRelativeDate('Week 2', TERM)).toBe('2025-01-22');
+    expect(resolveRelativeDate('Week 4', TERM)).toBe('2025-02-03');
+  });
+
+  it('falls back to the Monday of a week with no meetings', () => {
+    expect(resolveRelativeDate('Week 9', TERM)).toBe('2025-03-10');
+  });
+});
+
+describe('sessions', () => {
+  it('lists meetings on meeting days, skipping holidays and breaks', () => {
+    const meetings = getMeetingDates(TERM);
+    expect(meetings.slice(0, 4)).toEqual(['2025-01-15', '2025-01-22', '2025-01-27', '2025-01-29']);
+    expect(meetings).not.toContain('2025-03-10');
+    expect(meetings).not.toContain('2025-03-12');
+    expect(meetings[meetings.length - 1]).toBe('2025-04-30');
+  });
+
+  it.each([
+    ['Session 1', '2025-01-15'],
+    ['Class 2', '2025-01-22'],
+    ['3rd lecture', '2025-01-27'],
+    ['first day of class', '2025-01-15'],
+    ['Classes begin', '2025-01-15'],
+    ['last day of classes', '2025-04-30'],
+  ])('resolves "%s"', (phrase, date) => {
+    expect(resolveRelativeDate(phrase, TERM)).toBe(date);
+  });
+
+  it('counts sessions after a break from the next meeting', () => {
+    const meetings = getMeetingDates(TERM);
+    const afterBreak = meetings.indexOf('2025-03-17') + 1;
+    expect(resolveRelativeDate(`Session ${afterBreak}`, TERM)).toBe('2025-03-17');
+    expect(resolveRelativeDate(`Session ${afterBreak - 1}`, TERM)).toBe('2025-03-05');
+  });
+
+  it('has no date for a session after the last meeting', () => {
+    const count = getMeetingDates(TERM).length;
+    expect(resolveRelativeDate(`Session ${count}`, TERM)).toBe('2025-04-30');
+    expect(resolveRelativeDate(`Session ${count + 1}`, TERM)).toBeUndefined();
+  });
+
+  it('meets every weekday and runs 16 weeks when the term leaves them out', () => {
+    const term = { start: '2025-01-15' };
+    expect(getTermEnd(term)).toBe('2025-05-06');
+    expect(resolveRelativeDate('Session 3', term)).toBe('2025-01-17');
+  });
+});
+
+describe('resolveEventDates', () => {
+  it('re-dates events from their date expression', () => {
+    const [event] = resolveEventDates([makeEvent({ dateExpression: 'Week 3 Monday' })], TERM);
+    expect(event.date).toBe('2025-01-27');
+    expect(event.dateExpression).toBe('Week 3 Monday');
+  });
+
+  it('leaves events without an expression, or one it can\'t resolve, unchanged', () => {
+    const events = [
+      makeEvent(),
+      makeEvent({ id: 'event-2', dateExpression: 'Session 99' }),
+      makeEvent({ id: 'event-3', dateExpression: 'after the midterm' }),
+    ];
+    const resolved = resolveEventDates(events, TERM);
+    resolved.forEach((event, i) => expect(event).toBe(events[i]));
+  });
+
+  it('resolves nothing without a valid term start', () => {
+    expect(resolveRelativeDate('Week 3 Monday', { start: 'soon' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,181 @@
+import { NonInstructionalKind, NonInstructionalPeriod, SyllabusEvent, TermInfo, Weekday } from '@/types/syllabus';
+import { addDays, getWeekday, isISODate, parseISODate, WEEKDAYS } from './date-utils';
+
+// Used when the syllabus gives no last day of class
+const DEFAULT_TERM_WEEKS = 16;
+
+export const NON_INSTRUCTIONAL_KINDS: NonInstructionalKind[] = ['holiday', 'break', 'reading-day', 'finals'];
+
+const WEEKDAY_NAMES: Record<string, Weekday> = {
+  mon: 'MO', tue: 'TU', wed: 'WE', thu: 'TH', fri: 'FR', sat: 'SA', sun: 'SU',
+};
+
+const WEEKDAY_WORD = '(mon|tue|wed|thu|fri|sat|sun)[a-z]*\\.?';
+const ORDINALS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+};
+const NUMBER = '(\\d{1,2}|first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth)(?:st|nd|rd|th)?';
+
+const WEEK_AND_DAY = new RegExp(`\\bweek\\s+${NUMBER}\\b[\\s,:-]*(?:on\\s+)?${WEEKDAY_WORD}`, 'i');
+const DAY_OF_WEEK = new RegExp(`\\b${WEEKDAY_WORD}\\s+(?:of|in)\\s+week\\s+${NUMBER}\\b`, 'i');
+const WEEK_ONLY = new RegExp(`\\b(?:week\\s+${NUMBER}|${NUMBER}\\s+week)\\b`, 'i');
+const SESSION = new RegExp(`\\b(?:(?:session|class|lecture|meeting|day)\\s+(?:#\\s*)?${NUMBER}|${NUMBER}\\s+(?:session|class|lecture|meeting))\\b`, 'i');
+const FIRST_CLASS = /\b(first\s+(day\s+of\s+)?(class(es)?|lecture|session|meeting)|classes\s+(begin|start))\b/i;
+const LAST_CLASS = /\b(last\s+(day\s+of\s+)?(class(es)?|lecture|session|meeting)|classes\s+end)\b/i;
+
+/**
+ * Parse "3", "3rd" or "third" as a number
+ */
+function parseNumber(value: string): number {
+  return ORDINALS[value.toLowerCase()] || parseInt(value, 10);
+}
+
+/**
+ * Last day of the term, defaulting to 16 weeks after the start
+ */
+export function getTermEnd(term: TermInfo): string {
+  return term.end || addDays(term.start, DEFAULT_TERM_WEEKS * 7 - 1);
+}
+
+/**
+ * Date of a weekday in a given week of the term; week 1 is the Monday-based week containing the start
+ */
+export function weekdayInWeek(term: TermInfo, week: number, weekday: Weekday): string {
+  const startWeekday = WEEKDAYS.indexOf(getWeekday(term.start));
+  const monday = addDays(term.start, -((startWeekday + 6) % 7));
+  const offset = (WEEKDAYS.indexOf(weekday) + 6) % 7;
+  return addDays(monday, (week - 1) * 7 + offset);
+}
+
+/**
+ * Week of the term a date falls in, counted like weekdayInWeek; 0 or less before the term starts
+ */
+export function getTermWeek(term: TermInfo, date: string): number {
+  const weekOne = weekdayInWeek(term, 1, 'MO');
+  const days = Math.round((parseISODate(date).getTime() - parseISODate(weekOne).getTime()) / (24 * 60 * 60 * 1000));
+  return Math.floor(days / 7) + 1;
+}
+
+/**
+ * The holiday, break, reading day or finals window a date falls in, if any
+ */
+export function findNonInstructionalPeriod(term: TermInfo, date: string): NonInstructionalPeriod | undefined {
+  const periods = (term.breaks || []).filter(period => date >= period.start && date <= period.end);
+  // A holiday inside the finals window is the more useful answer
+  const period = periods.find(p => p.kind !== 'finals') || periods[0];
+  if (period) return period;
+
+  if (term.noClassDates?.includes(date)) {
+    return { name: 'No class', kind: 'holiday', start: date, end: date };
+  }
+  return undefined;
+}
+
+/**
+ * Every class meeting from the first to the last day of the term
+ */
+export function getMeetingDates(term: TermInfo): string[] {
+  const days = term.meetingDays && term.meetingDays.length > 0 ? term.meetingDays : ['MO', 'TU', 'WE', 'TH', 'FR'];
+  const end = getTermEnd(term);
+  const dates: string[] = [];
+
+  for (let date = term.start; date <= end; date = addDays(date, 1)) {
+    const period = findNonInstructionalPeriod(term, date);
+    if (days.includes(getWeekday(date)) && (!period || period.kind === 'finals')) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Convert a phrase such as "Week 3 Monday", "Session 12" or "first day of class" to a date,
+ * or undefined when the phrase isn't a term-relative reference
+ */
+export function resolveRelativeDate(phrase: string, term: TermInfo): string | undefined {
+  if (!isISODate(term.start)) return undefined;
+
+  const weekAndDay = phrase.match(WEEK_AND_DAY);
+  if (weekAndDay) {
+    return weekdayInWeek(term, parseNumber(weekAndDay[1]), WEEKDAY_NAMES[weekAndDay[2].slice(0, 3).toLowerCase()]);
+  }
+
+  const dayOfWeek = phrase.match(DAY_OF_WEEK);
+  if (dayOfWeek) {
+    return weekdayInWeek(term, parseNumber(dayOfWeek[2]), WEEKDAY_NAMES[dayOfWeek[1].slice(0, 3).toLowerCase()]);
+  }
+
+  const meetings = getMeetingDates(term);
+
+  if (FIRST_CLASS.test(phrase)) return meetings[0];
+  if (LAST_CLASS.test(phrase)) return meetings[meetings.length - 1];
+
+  const session = phrase.match(SESSION);
+  if (session) {
+    return meetings[parseNumber(session[1] || session[2]) - 1];
+  }
+
+  // "Week 5" alone means the first class meeting that week
+  const weekOnly = phrase.match(WEEK_ONLY);
+  if (weekOnly) {
+    const week = parseNumber(weekOnly[1] || weekOnly[2]);
+    const monday = weekdayInWeek(term, week, 'MO');
+    return meetings.find(date => date >= monday && date <= addDays(monday, 6)) || monday;
+  }
+
+  return undefined;
+}
+
+/**
+ * Re-date events whose date came from a term-relative phrase, keeping the phrase for review
+ */
+export function resolveEventDates(events: SyllabusEvent[], term: TermInfo): SyllabusEvent[] {
+  return events.map(event => {
+    if (!event.dateExpression) return event;
+    const date = resolveRelativeDate(event.dateExpression, term);
+    return date && date !== event.date ? { ...event, date } : event;
+  });
+}
+
+/**
+ * Validate a term description from the model or the user
+ */
+export function normalizeTerm(input: unknown): TermInfo | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+  const { start, end, meetingDays, noClassDates, breaks } = input as Record<string, unknown>;
+  if (typeof start !== 'string' || !isISODate(start)) return undefined;
+
+  const days = Array.isArray(meetingDays)
+    ? Array.from(new Set(meetingDays.map(day => String(day).slice(0, 2).toUpperCase())))
+        .filter((day): day is Weekday => (WEEKDAYS as string[]).includes(day))
+    : [];
+  const skipped = Array.isArray(noClassDates)
+    ? noClassDates.filter((date): date is string => typeof date === 'string' && isISODate(date))
+    : [];
+  const periods = Array.isArray(breaks) ? breaks.map(normalizePeriod).filter((p): p is NonInstructionalPeriod => !!p) : [];
+
+  return {
+    start,
+    end: typeof end === 'string' && isISODate(end) && parseISODate(end) >= parseISODate(start) ? end : undefined,
+    meetingDays: days.length > 0 ? days : undefined,
+    noClassDates: skipped.length > 0 ? skipped : undefined,
+    breaks: periods.length > 0 ? periods : undefined,
+  };
+}
+
+/**
+ * Validate one holiday or break; a single-day period may omit its end
+ */
+function normalizePeriod(input: unknown): NonInstructionalPeriod | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+  const { name, kind, start, end } = input as Record<string, unknown>;
+  if (typeof start !== 'string' || !isISODate(start)) return undefined;
+
+  const last = typeof end === 'string' && isISODate(end) && end >= start ? end : start;
+  return {
+    name: typeof name === 'string' && name.trim() ? name.trim() : 'No class',
+    kind: (NON_INSTRUCTIONAL_KINDS as unknown[]).includes(kind) ? kind as NonInstructionalKind : 'break',
+    start,
+    end: last,
+  };
+}
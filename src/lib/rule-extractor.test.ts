@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { SyllabusEvent } from '@/types/syllabus';
+import { crossCheckEvents, extractEventsWithRules } from './rule-extractor';
+import { inferEventType } from './event-classifier';
+
+const SYLLABUS = `CS 101: Intro to Programming
+Fall 2024
+Classes begin Aug 26, 2024
+Homework 1 due Sept 15
+Reflection due 10/3
+Week 4 Thursday: Quiz 1
+## Week 6
+Problem Set 3 due Friday 11:59 PM
+Final exam Dec 12 at 9am in Room 101
+Thanksgiving break, no class Nov 28
+Final project report due Jan 6`;
+
+function findEvent(events: SyllabusEvent[], title: string): SyllabusEvent {
+  const event = events.find(e => e.title.startsWith(title));
+  if (!event) throw new Error(`No event titled "${title}" in ${events.map(e => e.title).join(', ')}`);
+  return event;
+}
+
+describe('extractEventsWithRules', () => {
+  const result = extractEventsWithRules(SYLLABUS);
+
+  it('reads the course, semester and term start', () => {
+    expect(result.courseName).toBe('CS 101: Intro to Programming');
+    expect(result.semester).toBe('Fall 2024');
+    expect(result.term).toEqual({ start: '2024-08-26' });
+  });
+
+  it('reads month names with a day ("Sept 15")', () => {
+    expect(findEvent(result.events, 'Homework 1')).toMatchObject({ date: '2024-09-15', type: 'assignment', confidence: 0.7 });
+  });
+
+  it('reads numeric month/day dates ("10/3")', () => {
+    expect(findEvent(result.events, 'Reflection')).toMatchObject({ date: '2024-10-03', type: 'assignment' });
+  });
+
+  it('works out "Week 4 Thursday" from the term start', () => {
+    expect(findEvent(result.events, 'Quiz 1')).toMatchObject({
+      date: '2024-09-19',
+      type: 'quiz',
+      dateExpression: 'Week 4 Thursday',
+      confidence: 0.5,
+    });
+  });
+
+  it('places "due Friday 11:59 PM" in the week of its section', () => {
+    expect(findEvent(result.events, 'Problem Set 3')).toMatchObject({
+      date: '2024-10-04',
+      time: '23:59',
+      dateExpression: 'Week 6 Friday',
+    });
+  });
+
+  it('keeps times and locations and classifies exams', () => {
+    expect(findEvent(result.events, 'Final exam')).toMatchObject({
+      date: '2024-12-12',
+      time: '09:00',
+      location: 'Room 101',
+      type: 'exam',
+      priority: 'high',
+    });
+  });
+
+  it('skips breaks', () => {
+    expect(result.events.some(event => event.date === '2024-11-28')).toBe(false);
+  });
+
+  it('rolls dates early in the year over into the next year in a fall term', () => {
+    expect(findEvent(result.events, 'Final project report')).toMatchObject({ date: '2025-01-06', type: 'project' });
+  });
+
+  it('keeps spring dates in the stated year', () => {
+    const spring = extractEventsWithRules('Spring 2025\nHomework 1 due Jan 20\nMidterm exam 3/5');
+    expect(spring.events.map(event => event.date)).toEqual(['2025-01-20', '2025-03-05']);
+  });
+
+  it('anchors week numbers to a given term', () => {
+    const { events } = extractEventsWithRules('Week 2 Monday: Lab 1 due', { year: 2025, term: { start: '2025-01-15' } });
+    // Week 1 is the week containing the first day, so week 2 starts on the following Monday
+    expect(events[0].date).toBe('2025-01-20');
+  });
+});
+
+describe('inferEventType', () => {
+  it('prefers the more specific kind', () => {
+    expect(inferEventType('Exam review reading')).toBe('exam');
+    expect(inferEventType('Final project presentation')).toBe('project');
+    expect(inferEventType('Pop quiz')).toBe('quiz');
+    expect(inferEventType('Office hours')).toBe('lecture');
+    expect(inferEventType('Campus tour')).toBe('other');
+  });
+});
+
+describe('crossCheckEvents', () => {
+  const ruleEvents = extractEventsWithRules(SYLLABUS).events;
+
+  it('matches AI events by date and type or a similar title', () => {
+    const aiEvents = ruleEvents.map(event => ({ ...event, id: `ai-${event.id}`, title: `${event.title} (AI)` }));
+    const check = crossCheckEvents(aiEvents, ruleEvents);
+
+    expect(check.missedByModel).toEqual([]);
+    expect(check.matchedCount).toBe(ruleEvents.length);
+  });
+
+  it('lists dated events the model missed', () => {
+    const aiEvents = ruleEvents.filter(event => !event.title.startsWith('Reflection'));
+    const check = crossCheckEvents(aiEvents, ruleEvents);
+
+    expect(check.ruleEventCount).toBe(ruleEvents.length);
+    expect(check.matchedCount).toBe(ruleEvents.length - 1);
+    expect(check.missedByModel.map(event => event.date)).toEqual(['2024-10-03']);
+  });
+
+  it('counts an occurrence of an AI recurring event as a match', () => {
+    const lecture: SyllabusEvent = {
+      id: 'lecture',
+      title: 'Lecture',
+      description: '',
+      date: '2024-08-26',
+      type: 'lecture',
+      priority: 'low',
+      recurrence: { frequency: 'weekly', daysOfWeek: ['MO', 'TH'], until: '2024-12-05' },
+    };
+    const check = crossCheckEvents([lecture], extractEventsWithRules('Fall 2024\nLecture on 9/19: recursion').events);
+
+    expect(check.missedByModel).toEqual([]);
+  });
+});
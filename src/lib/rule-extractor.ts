@@ -0,0 +1,328 @@
+import { ProcessedSyllabus, SyllabusEvent, TermInfo, Weekday, ExtractionCrossCheck } from '@/types/syllabus';
+import { inferEventType, defaultPriority } from './event-classifier';
+import { isSameEvent, titleSimilarity } from './event-merge';
+import { addDays, isISODate } from './date-utils';
+import { expandEvents } from './recurrence';
+import { weekdayInWeek } from './relative-dates';
+
+export interface RuleExtractionOptions {
+  year?: number;
+  term?: TermInfo; // anchors "Week N" references
+}
+
+// Rule matches are only a heuristic; stated dates are more reliable than ones worked out from week numbers
+const STATED_DATE_CONFIDENCE = 0.7;
+const INFERRED_DATE_CONFIDENCE = 0.5;
+
+// A date expression found in a piece of text
+interface DateMatch {
+  date: string;
+  index: number;
+  length: number;
+  expression?: string; // the wording of a term-relative date
+  inferred?: boolean; // worked out from a week number or the table row rather than stated
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const WEEKDAY_NAMES: Record<string, Weekday> = {
+  mon: 'MO', tue: 'TU', wed: 'WE', thu: 'TH', fri: 'FR', sat: 'SA', sun: 'SU',
+};
+
+const MONTH_DAY_PATTERN = /\b(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?\s+(\d{1,2})(?:st|nd|rd|th)?\b(?:,?\s+(\d{4}))?/gi;
+const NUMERIC_DATE_PATTERN = /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?\b/g;
+const ISO_DATE_PATTERN = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+const WEEK_DAY_PATTERN = /\bweek\s+(\d{1,2})\b[\s,:-]*(mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?/gi;
+const WEEKDAY_PATTERN = /\b(mon|tue|wed|thu|fri|sat|sun)(?:day|sday|s|nesday|rsday|rs|r|urday)?\b\.?/i;
+const WEEK_HEADING_PATTERN = /^(?:#+\s*)?week\s+(\d{1,2})\b/i;
+const TIME_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)(?=\W|$)|\b([01]?\d|2[0-3]):([0-5]\d)\b|\b(noon|midnight)\b/i;
+const TERM_START_PATTERN = /\b(classes|semester|term|quarter|instruction)\s+(begins?|starts?)\b|\bfirst day of (class|classes|instruction)\b/i;
+const SEMESTER_PATTERN = /\b(fall|autumn|spring|summer|winter)\s+(20\d{2})\b/i;
+
+// Text with no event keyword still counts when it reads as a deadline ("Reflection due 10/3")
+const DEADLINE_WORDS = /\b(due|deadline|submit|submission)\b/i;
+// Breaks and cancellations are dates without an event
+const LOCATION_PATTERN = /\b(?:in|at)\s+((?:room|rm\.?|hall|building|bldg\.?|lab)\s+[\w-]+|[A-Z][\w.]*\s+(?:Hall|Building|Center|Auditorium)(?:\s+\d+\w*)?)/i;
+const NO_CLASS_PATTERN = /\b(no class(es)?|holidays?|break|recess|cancell?ed|reading days?)\b/i;
+
+/**
+ * Build a YYYY-MM-DD date, rejecting impossible ones
+ */
+function toISODate(year: number, month: number, day: number): string | undefined {
+  const value = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return isISODate(value) ? value : undefined;
+}
+
+/**
+ * Find the explicit dates in a piece of text
+ */
+function findDates(text: string, resolveYear: (month: number, explicit?: string) => number): DateMatch[] {
+  const matches: DateMatch[] = [];
+
+  for (const match of Array.from(text.matchAll(ISO_DATE_PATTERN))) {
+    const date = toISODate(Number(match[1]), Number(match[2]), Number(match[3]));
+    if (date) matches.push({ date, index: match.index!, length: match[0].length });
+  }
+
+  for (const match of Array.from(text.matchAll(MONTH_DAY_PATTERN))) {
+    const month = MONTHS[match[1].slice(0, 3).toLowerCase()];
+    const date = toISODate(resolveYear(month, match[3]), month, Number(match[2]));
+    if (date) matches.push({ date, index: match.index!, length: match[0].length });
+  }
+
+  for (const match of Array.from(text.matchAll(NUMERIC_DATE_PATTERN))) {
+    const month = Number(match[1]);
+    const date = toISODate(resolveYear(month, match[3]), month, Number(match[2]));
+    if (date) matches.push({ date, index: match.index!, length: match[0].length });
+  }
+
+  // Drop matches nested inside another (e.g. "10/3" within an ISO date)
+  return matches
+    .sort((a, b) => a.index - b.index)
+    .filter((match, i, all) => !all.some((other, j) => j !== i &&
+      other.index <= match.index && other.index + other.length >= match.index + match.length &&
+      (other.length > match.length || j < i)));
+}
+
+/**
+ * Parse the first time of day in a piece of text as HH:MM
+ */
+function findTime(text: string): string | undefined {
+  const match = text.match(TIME_PATTERN);
+  if (!match) return undefined;
+
+  if (match[6]) {
+    // Midnight deadlines mean the end of the day
+    return match[6].toLowerCase() === 'noon' ? '12:00' : '23:59';
+  }
+  if (match[4]) {
+    return `${match[4].padStart(2, '0')}:${match[5]}`;
+  }
+
+  let hours = Number(match[1]) % 12;
+  if (match[3].toLowerCase().startsWith('p')) hours += 12;
+  return `${String(hours).padStart(2, '0')}:${match[2] || '00'}`;
+}
+
+/**
+ * Turn the text around a date into a short event title
+ */
+function buildTitle(text: string, type: SyllabusEvent['type']): string {
+  // Remove locations, dates and times along with the preposition introducing them ("on Oct 3", "at 5pm")
+  const withoutDates = [LOCATION_PATTERN, MONTH_DAY_PATTERN, NUMERIC_DATE_PATTERN, ISO_DATE_PATTERN, TIME_PATTERN, WEEKDAY_PATTERN, /\bweek\s+\d+\b/]
+    .reduce((result, pattern) => result.replace(new RegExp(`(?:\\b(?:on|by|at|before)\\s+)?(?:${pattern.source})`, 'gi'), ' '), text);
+
+  const title = withoutDates
+    .replace(/[|*_#>]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,.;:()–—-]+|[\s,.;:(–—-]+$/g, '')
+    .replace(/\s+\b(on|by|at|is|are)$/i, '')
+    .trim();
+
+  if (!title) {
+    return type.charAt(0).toUpperCase() + type.slice(1);
+  }
+  return title.length > 100 ? `${title.slice(0, 100).replace(/\s+\S*$/, '')}…` : title;
+}
+
+/**
+ * Split a long line of prose into sentences
+ */
+function splitSentences(line: string): string[] {
+  return (line.match(/[^.;!?]+[.;!?]*/g) || [line]).map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Heuristic syllabus extraction: finds date expressions and classifies them by nearby keywords.
+ * Needs no API key, and gives an independent second opinion on the AI's results.
+ */
+export class RuleBasedExtractor {
+  private year: number;
+  private fallYear: boolean;
+  private term?: TermInfo;
+
+  constructor(private text: string, options: RuleExtractionOptions = {}) {
+    const semester = text.match(SEMESTER_PATTERN);
+    this.year = options.year || (semester ? Number(semester[2]) : undefined) ||
+      Number(text.match(/\b(20\d{2})\b/)?.[1]) || new Date().getFullYear();
+    this.fallYear = !!semester && /fall|autumn/i.test(semester[1]);
+    this.term = options.term;
+  }
+
+  /**
+   * Year for a month with no explicit year; fall terms run into January
+   */
+  private resolveYear = (month: number, explicit?: string): number => {
+    if (explicit) {
+      const year = Number(explicit);
+      return year < 100 ? 2000 + year : year;
+    }
+    return this.fallYear && month <= 6 ? this.year + 1 : this.year;
+  };
+
+  /**
+   * First day of the term: stated explicitly, or the earliest date in the syllabus
+   */
+  private findTerm(lines: string[]): TermInfo | undefined {
+    if (this.term) return this.term;
+
+    const stated = lines.find(line => TERM_START_PATTERN.test(line) && findDates(line, this.resolveYear).length > 0);
+    if (stated) return { start: findDates(stated, this.resolveYear)[0].date };
+
+    const all = lines.flatMap(line => findDates(line, this.resolveYear).map(match => match.date)).sort();
+    return all[0] ? { start: all[0] } : undefined;
+  }
+
+  /**
+   * Create events for the dates in one segment of text
+   */
+  private eventsFromSegment(segment: string, week: number | undefined, term: TermInfo | undefined, fallbackDate?: string): SyllabusEvent[] {
+    if (NO_CLASS_PATTERN.test(segment)) return [];
+
+    const type = inferEventType(segment);
+    const isDeadline = DEADLINE_WORDS.test(segment);
+    if (type === 'other' && !isDeadline) return [];
+
+    const dates = findDates(segment, this.resolveYear);
+
+    // "Week 4 Thursday" anywhere, or a bare weekday within a week's section
+    if (term) {
+      for (const match of Array.from(segment.matchAll(WEEK_DAY_PATTERN))) {
+        const weekday = WEEKDAY_NAMES[match[2].toLowerCase()];
+        dates.push({
+          date: weekdayInWeek(term, Number(match[1]), weekday),
+          index: match.index!,
+          length: match[0].length,
+          expression: match[0].trim(),
+          inferred: true,
+        });
+      }
+      const weekday = segment.match(WEEKDAY_PATTERN);
+      if (dates.length === 0 && week && weekday) {
+        dates.push({
+          date: weekdayInWeek(term, week, WEEKDAY_NAMES[weekday[1].toLowerCase()]),
+          index: weekday.index!,
+          length: weekday[0].length,
+          expression: `Week ${week} ${weekday[0].trim()}`,
+          inferred: true,
+        });
+      }
+    }
+
+    if (dates.length === 0 && fallbackDate) {
+      dates.push({ date: fallbackDate, index: 0, length: 0, inferred: true });
+    }
+
+    const time = findTime(segment);
+    const location = segment.match(LOCATION_PATTERN)?.[1];
+    const eventType = type === 'other' ? 'assignment' : type;
+
+    return dates.sort((a, b) => a.index - b.index).map((match, i, all) => {
+      // With several dates in one segment, each takes the text since the previous date
+      const start = i === 0 ? 0 : all[i - 1].index + all[i - 1].length;
+      const context = all.length > 1 ? segment.slice(start, match.index + match.length) : segment;
+
+      return {
+        id: `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        title: buildTitle(context.trim() || segment, eventType),
+        description: segment.trim().slice(0, 300),
+        date: match.date,
+        time,
+        location,
+        type: eventType,
+        priority: defaultPriority(eventType),
+        dateExpression: match.expression,
+        confidence: match.inferred ? INFERRED_DATE_CONFIDENCE : STATED_DATE_CONFIDENCE,
+        source: { text: segment.trim().slice(0, 300) },
+      };
+    });
+  }
+
+  /**
+   * Extract events and course details from the syllabus text
+   */
+  extract(): ProcessedSyllabus {
+    const lines = this.text.split('\n').map(line => line.trim()).filter(Boolean);
+    const term = this.findTerm(lines);
+    const events: SyllabusEvent[] = [];
+
+    let week: number | undefined;
+    let tableHeader: string[] | undefined;
+
+    for (const line of lines) {
+      const weekHeading = line.match(WEEK_HEADING_PATTERN);
+      if (weekHeading) week = Number(weekHeading[1]);
+
+      if (!line.startsWith('|')) {
+        tableHeader = undefined;
+        const segments = line.length > 300 ? splitSentences(line) : [line];
+        segments.forEach(segment => events.push(...this.eventsFromSegment(segment, week, term)));
+        continue;
+      }
+
+      // Markdown table row: the row's date applies to each deliverable in its cells
+      const cells = line.replace(/^\||\|$/g, '').replace(/\\\|/g, '\u0000').split('|')
+        .map(cell => cell.replace(/\u0000/g, '|').trim());
+      if (cells.every(cell => /^:?-{3,}:?$/.test(cell) || !cell)) continue;
+      if (!tableHeader) {
+        tableHeader = cells.map(cell => cell.toLowerCase());
+        if (findDates(line, this.resolveYear).length === 0) continue;
+      }
+
+      const weekColumn = tableHeader.findIndex(header => /^(week|wk)\b/.test(header));
+      const rowWeek = weekColumn >= 0 ? Number(cells[weekColumn]) || week : week;
+      const rowDate = findDates(line, this.resolveYear)[0]?.date;
+
+      const rowEvents = cells.flatMap(cell => {
+        if (!cell || /^\d+$/.test(cell)) return [];
+        const ownDates = findDates(cell, this.resolveYear);
+        const remainder = ownDates.reduce((text, match) => text.replace(cell.substr(match.index, match.length), ' '), cell);
+        if (!remainder.trim()) return []; // the date cell itself
+        return this.eventsFromSegment(cell, rowWeek, term, rowDate);
+      });
+
+      events.push(...rowEvents);
+    }
+
+    const deduplicated = events.filter((event, index) =>
+      !events.slice(0, index).some(earlier => isSameEvent(earlier, event)));
+
+    const semester = this.text.match(SEMESTER_PATTERN);
+    const instructor = this.text.match(/\b(?:instructor|professor|lecturer)\s*:\s*([^\n|]{3,60})/i);
+    const courseName = this.text.match(/^(?:#+\s*)?([A-Z]{2,5}\s?-?\d{2,4}[A-Z]?\b[^\n|]{0,80})/m);
+
+    return {
+      events: deduplicated.sort((a, b) => a.date.localeCompare(b.date)),
+      courseName: courseName ? courseName[1].trim() : undefined,
+      instructor: instructor ? instructor[1].trim() : undefined,
+      semester: semester ? `${semester[1][0].toUpperCase()}${semester[1].slice(1).toLowerCase()} ${semester[2]}` : undefined,
+      year: this.year,
+      term,
+    };
+  }
+}
+
+/**
+ * Extract events from syllabus text without an AI model
+ */
+export function extractEventsWithRules(text: string, options: RuleExtractionOptions = {}): ProcessedSyllabus {
+  return new RuleBasedExtractor(text, options).extract();
+}
+
+/**
+ * Compare AI-extracted events with the rule-based ones, listing dated deliverables the AI may have missed
+ */
+export function crossCheckEvents(aiEvents: SyllabusEvent[], ruleEvents: SyllabusEvent[]): ExtractionCrossCheck {
+  const aiOccurrences = expandEvents(aiEvents);
+  const missedByModel = ruleEvents.filter(ruleEvent => !aiOccurrences.some(aiEvent =>
+    aiEvent.date === ruleEvent.date &&
+    (aiEvent.type === ruleEvent.type || titleSimilarity(aiEvent.title, ruleEvent.title) >= 0.3)));
+
+  return {
+    ruleEventCount: ruleEvents.length,
+    matchedCount: ruleEvents.length - missedByModel.length,
+    missedByModel,
+  };
+}
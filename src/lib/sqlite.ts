@@ -0,0 +1,39 @@
+import fs from 'fs';
+import path from 'path';
+import type Database from 'better-sqlite3';
+
+const DEFAULT_SQLITE_PATH = '.data/syllabus-to-calendar.db';
+
+// One connection per file, kept on globalThis so module reloads in development don't reopen it
+const sqliteState = globalThis as typeof globalThis & { sqliteConnections?: Record<string, Promise<Database.Database>> };
+
+/**
+ * The SQLite database file shared by the server-side stores (SQLITE_DATABASE_PATH)
+ */
+export function getSqlitePath(): string {
+  return process.env.SQLITE_DATABASE_PATH || DEFAULT_SQLITE_PATH;
+}
+
+/**
+ * Open a SQLite database, creating its directory on first use
+ */
+export function openSqliteDatabase(filename: string = getSqlitePath()): Promise<Database.Database> {
+  const connections = sqliteState.sqliteConnections || (sqliteState.sqliteConnections = {});
+  const key = path.resolve(filename);
+
+  if (!connections[key]) {
+    connections[key] = (async () => {
+      // Dynamic import so the native module only loads when SQLite is configured
+      const { default: BetterSqlite3 } = await import('better-sqlite3');
+      fs.mkdirSync(path.dirname(key), { recursive: true });
+
+      const db = new BetterSqlite3(key);
+      db.pragma('journal_mode = WAL');
+      db.pragma('foreign_keys = ON');
+      return db;
+    })();
+    // Let a later call retry if the file couldn't be opened
+    connections[key].catch(() => delete connections[key]);
+  }
+  return connections[key];
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { chunkSyllabusText, getSharedContext } from './syllabus-chunker';
+
+const paragraph = (label: string, length: number) =>
+  `${label}. ${'Lecture notes and reading for the week. '.repeat(Math.ceil(length / 41))}`.slice(0, length);
+
+describe('chunkSyllabusText', () => {
+  it('keeps a short syllabus in one chunk', () => {
+    const text = '# CS 101\nHomework 1 due 9/15';
+    expect(chunkSyllabusText(text)).toEqual([{ index: 0, text }]);
+  });
+
+  it('splits a long syllabus on headings and week markers', () => {
+    const text = [
+      '# CS 101 Fall 2024',
+      paragraph('Overview', 400),
+      '## Week 1',
+      paragraph('Sorting', 400),
+      'Week 2: Recursion',
+      paragraph('Recursion', 400),
+      'GRADING POLICY',
+      paragraph('Grading', 400),
+    ].join('\n');
+
+    const chunks = chunkSyllabusText(text, { maxChars: 500 });
+
+    expect(chunks.map(chunk => chunk.text.split('\n')[0])).toEqual([
+      '# CS 101 Fall 2024',
+      '## Week 1',
+      'Week 2: Recursion',
+      'GRADING POLICY',
+    ]);
+    expect(chunks.map(chunk => chunk.index)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('packs small sections together up to the limit', () => {
+    const text = [1, 2, 3, 4, 5, 6].map(week => `## Week ${week}\n${paragraph(`Topic ${week}`, 150)}`).join('\n');
+    const chunks = chunkSyllabusText(text, { maxChars: 400 });
+
+    expect(chunks).toHaveLength(3);
+    expect(chunks[0].text).toMatch(/^## Week 1[\s\S]*## Week 2/);
+    expect(chunks.every(chunk => chunk.text.length <= 400)).toBe(true);
+  });
+
+  it('splits on page breaks', () => {
+    const text = `${paragraph('Page 1', 300)}\n\f${paragraph('Page 2', 300)}`;
+    const chunks = chunkSyllabusText(text, { maxChars: 400 });
+
+    expect(chunks.map(chunk => chunk.text.slice(0, 6))).toEqual(['Page 1', 'Page 2']);
+    expect(chunks.some(chunk => chunk.text.includes('\f'))).toBe(false);
+  });
+
+  it('repeats the header of an oversized table in every piece', () => {
+    const header = '| Week | Date | Topic |\n| --- | --- | --- |';
+    const rows = Array.from({ length: 30 }, (_, i) => `| ${i + 1} | 9/${i + 1} | Topic number ${i + 1} |`);
+    const chunks = chunkSyllabusText(`${header}\n${rows.join('\n')}`, { maxChars: 300 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.startsWith(header)).toBe(true);
+    }
+    const allRows = chunks.flatMap(chunk => chunk.text.split('\n').slice(2));
+    expect(allRows).toEqual(rows);
+  });
+
+  it('cuts a single long line at sentence ends', () => {
+    const text = 'Read chapter one before class. '.repeat(40).trim();
+    const chunks = chunkSyllabusText(text, { maxChars: 200 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.text.endsWith('.'))).toBe(true);
+    expect(chunks.map(chunk => chunk.text).join(' ')).toBe(text);
+  });
+});
+
+describe('getSharedContext', () => {
+  it('shares the opening lines of the syllabus with every chunk', () => {
+    const text = `# CS 101 Fall 2024\nInstructor: Dr. Smith\n${'Course policy line.\n'.repeat(200)}`;
+    const context = getSharedContext(text);
+
+    expect(context.startsWith('# CS 101 Fall 2024\nInstructor: Dr. Smith')).toBe(true);
+    expect(context.length).toBeLessThanOrEqual(1200);
+    expect(context.endsWith('Course policy line.')).toBe(true);
+  });
+
+  it('uses all of a short syllabus', () => {
+    expect(getSharedContext('CS 101')).toBe('CS 101');
+  });
+});
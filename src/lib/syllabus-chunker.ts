@@ -0,0 +1,128 @@
+export interface SyllabusChunk {
+  index: number;
+  text: string;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+}
+
+// Keeps each prompt well inside the model's context, leaving room for the JSON response
+const DEFAULT_MAX_CHARS = 10000;
+// Leading text shared with every chunk so course name, term and year are known everywhere
+const CONTEXT_CHARS = 1200;
+
+// Lines that start a new section: Markdown headings, schedule units and numbered sections
+const SECTION_MARKER = /^(#{1,6}\s|(week|module|unit|lesson|part|session|topic)\s+\d+\b)/i;
+const SECTION_TITLE = /^(\d+(\.\d+)*\.?\s+[A-Z][^.!?]{2,60}|[A-Z][A-Z0-9 &:/-]{3,60})$/;
+
+/**
+ * Split text into sections at headings, week markers and page breaks
+ */
+function splitSections(text: string): string[] {
+  const sections: string[][] = [[]];
+
+  for (const line of text.split('\n')) {
+    const current = sections[sections.length - 1];
+    const isTableRow = line.trimStart().startsWith('|');
+    const isBreak = line.includes('\f') ||
+      (!isTableRow && (SECTION_MARKER.test(line.trim()) || SECTION_TITLE.test(line.trim())));
+
+    if (isBreak && current.some(l => l.trim())) {
+      sections.push([]);
+    }
+    sections[sections.length - 1].push(line.replace(/\f/g, ''));
+  }
+
+  return sections.map(lines => lines.join('\n').trim()).filter(Boolean);
+}
+
+/**
+ * Split an oversized Markdown table by rows, repeating its header in every piece
+ */
+function splitTable(table: string, maxChars: number): string[] {
+  const [header, separator, ...rows] = table.split('\n');
+  const head = `${header}\n${separator}`;
+  const pieces: string[] = [];
+  let current = head;
+
+  for (const row of rows) {
+    if (current !== head && current.length + row.length + 1 > maxChars) {
+      pieces.push(current);
+      current = head;
+    }
+    current += `\n${row}`;
+  }
+  pieces.push(current);
+
+  return pieces;
+}
+
+/**
+ * Break a section that exceeds the limit into paragraphs, table pieces, lines or sentences
+ */
+function splitOversized(section: string, maxChars: number): string[] {
+  if (section.length <= maxChars) return [section];
+
+  const paragraphs = section.split(/\n{2,}/);
+  if (paragraphs.length > 1) {
+    return paragraphs.flatMap(paragraph => splitOversized(paragraph, maxChars));
+  }
+
+  if (/^\|.*\|\n\|[\s|:-]+\|/.test(section)) {
+    return splitTable(section, maxChars);
+  }
+
+  const lines = section.split('\n');
+  if (lines.length > 1) {
+    return lines.flatMap(line => splitOversized(line, maxChars));
+  }
+
+  // A single long line, as plain-mode PDF text produces: cut at sentence ends
+  const pieces: string[] = [];
+  let rest = section;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const cut = Math.max(window.lastIndexOf('. '), window.lastIndexOf('; '));
+    const end = cut > maxChars / 2 ? cut + 1 : maxChars;
+    pieces.push(rest.slice(0, end).trim());
+    rest = rest.slice(end);
+  }
+  pieces.push(rest.trim());
+  return pieces.filter(Boolean);
+}
+
+/**
+ * Split syllabus text into chunks along section boundaries, packing small sections together
+ */
+export function chunkSyllabusText(text: string, options: ChunkOptions = {}): SyllabusChunk[] {
+  const maxChars = options.maxChars || DEFAULT_MAX_CHARS;
+  if (text.length <= maxChars) {
+    return [{ index: 0, text }];
+  }
+
+  const pieces = splitSections(text).flatMap(section => splitOversized(section, maxChars));
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current) chunks.push(current);
+
+  return chunks.map((chunk, index) => ({ index, text: chunk }));
+}
+
+/**
+ * The opening of the syllabus, which usually names the course, instructor and term
+ */
+export function getSharedContext(text: string): string {
+  if (text.length <= CONTEXT_CHARS) return text;
+  const window = text.slice(0, CONTEXT_CHARS);
+  const lastBreak = window.lastIndexOf('\n');
+  return (lastBreak > CONTEXT_CHARS / 2 ? window.slice(0, lastBreak) : window).trim();
+}
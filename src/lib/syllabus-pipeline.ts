@@ -0,0 +1,297 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TextExtractorRegistry } from './text-extractors';
+import { fetchPublicDocument } from './url-fetcher';
+import { SyllabusProcessor } from './openai-client';
+import { getLLMConfigError } from './llm';
+import { isValidTimeZone } from './timezone';
+import { extractEventsWithRules, crossCheckEvents } from './rule-extractor';
+import { normalizeTerm, resolveEventDates } from './relative-dates';
+import { getTermCalendar, skipTermBreaks, termFromCalendar } from './term-calendars';
+import { attachProvenance, SourceDocument } from './provenance';
+import { ExtractionListener, OCRReport, ProcessedSyllabus, TermInfo, UploadResponse } from '@/types/syllabus';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_PASTED_TEXT_LENGTH = 200000;
+
+export type SyllabusSource =
+  | { type: 'file'; name: string; mimeType?: string; buffer: Buffer }
+  | { type: 'text'; text: string }
+  | { type: 'url'; url: string };
+
+// A validated request to process one syllabus
+export interface SyllabusRequest {
+  source: SyllabusSource;
+  timeZone?: string;
+  term?: TermInfo;
+}
+
+export interface SyllabusText {
+  text: string;
+  timeZone?: string;
+  term?: TermInfo;
+  ocr?: OCRReport;
+  pages?: string[];
+}
+
+interface TextIngestRequest {
+  text?: string;
+  url?: string;
+  timeZone?: string;
+  termStart?: string;
+  termEnd?: string;
+  meetingDays?: string[] | string;
+  termCalendar?: string;
+}
+
+/**
+ * Read and validate a syllabus request: a multipart file upload, or a JSON body holding pasted text or a public URL
+ */
+export async function readSyllabusRequest(request: NextRequest): Promise<SyllabusRequest | NextResponse> {
+  const isJson = request.headers.get('content-type')?.includes('application/json');
+  return isJson ? readJsonSource(request) : readUploadedFile(request);
+}
+
+/**
+ * Short description of where a syllabus came from, for status messages
+ */
+export function describeSource(source: SyllabusSource): string {
+  switch (source.type) {
+    case 'file':
+      return source.name;
+    case 'text':
+      return 'Pasted text';
+    default:
+      return source.url;
+  }
+}
+
+/**
+ * Validate a multipart file upload
+ */
+async function readUploadedFile(request: NextRequest): Promise<SyllabusRequest | NextResponse> {
+  // Get the uploaded file
+  const formData = await request.formData();
+  const file = formData.get('file') as File;
+  const clientTimeZone = formData.get('timeZone');
+  const term = readTerm(formData.get('termStart'), formData.get('termEnd'), formData.get('meetingDays'), formData.get('termCalendar'));
+
+  if (!file) {
+    return NextResponse.json(
+      { success: false, error: 'No file uploaded' },
+      { status: 400 }
+    );
+  }
+
+  // Validate file size (10MB limit)
+  if (file.size > MAX_FILE_SIZE) {
+    return NextResponse.json(
+      { success: false, error: 'File size must be less than 10MB' },
+      { status: 400 }
+    );
+  }
+
+  // Convert file to buffer
+  const arrayBuffer = await file.arrayBuffer();
+  const buffer = Buffer.from(arrayBuffer);
+
+  // Validate file type by its contents, falling back to the declared type and name
+  if (!TextExtractorRegistry.detect(buffer, file.type, file.name)) {
+    return NextResponse.json(
+      { success: false, error: `Unsupported file type. Supported formats: ${TextExtractorRegistry.describeFormats()}` },
+      { status: 400 }
+    );
+  }
+
+  return {
+    source: { type: 'file', name: file.name, mimeType: file.type, buffer },
+    term,
+    timeZone: typeof clientTimeZone === 'string' ? clientTimeZone : undefined,
+  };
+}
+
+/**
+ * Validate a JSON body holding pasted text or a public URL
+ */
+async function readJsonSource(request: NextRequest): Promise<SyllabusRequest | NextResponse> {
+  let body: TextIngestRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+  // Valid JSON can still be null, a number or an array
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json(
+      { success: false, error: 'The request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  const timeZone = typeof body.timeZone === 'string' ? body.timeZone : undefined;
+  const term = readTerm(body.termStart, body.termEnd, body.meetingDays, body.termCalendar);
+  const hasText = typeof body.text === 'string' && body.text.trim().length > 0;
+  const hasUrl = typeof body.url === 'string' && body.url.trim().length > 0;
+
+  if (hasText === hasUrl) {
+    return NextResponse.json(
+      { success: false, error: 'Provide either syllabus text or a URL' },
+      { status: 400 }
+    );
+  }
+
+  if (hasText && body.text!.length > MAX_PASTED_TEXT_LENGTH) {
+    return NextResponse.json(
+      { success: false, error: `Pasted text must be less than ${MAX_PASTED_TEXT_LENGTH.toLocaleString()} characters` },
+      { status: 400 }
+    );
+  }
+
+  return {
+    source: hasText ? { type: 'text', text: body.text! } : { type: 'url', url: body.url!.trim() },
+    term,
+    timeZone,
+  };
+}
+
+/**
+ * Extract prompt-ready text from the request's file, pasted text or URL
+ */
+export async function extractSyllabusText(
+  { source, term, timeZone }: SyllabusRequest,
+  listener: ExtractionListener = {}
+): Promise<SyllabusText> {
+  switch (source.type) {
+    case 'file': {
+      listener.onProgress?.({ stage: 'parsing', message: `Reading ${source.name}` });
+      const { text, ocr, pages } = await TextExtractorRegistry.extract(source.buffer, source.mimeType, source.name, listener.onProgress);
+      return { text, ocr, pages, term, timeZone };
+    }
+    case 'text': {
+      listener.onProgress?.({ stage: 'parsing', message: 'Reading pasted text' });
+      const { text } = await TextExtractorRegistry.extract(Buffer.from(source.text, 'utf8'), 'text/plain');
+      return { text, term, timeZone };
+    }
+    default: {
+      listener.onProgress?.({ stage: 'parsing', message: 'Fetching syllabus page' });
+      const page = await fetchPublicDocument(source.url, { maxBytes: MAX_FILE_SIZE });
+      const { text, ocr, pages } = await TextExtractorRegistry.extract(
+        page.buffer,
+        page.contentType,
+        new URL(page.url).pathname,
+        listener.onProgress
+      );
+      return { text, ocr, pages, term, timeZone };
+    }
+  }
+}
+
+/**
+ * Run extracted syllabus text through the AI and build the upload response.
+ * Throws when the AI provider fails.
+ */
+export async function processSyllabusText(
+  { text: extractedText, timeZone: clientTimeZone, term, ocr, pages }: SyllabusText,
+  listener: ExtractionListener = {}
+): Promise<UploadResponse> {
+  // Rule-based extraction needs no API key: it is the result when no AI provider is configured,
+  // and a cross-check on the AI's result otherwise
+  const document = { text: extractedText, pages };
+  const ruleResult = withSources(withTerm(extractEventsWithRules(extractedText, { term }), term), document);
+
+  const configError = getLLMConfigError();
+  if (configError) {
+    console.warn(`${configError} Using rule-based extraction.`);
+    listener.onEvents?.(ruleResult.events);
+    return {
+      success: true,
+      message: `Extracted ${ruleResult.events.length} events with rule-based date matching (no AI provider configured)`,
+      data: withTimeZone(ruleResult, clientTimeZone),
+      extractionMethod: 'rules',
+      ...(ocr && { ocr })
+    };
+  }
+
+  // Process with the configured AI provider
+  const syllabusProcessor = new SyllabusProcessor();
+  // The first term a section reports, standing in for the merged result's until it arrives
+  let syllabusTerm: TermInfo | undefined;
+  let processedSyllabus = await syllabusProcessor.extractEventsWithFallback(extractedText, {
+    onProgress: listener.onProgress,
+    // Place "Week 3"-style dates on the calendar as soon as each section is done, dated as in the final result
+    onEvents: listener.onEvents && ((events, sectionTerm) => {
+      syllabusTerm = syllabusTerm || sectionTerm;
+      listener.onEvents!(withTerm({ events, term: syllabusTerm }, term).events);
+    }),
+    onEventsReset: () => {
+      syllabusTerm = undefined;
+      listener.onEventsReset?.();
+    },
+  });
+
+  listener.onProgress?.({ stage: 'validating', message: 'Checking dates and sources' });
+  processedSyllabus = withSources(withTerm(processedSyllabus, term), document);
+
+  return {
+    success: true,
+    message: `Successfully extracted ${processedSyllabus.events.length} events from syllabus`,
+    data: withTimeZone(processedSyllabus, clientTimeZone),
+    extractionMethod: 'ai',
+    crossCheck: crossCheckEvents(processedSyllabus.events, ruleResult.events),
+    ...(ocr && { ocr })
+  };
+}
+
+/**
+ * Fall back to the uploader's time zone when the syllabus doesn't state one
+ */
+function withTimeZone(syllabus: ProcessedSyllabus, clientTimeZone?: string): ProcessedSyllabus {
+  if (!syllabus.timeZone && clientTimeZone && isValidTimeZone(clientTimeZone)) {
+    return { ...syllabus, timeZone: clientTimeZone };
+  }
+  return syllabus;
+}
+
+/**
+ * Parse the term chosen by the user: a known academic calendar ("<institution>/<term>"),
+ * with any dates entered by hand taking precedence. Meeting days may be an array or a comma-separated list.
+ */
+function readTerm(start: unknown, end: unknown, meetingDays: unknown, calendarId: unknown): TermInfo | undefined {
+  const definition = typeof calendarId === 'string' && calendarId ? getTermCalendar(calendarId) : undefined;
+  const base = definition ? termFromCalendar(definition) : undefined;
+
+  return normalizeTerm({
+    ...base,
+    ...(typeof start === 'string' && start && { start }),
+    ...(typeof end === 'string' && end && { end }),
+    meetingDays: typeof meetingDays === 'string' ? meetingDays.split(',').map(day => day.trim()) : meetingDays,
+  });
+}
+
+/**
+ * Resolve "Week 3 Monday"-style dates against the user's term, or the one found in the syllabus,
+ * and keep recurring classes off holidays and breaks
+ */
+function withTerm(syllabus: ProcessedSyllabus, userTerm?: TermInfo): ProcessedSyllabus {
+  // Details the user left blank still come from the syllabus
+  const term = userTerm
+    ? {
+        ...userTerm,
+        end: userTerm.end || syllabus.term?.end,
+        meetingDays: userTerm.meetingDays || syllabus.term?.meetingDays,
+        noClassDates: userTerm.noClassDates || syllabus.term?.noClassDates,
+        breaks: userTerm.breaks || syllabus.term?.breaks,
+      }
+    : syllabus.term;
+  if (!term) return syllabus;
+  return { ...syllabus, term, events: skipTermBreaks(resolveEventDates(syllabus.events, term), term) };
+}
+
+/**
+ * Check events' quoted sources against the document and find their pages
+ */
+function withSources(syllabus: ProcessedSyllabus, document: SourceDocument): ProcessedSyllabus {
+  return { ...syllabus, events: attachProvenance(syllabus.events, document) };
+}
@@ -0,0 +1,198 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { SyllabusEvent } from '@/types/syllabus';
+import { isISODate } from '../date-utils';
+import { normalizeTerm } from '../relative-dates';
+import { SyllabusFields, SyllabusStore, SyllabusStoreName } from './types';
+import { SqliteSyllabusStore } from './sqlite-store';
+import { getSqlitePath } from '../sqlite';
+
+// HTTP-only cookie proving this browser was given SYLLABUS_STORE_SECRET
+export const STORE_ACCESS_COOKIE = 'syllabus_store_access';
+const ACCESS_MAX_AGE = 30 * 24 * 60 * 60; // 30 days, in seconds
+
+// Kept on globalThis so every route and module reload in development shares one store
+const storeState = globalThis as typeof globalThis & { syllabusStore?: SyllabusStore | null };
+
+/**
+ * Create the store selected by SYLLABUS_STORE ("sqlite" at SQLITE_DATABASE_PATH). Server storage is off by default,
+ * and stays off without SYLLABUS_STORE_SECRET since the routes would otherwise be open to anyone.
+ */
+export function createSyllabusStore(
+  name: string = process.env.SYLLABUS_STORE || '',
+  secret: string = process.env.SYLLABUS_STORE_SECRET || ''
+): SyllabusStore | null {
+  if (!secret) return null;
+
+  switch (name.trim().toLowerCase() as SyllabusStoreName) {
+    case 'sqlite':
+      return new SqliteSyllabusStore(getSqlitePath());
+    default:
+      return null;
+  }
+}
+
+/**
+ * The syllabus store shared by this process, or null when server storage isn't configured
+ */
+export function getSyllabusStore(): SyllabusStore | null {
+  if (storeState.syllabusStore === undefined) {
+    storeState.syllabusStore = createSyllabusStore();
+  }
+  return storeState.syllabusStore;
+}
+
+/**
+ * Response for the syllabus routes when server storage is off; the app then saves in the browser instead
+ */
+export function storageNotConfigured(): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'Server storage is not configured' },
+    { status: 503 }
+  );
+}
+
+/**
+ * Cookie value for the configured secret; changing the secret signs every browser out
+ */
+function accessToken(): string {
+  return crypto.createHmac('sha256', process.env.SYLLABUS_STORE_SECRET || '').update(STORE_ACCESS_COOKIE).digest('base64url');
+}
+
+/**
+ * Compare two strings in constant time
+ */
+function safeEqual(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Check a secret entered by the user against SYLLABUS_STORE_SECRET
+ */
+export function isStoreSecret(secret: unknown): boolean {
+  const configured = process.env.SYLLABUS_STORE_SECRET;
+  return Boolean(configured) && typeof secret === 'string' && safeEqual(secret, configured!);
+}
+
+/**
+ * Whether the request comes from a browser that entered the storage secret
+ */
+export function hasStoreAccess(request: NextRequest): boolean {
+  const cookie = request.cookies.get(STORE_ACCESS_COOKIE)?.value;
+  return Boolean(process.env.SYLLABUS_STORE_SECRET) && typeof cookie === 'string' && safeEqual(cookie, accessToken());
+}
+
+/**
+ * Response for the syllabus routes when the browser hasn't entered the storage secret
+ */
+export function storeAccessDenied(): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'Enter the storage password to use server storage' },
+    { status: 401 }
+  );
+}
+
+/**
+ * Remember in an HTTP-only cookie that this browser entered the storage secret
+ */
+export function setStoreAccessCookie(response: NextResponse): void {
+  response.cookies.set(STORE_ACCESS_COOKIE, accessToken(), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/syllabi',
+    maxAge: ACCESS_MAX_AGE,
+  });
+}
+
+/**
+ * Forget the storage secret for this browser
+ */
+export function clearStoreAccessCookie(response: NextResponse): void {
+  response.cookies.set(STORE_ACCESS_COOKIE, '', { path: '/api/syllabi', maxAge: 0 });
+}
+
+/**
+ * What's wrong with an event sent to be saved, or null when it can be saved
+ */
+function findEventProblem(event: unknown): string | null {
+  if (!event || typeof event !== 'object') return 'not an event';
+  const { title, date } = event as Record<string, unknown>;
+  if (typeof title !== 'string' || !title.trim()) return 'missing title';
+  if (typeof date !== 'string' || !isISODate(date)) return 'invalid date';
+  return null;
+}
+
+/**
+ * Read a list of events from a request body, or a 400 response naming every entry that can't be saved
+ */
+export function readEvents(value: unknown): SyllabusEvent[] | NextResponse {
+  if (!Array.isArray(value)) {
+    return NextResponse.json(
+      { success: false, error: 'An events array is required' },
+      { status: 400 }
+    );
+  }
+
+  const invalidEvents = value
+    .map((event: unknown, index) => ({
+      index,
+      title: event && typeof event === 'object' ? (event as Record<string, unknown>).title : undefined,
+      problem: findEventProblem(event),
+    }))
+    .filter(invalid => invalid.problem !== null);
+  if (invalidEvents.length > 0) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Fix these events before saving: ${invalidEvents
+          .map(({ index, title, problem }) => `${typeof title === 'string' && title.trim() ? `"${title}"` : `event ${index + 1}`} (${problem})`)
+          .join(', ')}`,
+        invalidEvents,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Every entry has the title and date checked above
+  return value as SyllabusEvent[];
+}
+
+/**
+ * Read the saved fields of a syllabus from a request body, or a 400 response when they're missing or invalid
+ */
+export function readSyllabusFields(id: string, body: unknown): SyllabusFields | NextResponse {
+  const { color, fileName, fileHash, syllabus } = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  if (typeof color !== 'string' || !syllabus || typeof syllabus !== 'object') {
+    return NextResponse.json(
+      { success: false, error: 'A color and a syllabus with an events array are required' },
+      { status: 400 }
+    );
+  }
+
+  const { events, courseName, instructor, semester, year, timeZone, term } = syllabus as Record<string, unknown>;
+  const validEvents = readEvents(events);
+  if (validEvents instanceof NextResponse) return validEvents;
+  const validTerm = normalizeTerm(term);
+
+  return {
+    id,
+    color,
+    ...(typeof fileName === 'string' && { fileName }),
+    ...(typeof fileHash === 'string' && { fileHash }),
+    syllabus: {
+      events: validEvents,
+      ...(typeof courseName === 'string' && { courseName }),
+      ...(typeof instructor === 'string' && { instructor }),
+      ...(typeof semester === 'string' && { semester }),
+      ...(typeof year === 'number' && { year }),
+      ...(typeof timeZone === 'string' && { timeZone }),
+      ...(validTerm && { term: validTerm }),
+    },
+  };
+}
+
+export { SqliteSyllabusStore } from './sqlite-store';
+export type { SyllabusStore, SyllabusStoreName, SyllabusFields } from './types';
@@ -0,0 +1,126 @@
+import type Database from 'better-sqlite3';
+import { StoredSyllabus, SyllabusEvent } from '@/types/syllabus';
+import { openSqliteDatabase } from '../sqlite';
+import { SyllabusFields, SyllabusStore } from './types';
+
+interface SyllabusRow {
+  id: string;
+  color: string;
+  file_name: string | null;
+  file_hash: string | null;
+  syllabus: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Turn a database row into a stored syllabus, parsing the extraction
+ */
+function rowToSyllabus(row: SyllabusRow): StoredSyllabus {
+  return {
+    id: row.id,
+    color: row.color,
+    ...(row.file_name && { fileName: row.file_name }),
+    ...(row.file_hash && { fileHash: row.file_hash }),
+    syllabus: JSON.parse(row.syllabus),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Syllabi in a local SQLite file, for self-hosted installs. The raw extraction and the edited events
+ * are separate tables, so edits never overwrite what was extracted.
+ */
+export class SqliteSyllabusStore implements SyllabusStore {
+  readonly name = 'sqlite';
+  private database?: Promise<Database.Database>;
+
+  constructor(private filename: string) {}
+
+  /**
+   * Open the database and create the tables on first use
+   */
+  private db(): Promise<Database.Database> {
+    if (!this.database) {
+      this.database = openSqliteDatabase(this.filename).then(db => {
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS syllabi (
+            id TEXT PRIMARY KEY,
+            color TEXT NOT NULL,
+            file_name TEXT,
+            file_hash TEXT,
+            syllabus TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+          );
+          CREATE TABLE IF NOT EXISTS syllabus_events (
+            syllabus_id TEXT PRIMARY KEY REFERENCES syllabi (id) ON DELETE CASCADE,
+            events TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+          );
+        `);
+        return db;
+      });
+    }
+    return this.database;
+  }
+
+  async list(): Promise<StoredSyllabus[]> {
+    const db = await this.db();
+    const rows = db.prepare('SELECT * FROM syllabi ORDER BY created_at').all() as SyllabusRow[];
+    return rows.map(rowToSyllabus);
+  }
+
+  async get(id: string): Promise<StoredSyllabus | undefined> {
+    const db = await this.db();
+    const row = db.prepare('SELECT * FROM syllabi WHERE id = ?').get(id) as SyllabusRow | undefined;
+    return row && rowToSyllabus(row);
+  }
+
+  async save({ id, color, fileName, fileHash, syllabus }: SyllabusFields): Promise<StoredSyllabus> {
+    const db = await this.db();
+    const now = new Date().toISOString();
+    const row = db.prepare(`
+      INSERT INTO syllabi (id, color, file_name, file_hash, syllabus, created_at, updated_at)
+      VALUES (@id, @color, @fileName, @fileHash, @syllabus, @now, @now)
+      ON CONFLICT (id) DO UPDATE SET
+        color = excluded.color,
+        file_name = excluded.file_name,
+        file_hash = excluded.file_hash,
+        syllabus = excluded.syllabus,
+        updated_at = excluded.updated_at
+      RETURNING *
+    `).get({
+      id,
+      color,
+      fileName: fileName ?? null,
+      fileHash: fileHash ?? null,
+      syllabus: JSON.stringify(syllabus),
+      now,
+    }) as SyllabusRow;
+    return rowToSyllabus(row);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const db = await this.db();
+    return db.prepare('DELETE FROM syllabi WHERE id = ?').run(id).changes > 0;
+  }
+
+  async getEvents(id: string): Promise<SyllabusEvent[] | undefined> {
+    const db = await this.db();
+    const row = db.prepare('SELECT events FROM syllabus_events WHERE syllabus_id = ?').get(id) as { events: string } | undefined;
+    return row && JSON.parse(row.events);
+  }
+
+  async saveEvents(id: string, events: SyllabusEvent[]): Promise<boolean> {
+    const db = await this.db();
+    if (!db.prepare('SELECT 1 FROM syllabi WHERE id = ?').get(id)) return false;
+
+    db.prepare(`
+      INSERT INTO syllabus_events (syllabus_id, events, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT (syllabus_id) DO UPDATE SET events = excluded.events, updated_at = excluded.updated_at
+    `).run(id, JSON.stringify(events), new Date().toISOString());
+    return true;
+  }
+}
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { ProcessedSyllabus } from '@/types/syllabus';
+import {
+  createSyllabusStore,
+  hasStoreAccess,
+  isStoreSecret,
+  readEvents,
+  readSyllabusFields,
+  setStoreAccessCookie,
+  STORE_ACCESS_COOKIE,
+} from '.';
+import { SqliteSyllabusStore } from './sqlite-store';
+
+const databaseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'syllabus-store-'));
+const syllabus: ProcessedSyllabus = {
+  events: [{ id: 'event-1', title: 'Quiz 1', description: '', date: '2025-01-20', type: 'quiz', priority: 'medium' }],
+};
+
+afterAll(() => {
+  fs.rmSync(databaseDir, { recursive: true, force: true });
+});
+
+describe('SqliteSyllabusStore', () => {
+  const createStore = () => new SqliteSyllabusStore(path.join(databaseDir, `${crypto.randomUUID()}.db`));
+
+  it('has no edited events until they are saved, like the browser store', async () => {
+    const store = createStore();
+    await store.save({ id: 'course-1', color: '#2563eb', syllabus });
+
+    expect(await store.getEvents('course-1')).toBeUndefined();
+    await store.saveEvents('course-1', []);
+    expect(await store.getEvents('course-1')).toEqual([]);
+  });
+
+  it('keeps edited events apart from the extraction and deletes them with the syllabus', async () => {
+    const store = createStore();
+    await store.save({ id: 'course-1', color: '#2563eb', syllabus });
+    const edited = [{ ...syllabus.events[0], title: 'Quiz 1 (moved)', date: '2025-01-22' }];
+
+    expect(await store.saveEvents('course-1', edited)).toBe(true);
+    expect((await store.get('course-1'))?.syllabus.events).toEqual(syllabus.events);
+    expect(await store.getEvents('course-1')).toEqual(edited);
+
+    expect(await store.delete('course-1')).toBe(true);
+    expect(await store.getEvents('course-1')).toBeUndefined();
+    expect(await store.saveEvents('course-1', edited)).toBe(false);
+  });
+});
+
+describe('store access', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const requestWithCookie = (cookie?: string) => new NextRequest('http://localhost/api/syllabi', {
+    headers: cookie ? { cookie: `${STORE_ACCESS_COOKIE}=${cookie}` } : {},
+  });
+
+  it('keeps server storage off without a secret', () => {
+    expect(createSyllabusStore('sqlite', '')).toBeNull();
+    expect(createSyllabusStore('sqlite', 'secret')).toBeInstanceOf(SqliteSyllabusStore);
+  });
+
+  it('checks the entered secret', () => {
+    vi.stubEnv('SYLLABUS_STORE_SECRET', 'correct horse battery staple');
+    expect(isStoreSecret('correct horse battery staple')).toBe(true);
+    expect(isStoreSecret('correct horse')).toBe(false);
+    expect(isStoreSecret(undefined)).toBe(false);
+  });
+
+  it('only lets in requests carrying the cookie for the current secret', () => {
+    vi.stubEnv('SYLLABUS_STORE_SECRET', 'first secret');
+    const response = NextResponse.json({});
+    setStoreAccessCookie(response);
+    const cookie = response.cookies.get(STORE_ACCESS_COOKIE)!.value;
+
+    expect(cookie).not.toContain('first secret');
+    expect(hasStoreAccess(requestWithCookie(cookie))).toBe(true);
+    expect(hasStoreAccess(requestWithCookie())).toBe(false);
+    expect(hasStoreAccess(requestWithCookie('guess'))).toBe(false);
+
+    vi.stubEnv('SYLLABUS_STORE_SECRET', 'second secret');
+    expect(hasStoreAccess(requestWithCookie(cookie))).toBe(false);
+  });
+});
+
+describe('reading request bodies', () => {
+  it('rejects an events list with invalid entries instead of dropping them', async () => {
+    const response = readEvents([
+      syllabus.events[0],
+      { title: 'Quiz 2', date: 'next Friday' },
+      { title: ' ', date: '2025-01-27' },
+      null,
+    ]);
+
+    expect(response).toBeInstanceOf(NextResponse);
+    const { status } = response as NextResponse;
+    const body = await (response as NextResponse).json();
+    expect(status).toBe(400);
+    expect(body.error).toBe('Fix these events before saving: "Quiz 2" (invalid date), event 3 (missing title), event 4 (not an event)');
+    expect(body.invalidEvents.map((invalid: { index: number }) => invalid.index)).toEqual([1, 2, 3]);
+  });
+
+  it('passes a valid events list through and requires an array', () => {
+    expect(readEvents(syllabus.events)).toEqual(syllabus.events);
+    expect((readEvents({ events: [] }) as NextResponse).status).toBe(400);
+  });
+
+  it('keeps only the syllabus fields of the expected types', () => {
+    const fields = readSyllabusFields('course-1', {
+      color: '#2563eb',
+      fileName: 42,
+      syllabus: { ...syllabus, courseName: 'CS 101', year: '2025', term: { start: 'soon' }, extra: true },
+    });
+
+    expect(fields).toEqual({ id: 'course-1', color: '#2563eb', syllabus: { events: syllabus.events, courseName: 'CS 101' } });
+  });
+
+  it('rejects a syllabus whose extracted events are invalid', () => {
+    const fields = readSyllabusFields('course-1', { color: '#2563eb', syllabus: { events: [{ title: 'Quiz' }] } });
+    expect((fields as NextResponse).status).toBe(400);
+    expect((readSyllabusFields('course-1', null) as NextResponse).status).toBe(400);
+  });
+});
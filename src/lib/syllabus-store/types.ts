@@ -0,0 +1,20 @@
+import { StoredSyllabus, SyllabusEvent } from '@/types/syllabus';
+
+export type SyllabusStoreName = 'sqlite';
+
+export type SyllabusFields = Omit<StoredSyllabus, 'createdAt' | 'updatedAt'>;
+
+export interface SyllabusStore {
+  name: SyllabusStoreName;
+  /** Every saved syllabus, oldest first */
+  list(): Promise<StoredSyllabus[]>;
+  get(id: string): Promise<StoredSyllabus | undefined>;
+  /** Create the syllabus, or replace its details if it exists; its edited events are kept */
+  save(syllabus: SyllabusFields): Promise<StoredSyllabus>;
+  /** Delete the syllabus and its events; false when it didn't exist */
+  delete(id: string): Promise<boolean>;
+  /** The edited events, or undefined when the syllabus doesn't exist or its events were never saved */
+  getEvents(id: string): Promise<SyllabusEvent[] | undefined>;
+  /** Replace the edited events; false when the syllabus doesn't exist */
+  saveEvents(id: string, events: SyllabusEvent[]): Promise<boolean>;
+}
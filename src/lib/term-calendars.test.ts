@@ -0,0 +1,40 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { InstitutionCalendar } from '@/types/syllabus';
+import { getTermCalendar, listTermCalendars } from './term-calendars';
+
+const TERMS_DIR = path.resolve(__dirname, '../data/terms');
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const files = fs.readdirSync(TERMS_DIR).filter(file => file.endsWith('.json'));
+
+describe.each(files)('src/data/terms/%s', file => {
+  const calendar: InstitutionCalendar = JSON.parse(fs.readFileSync(path.join(TERMS_DIR, file), 'utf8'));
+
+  it('is named after its id', () => {
+    expect(file).toBe(`${calendar.id}.json`);
+  });
+
+  it('is listed in INSTITUTION_CALENDARS', () => {
+    const listed = listTermCalendars().map(option => option.id);
+    for (const term of calendar.terms) {
+      expect(listed).toContain(`${calendar.id}/${term.id}`);
+      expect(getTermCalendar(`${calendar.id}/${term.id}`)).toEqual(term);
+    }
+  });
+
+  it('has dates in order', () => {
+    for (const term of calendar.terms) {
+      const ranges = [
+        [term.start, term.end],
+        ...(term.breaks || []).map(({ start, end }) => [start, end]),
+        ...(term.finals ? [[term.finals.start, term.finals.end]] : []),
+      ];
+      const dates = [...ranges.flat(), ...(term.holidays || []).map(({ date }) => date), ...(term.readingDays || [])];
+
+      dates.forEach(date => expect(date, term.id).toMatch(ISO_DATE));
+      ranges.forEach(([start, end]) => expect(start <= end, `${term.id}: ${start} to ${end}`).toBe(true));
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import { AcademicTermDefinition, InstitutionCalendar, NonInstructionalPeriod, SyllabusEvent, TermInfo } from '@/types/syllabus';
+import { getOccurrenceDates } from './recurrence';
+import { findNonInstructionalPeriod, getTermEnd } from './relative-dates';
+import exampleUniversity from '@/data/terms/example-university.json';
+
+// One JSON file per institution in src/data/terms, named after its id. The calendars are used in the browser
+// as well as on the server, so they are bundled through these imports rather than read from disk: import each
+// new file here and add it to the list. term-calendars.test.ts fails for any file that isn't listed.
+const INSTITUTION_CALENDARS: InstitutionCalendar[] = [exampleUniversity];
+
+export interface TermCalendarOption {
+  id: string; // "<institution id>/<term id>"
+  institution: string;
+  name: string;
+}
+
+export interface TermConflict {
+  event: SyllabusEvent;
+  period: NonInstructionalPeriod;
+}
+
+/**
+ * Every term of every known institution, for pickers
+ */
+export function listTermCalendars(): TermCalendarOption[] {
+  return INSTITUTION_CALENDARS.flatMap(calendar =>
+    calendar.terms.map(term => ({
+      id: `${calendar.id}/${term.id}`,
+      institution: calendar.institution,
+      name: term.name,
+    }))
+  );
+}
+
+/**
+ * Look up a term by its "<institution id>/<term id>" key
+ */
+export function getTermCalendar(id: string): AcademicTermDefinition | undefined {
+  const [institutionId, termId] = id.split('/');
+  return INSTITUTION_CALENDARS.find(calendar => calendar.id === institutionId)?.terms.find(term => term.id === termId);
+}
+
+/**
+ * Convert a term definition into the term used for date resolution and validation
+ */
+export function termFromCalendar(definition: AcademicTermDefinition): TermInfo {
+  const breaks: NonInstructionalPeriod[] = [
+    ...(definition.holidays || []).map(({ name, date }) => ({ name, kind: 'holiday' as const, start: date, end: date })),
+    ...(definition.breaks || []).map(({ name, start, end }) => ({ name, kind: 'break' as const, start, end })),
+    ...(definition.readingDays || []).map(date => ({ name: 'Reading Day', kind: 'reading-day' as const, start: date, end: date })),
+    ...(definition.finals ? [{ name: 'Final Exams', kind: 'finals' as const, ...definition.finals }] : []),
+  ];
+
+  return {
+    start: definition.start,
+    end: definition.end,
+    breaks: breaks.sort((a, b) => a.start.localeCompare(b.start)),
+  };
+}
+
+/**
+ * Skip holidays, breaks and reading days in recurring events, and end open series on the last day of class
+ */
+export function skipTermBreaks(events: SyllabusEvent[], term: TermInfo): SyllabusEvent[] {
+  return events.map(event => {
+    if (!event.recurrence) return event;
+
+    const until = event.recurrence.until || term.end;
+    const skipped = getOccurrenceDates({ ...event, recurrence: { ...event.recurrence, until } }, getTermEnd(term))
+      .filter(date => {
+        const period = findNonInstructionalPeriod(term, date);
+        return period && period.kind !== 'finals';
+      });
+    const exceptions = Array.from(new Set([...(event.recurrence.exceptions || []), ...skipped])).sort();
+
+    if (until === event.recurrence.until && exceptions.length === (event.recurrence.exceptions || []).length) {
+      return event;
+    }
+    return {
+      ...event,
+      recurrence: { ...event.recurrence, until, exceptions: exceptions.length > 0 ? exceptions : undefined },
+    };
+  });
+}
+
+/**
+ * Single events that fall on a non-instructional day. Exams are expected in the finals window;
+ * lectures and quizzes there are not.
+ */
+export function findTermConflicts(events: SyllabusEvent[], term: TermInfo): TermConflict[] {
+  return events.flatMap(event => {
+    if (event.recurrence) return [];
+    const period = findNonInstructionalPeriod(term, event.date);
+    if (!period) return [];
+    if (period.kind === 'finals' && event.type !== 'lecture' && event.type !== 'quiz') return [];
+    return [{ event, period }];
+  });
+}
@@ -0,0 +1,167 @@
+import { PDFProcessor } from './pdf-parser';
+import { htmlToText, cleanStructuredText } from './html-text';
+import { ExtractionListener, OCRReport } from '@/types/syllabus';
+
+export type SyllabusFormat = 'pdf' | 'docx' | 'html' | 'markdown' | 'text';
+
+export interface TextExtractor {
+  format: SyllabusFormat;
+  label: string;
+  mimeTypes: string[];
+  extensions: string[];
+  /** Recognise the format from the file's leading bytes, when it has a signature */
+  sniff?: (buffer: Buffer) => boolean;
+  /** Binary formats are only accepted when the signature matches */
+  requiresSignature?: boolean;
+  extract: (buffer: Buffer, onProgress?: ExtractionListener['onProgress']) => Promise<ExtractorOutput>;
+}
+
+export interface ExtractorOutput {
+  text: string;
+  ocr?: OCRReport;
+  pages?: string[]; // per-page text for paged formats
+}
+
+export interface ExtractedText extends ExtractorOutput {
+  format: SyllabusFormat;
+}
+
+const MIN_TEXT_LENGTH = 50;
+
+/**
+ * Decode a text file, rejecting content that looks binary
+ */
+function decodeTextBuffer(buffer: Buffer): string {
+  if (buffer.subarray(0, 8192).includes(0)) {
+    throw new Error('File does not appear to be a text document');
+  }
+  return buffer.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+const pdfExtractor: TextExtractor = {
+  format: 'pdf',
+  label: 'PDF',
+  mimeTypes: ['application/pdf'],
+  extensions: ['.pdf'],
+  sniff: buffer => PDFProcessor.validatePDFBuffer(buffer),
+  requiresSignature: true,
+  extract: (buffer, onProgress) => PDFProcessor.processForAI(buffer, undefined, onProgress),
+};
+
+const docxExtractor: TextExtractor = {
+  format: 'docx',
+  label: 'Word (.docx)',
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  extensions: ['.docx'],
+  // DOCX is a ZIP archive; entry names are stored uncompressed in the local headers
+  sniff: buffer => buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04])) &&
+    buffer.includes('word/'),
+  requiresSignature: true,
+  extract: async buffer => {
+    try {
+      // Dynamic import to avoid build issues
+      const mammoth = await import('mammoth');
+      const { value } = await mammoth.convertToHtml({ buffer });
+      return { text: cleanStructuredText(htmlToText(value)) };
+    } catch (error) {
+      console.error('DOCX parsing error:', error);
+      throw new Error(`Failed to parse Word document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+};
+
+const htmlExtractor: TextExtractor = {
+  format: 'html',
+  label: 'HTML',
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  extensions: ['.html', '.htm'],
+  sniff: buffer => /^\s*(<\?xml[^>]*>\s*)?(<!doctype html|<html)/i.test(buffer.subarray(0, 1024).toString('utf8').replace(/^\uFEFF/, '')),
+  extract: async buffer => ({ text: cleanStructuredText(htmlToText(decodeTextBuffer(buffer))) }),
+};
+
+const markdownExtractor: TextExtractor = {
+  format: 'markdown',
+  label: 'Markdown',
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  extensions: ['.md', '.markdown'],
+  extract: async buffer => ({ text: cleanStructuredText(decodeTextBuffer(buffer)) }),
+};
+
+const plainTextExtractor: TextExtractor = {
+  format: 'text',
+  label: 'Plain text',
+  mimeTypes: ['text/plain'],
+  extensions: ['.txt'],
+  extract: async buffer => ({ text: cleanStructuredText(decodeTextBuffer(buffer)) }),
+};
+
+export class TextExtractorRegistry {
+  private static extractors: TextExtractor[] = [
+    pdfExtractor,
+    docxExtractor,
+    htmlExtractor,
+    markdownExtractor,
+    plainTextExtractor,
+  ];
+
+  /**
+   * Add an extractor; later registrations take precedence for the same MIME type or extension
+   */
+  static register(extractor: TextExtractor): void {
+    this.extractors = [extractor, ...this.extractors.filter(e => e.format !== extractor.format)];
+  }
+
+  /**
+   * All registered extractors
+   */
+  static list(): TextExtractor[] {
+    return [...this.extractors];
+  }
+
+  /**
+   * Pick an extractor by magic bytes first, then the declared MIME type, then the file extension
+   */
+  static detect(buffer: Buffer, mimeType?: string, fileName?: string): TextExtractor | undefined {
+    const bySignature = this.extractors.find(e => e.sniff?.(buffer));
+    if (bySignature) return bySignature;
+
+    // Binary formats must match their signature; don't trust the MIME type or name alone
+    const candidates = this.extractors.filter(e => !e.requiresSignature);
+
+    const mime = mimeType?.split(';')[0].trim().toLowerCase();
+    const byMime = mime ? candidates.find(e => e.mimeTypes.includes(mime)) : undefined;
+    if (byMime) return byMime;
+
+    const extension = fileName?.toLowerCase().match(/\.[a-z0-9]+$/)?.[0];
+    return extension ? candidates.find(e => e.extensions.includes(extension)) : undefined;
+  }
+
+  /**
+   * Extract prompt-ready text from an uploaded file
+   */
+  static async extract(
+    buffer: Buffer,
+    mimeType?: string,
+    fileName?: string,
+    onProgress?: ExtractionListener['onProgress']
+  ): Promise<ExtractedText> {
+    const extractor = this.detect(buffer, mimeType, fileName);
+    if (!extractor) {
+      throw new Error(`Unsupported file type. Supported formats: ${this.describeFormats()}`);
+    }
+
+    const output = await extractor.extract(buffer, onProgress);
+    if (output.text.length < MIN_TEXT_LENGTH) {
+      throw new Error(`${extractor.label} file appears to contain very little text content`);
+    }
+
+    return { ...output, format: extractor.format };
+  }
+
+  /**
+   * Human-readable list of supported formats
+   */
+  static describeFormats(): string {
+    return this.extractors.map(e => e.label).join(', ');
+  }
+}
@@ -0,0 +1,192 @@
+// Used when neither the syllabus nor the user's browser provides a time zone
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+/**
+ * Detect the IANA time zone of the current runtime (the browser on the client)
+ */
+export function detectTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+/**
+ * Check that a string is an IANA time zone known to this runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * List the IANA time zones supported by this runtime, falling back to a short list
+ */
+export function listTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  if (typeof intl.supportedValuesOf === 'function') {
+    return intl.supportedValuesOf('timeZone');
+  }
+  return [
+    'America/New_York',
+    'America/Chicago',
+    'America/Denver',
+    'America/Phoenix',
+    'America/Los_Angeles',
+    'America/Anchorage',
+    'Pacific/Honolulu',
+    'Europe/London',
+    'Europe/Berlin',
+    'Asia/Kolkata',
+    'Asia/Tokyo',
+    'Australia/Sydney',
+    'UTC',
+  ];
+}
+
+/**
+ * Get the UTC offset of a time zone at an instant, in minutes east of UTC
+ */
+export function getTimeZoneOffset(timeZone: string, instant: number): number {
+  const date = new Date(Math.floor(instant / 1000) * 1000);
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+  return Math.round((asUTC - date.getTime()) / 60000);
+}
+
+/**
+ * Convert a wall-clock date and time in a time zone to a UTC timestamp
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const naive = Date.UTC(year, month - 1, day, hours, minutes);
+
+  const firstGuess = naive - getTimeZoneOffset(timeZone, naive) * 60000;
+  // Re-check in case the guess landed on the other side of a DST transition
+  return naive - getTimeZoneOffset(timeZone, firstGuess) * 60000;
+}
+
+/**
+ * Convert a UTC timestamp to the wall-clock date (YYYY-MM-DD) and time (HH:MM) in a time zone
+ */
+export function utcToZonedTime(instant: number, timeZone: string): { date: string; time: string } {
+  const local = new Date(instant + getTimeZoneOffset(timeZone, instant) * 60000).toISOString();
+  return {
+    date: local.slice(0, 10),
+    time: local.slice(11, 16),
+  };
+}
+
+/**
+ * Short display name of a time zone at an instant, e.g. "EDT"
+ */
+function getTimeZoneName(timeZone: string, instant: number): string | undefined {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(instant));
+  return parts.find(p => p.type === 'timeZoneName')?.value;
+}
+
+/**
+ * Format a UTC offset in minutes as +HHMM / -HHMM
+ */
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Format a timestamp shifted by an offset as an iCalendar local date-time
+ */
+function formatLocal(instant: number, offsetMinutes: number): string {
+  return new Date(instant + offsetMinutes * 60000)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .split('.')[0];
+}
+
+/**
+ * Find the instants in [start, end) where the time zone's UTC offset changes
+ */
+function findTransitions(timeZone: string, start: number, end: number): number[] {
+  const DAY = 24 * 60 * 60 * 1000;
+  const transitions: number[] = [];
+
+  let previous = getTimeZoneOffset(timeZone, start);
+  for (let day = start; day < end; day += DAY) {
+    const next = Math.min(day + DAY, end);
+    if (getTimeZoneOffset(timeZone, next) === previous) continue;
+
+    // Narrow the change down to the minute
+    let low = day;
+    let high = next;
+    while (high - low > 60000) {
+      const mid = low + Math.floor((high - low) / 120000) * 60000;
+      if (getTimeZoneOffset(timeZone, mid) === previous) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    transitions.push(high);
+    previous = getTimeZoneOffset(timeZone, high);
+  }
+
+  return transitions;
+}
+
+/**
+ * Build a VTIMEZONE component describing a time zone's offsets for the given years
+ */
+export function buildVTimezone(timeZone: string, fromYear: number, toYear: number): string[] {
+  const start = Date.UTC(fromYear, 0, 1);
+  const end = Date.UTC(toYear + 1, 0, 1);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  const pushComponent = (instant: number, offsetFrom: number, offsetTo: number) => {
+    const kind = offsetTo > offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+    const name = getTimeZoneName(timeZone, instant);
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatLocal(instant, offsetFrom)}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      ...(name ? [`TZNAME:${name}`] : []),
+      `END:${kind}`
+    );
+  };
+
+  // Offset in effect at the start of the range
+  const initialOffset = getTimeZoneOffset(timeZone, start);
+  pushComponent(start, initialOffset, initialOffset);
+
+  let previous = initialOffset;
+  for (const transition of findTransitions(timeZone, start, end)) {
+    const offset = getTimeZoneOffset(timeZone, transition);
+    pushComponent(transition, previous, offset);
+    previous = offset;
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
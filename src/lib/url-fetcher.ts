@@ -0,0 +1,249 @@
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+
+export interface FetchedDocument {
+  buffer: Buffer;
+  contentType?: string;
+  url: string;
+}
+
+export interface FetchOptions {
+  maxBytes?: number;
+  timeoutMs?: number;
+  maxRedirects?: number;
+}
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_REDIRECTS = 5;
+
+// Ranges that must never be reachable from a user-supplied URL
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+// :: and ::1 are covered by decoding ::/96 to 0.0.0.0/8
+const BLOCKED_IPV6_RANGES: [string, number][] = [
+  ['fc00::', 7],      // unique local
+  ['fe80::', 10],     // link-local
+  ['ff00::', 8],      // multicast
+  ['64:ff9b::', 96],  // NAT64
+  ['2001:db8::', 32], // documentation
+  // Tunnels that carry an IPv4 address (which may be private) inside the IPv6 one; both are deprecated
+  ['2002::', 16],     // 6to4
+  ['2001::', 32],     // Teredo
+];
+
+const blockedAddresses = new net.BlockList();
+BLOCKED_IPV4_RANGES.forEach(([base, bits]) => blockedAddresses.addSubnet(base, bits, 'ipv4'));
+BLOCKED_IPV6_RANGES.forEach(([base, bits]) => blockedAddresses.addSubnet(base, bits, 'ipv6'));
+
+/**
+ * Convert a dotted IPv4 address to an unsigned 32-bit number
+ */
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((acc, octet) => ((acc << 8) | Number(octet)) >>> 0, 0);
+}
+
+/**
+ * Expand an IPv6 address into its eight 16-bit groups, accepting "::" and a dotted IPv4 tail
+ */
+function ipv6ToGroups(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[1]);
+    text = `${text.slice(0, -dotted[1].length)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const toGroups = (part: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const [head, tail] = text.split('::');
+  if (tail === undefined) return toGroups(head);
+  const headGroups = toGroups(head);
+  const tailGroups = toGroups(tail);
+  return [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill(0), ...tailGroups];
+}
+
+/**
+ * The IPv4 address inside an IPv4-mapped (::ffff:0:0/96) or IPv4-compatible (::/96) IPv6 address,
+ * in whichever notation it was written, e.g. ::ffff:7f00:1 -> 127.0.0.1
+ */
+function getEmbeddedIPv4(address: string): string | undefined {
+  const groups = ipv6ToGroups(address);
+  if (groups.slice(0, 5).some(group => group !== 0) || (groups[5] !== 0 && groups[5] !== 0xffff)) {
+    return undefined;
+  }
+  return [groups[6] >>> 8, groups[6] & 0xff, groups[7] >>> 8, groups[7] & 0xff].join('.');
+}
+
+/**
+ * Check whether an IP address is private, loopback, link-local or otherwise non-public
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = net.isIP(address);
+
+  if (version === 4) {
+    return blockedAddresses.check(address, 'ipv4');
+  }
+
+  if (version === 6) {
+    const embedded = getEmbeddedIPv4(address);
+    if (embedded) return isPrivateAddress(embedded);
+    return blockedAddresses.check(address.replace(/%.*$/, ''), 'ipv6');
+  }
+
+  return true;
+}
+
+/**
+ * Validate a user-supplied URL before any network access
+ */
+export function parsePublicUrl(input: string): URL {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new Error('Please enter a valid URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Only http and https URLs are supported');
+  }
+  if (url.username || url.password) {
+    throw new Error('URLs with credentials are not supported');
+  }
+  if (url.port && !['80', '443', '8080', '8443'].includes(url.port)) {
+    throw new Error('URLs on non-standard ports are not supported');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal') ||
+      (net.isIP(hostname) && isPrivateAddress(hostname))) {
+    throw new Error('URL points to a private or local address');
+  }
+
+  return url;
+}
+
+/**
+ * DNS lookup that refuses private addresses, so the check applies to the address actually connected to
+ */
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 4);
+
+    const resolved = addresses as unknown as dns.LookupAddress[];
+    const blocked = resolved.find(({ address }) => isPrivateAddress(address));
+    if (blocked || resolved.length === 0) {
+      return callback(new Error('URL points to a private or local address'), '', 4);
+    }
+
+    if ((options as dns.LookupOptions).all) {
+      (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, resolved);
+    } else {
+      callback(null, resolved[0].address, resolved[0].family);
+    }
+  });
+};
+
+/**
+ * Make a single GET request, without following redirects
+ */
+function request(url: URL, options: Required<FetchOptions>): Promise<{ status: number; location?: string; contentType?: string; buffer: Buffer }> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.get(url, {
+      lookup: guardedLookup,
+      timeout: options.timeoutMs,
+      headers: {
+        'User-Agent': 'syllabus-to-calendar/1.0',
+        Accept: 'text/html,application/xhtml+xml,text/plain,text/markdown,application/pdf;q=0.9,*/*;q=0.5',
+      },
+    }, res => {
+      const status = res.statusCode || 0;
+      if (status >= 300 && status < 400) {
+        res.resume();
+        resolve({ status, location: res.headers.location, buffer: Buffer.alloc(0) });
+        return;
+      }
+
+      const declaredLength = Number(res.headers['content-length'] || 0);
+      if (declaredLength > options.maxBytes) {
+        res.destroy();
+        reject(new Error(`Page is larger than ${Math.round(options.maxBytes / 1024 / 1024)}MB`));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let received = 0;
+      res.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > options.maxBytes) {
+          res.destroy();
+          reject(new Error(`Page is larger than ${Math.round(options.maxBytes / 1024 / 1024)}MB`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      res.on('end', () => resolve({
+        status,
+        contentType: res.headers['content-type'],
+        buffer: Buffer.concat(chunks),
+      }));
+      res.on('error', reject);
+    });
+
+    // Overall deadline, on top of the socket idle timeout
+    const deadline = setTimeout(() => req.destroy(new Error('Timed out fetching the URL')), options.timeoutMs);
+    req.on('close', () => clearTimeout(deadline));
+    req.on('timeout', () => req.destroy(new Error('Timed out fetching the URL')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Fetch a public web page or document, following redirects and re-validating each hop
+ */
+export async function fetchPublicDocument(input: string, options: FetchOptions = {}): Promise<FetchedDocument> {
+  const settings: Required<FetchOptions> = {
+    maxBytes: options.maxBytes ?? DEFAULT_MAX_BYTES,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxRedirects: options.maxRedirects ?? DEFAULT_MAX_REDIRECTS,
+  };
+
+  let url = parsePublicUrl(input);
+
+  for (let redirects = 0; redirects <= settings.maxRedirects; redirects++) {
+    const response = await request(url, settings);
+
+    if (response.status >= 300 && response.status < 400) {
+      if (!response.location) {
+        throw new Error(`Redirect from ${url.hostname} had no location`);
+      }
+      url = parsePublicUrl(new URL(response.location, url).toString());
+      continue;
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Could not fetch the URL (HTTP ${response.status})`);
+    }
+
+    return { buffer: response.buffer, contentType: response.contentType, url: url.toString() };
+  }
+
+  throw new Error('Too many redirects');
+}
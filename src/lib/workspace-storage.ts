@@ -0,0 +1,277 @@
+import { StoredSyllabus, SyllabusEvent, WorkspaceCourse } from '@/types/syllabus';
+
+export type WorkspaceStorageName = 'local' | 'server';
+
+// Where the workspace is saved between sessions. The course and its edited events are saved separately,
+// so editing an event doesn't rewrite the raw extraction.
+export interface WorkspaceStorage {
+  name: WorkspaceStorageName;
+  /** Every saved course with its edited events, oldest first */
+  load(): Promise<WorkspaceCourse[]>;
+  saveCourse(course: WorkspaceCourse): Promise<void>;
+  saveEvents(courseId: string, events: SyllabusEvent[]): Promise<void>;
+  removeCourse(courseId: string): Promise<void>;
+}
+
+const DATABASE_NAME = 'syllabus-to-calendar';
+// localStorage key remembering that this browser chose to save on the server
+const STORAGE_PREFERENCE_KEY = 'syllabus-to-calendar:storage';
+const DATABASE_VERSION = 1;
+const SYLLABI = 'syllabi';
+const EVENTS = 'events';
+
+interface StoredEvents {
+  courseId: string;
+  events: SyllabusEvent[];
+}
+
+/**
+ * Wait for an IndexedDB request to finish
+ */
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wait for an IndexedDB transaction to commit
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * The stored form of a course, without its edited events
+ */
+function toStoredSyllabus(course: WorkspaceCourse, createdAt?: string): StoredSyllabus {
+  const { events: _events, ...details } = course;
+  const now = new Date().toISOString();
+  return { ...details, createdAt: createdAt || now, updatedAt: now };
+}
+
+/**
+ * A saved syllabus and its edited events as a workspace course; before the first edit, the extraction's events
+ */
+function toWorkspaceCourse(stored: StoredSyllabus, events?: SyllabusEvent[]): WorkspaceCourse {
+  const { createdAt: _createdAt, updatedAt: _updatedAt, ...course } = stored;
+  return { ...course, events: events || stored.syllabus.events };
+}
+
+/**
+ * Courses saved in this browser's IndexedDB
+ */
+class LocalWorkspaceStorage implements WorkspaceStorage {
+  readonly name = 'local';
+
+  constructor(private database: IDBDatabase) {}
+
+  /**
+   * Open the database, creating its object stores on first use
+   */
+  static async open(): Promise<LocalWorkspaceStorage> {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SYLLABI)) db.createObjectStore(SYLLABI, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(EVENTS)) db.createObjectStore(EVENTS, { keyPath: 'courseId' });
+    };
+    return new LocalWorkspaceStorage(await requestResult(request));
+  }
+
+  async load(): Promise<WorkspaceCourse[]> {
+    const transaction = this.database.transaction([SYLLABI, EVENTS], 'readonly');
+    const [syllabi, events] = await Promise.all([
+      requestResult(transaction.objectStore(SYLLABI).getAll()) as Promise<StoredSyllabus[]>,
+      requestResult(transaction.objectStore(EVENTS).getAll()) as Promise<StoredEvents[]>,
+    ]);
+
+    return syllabi
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(stored => toWorkspaceCourse(stored, events.find(e => e.courseId === stored.id)?.events));
+  }
+
+  async saveCourse(course: WorkspaceCourse): Promise<void> {
+    const transaction = this.database.transaction(SYLLABI, 'readwrite');
+    const store = transaction.objectStore(SYLLABI);
+    const existing = await requestResult(store.get(course.id)) as StoredSyllabus | undefined;
+    store.put(toStoredSyllabus(course, existing?.createdAt));
+    await transactionDone(transaction);
+  }
+
+  async saveEvents(courseId: string, events: SyllabusEvent[]): Promise<void> {
+    const transaction = this.database.transaction(EVENTS, 'readwrite');
+    transaction.objectStore(EVENTS).put({ courseId, events } as StoredEvents);
+    await transactionDone(transaction);
+  }
+
+  async removeCourse(courseId: string): Promise<void> {
+    const transaction = this.database.transaction([SYLLABI, EVENTS], 'readwrite');
+    transaction.objectStore(SYLLABI).delete(courseId);
+    transaction.objectStore(EVENTS).delete(courseId);
+    await transactionDone(transaction);
+  }
+}
+
+/**
+ * Courses saved through /api/syllabi, when the server has storage configured
+ */
+class ServerWorkspaceStorage implements WorkspaceStorage {
+  readonly name = 'server';
+
+  /**
+   * Call the syllabus API, throwing its error message when the request fails
+   */
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`/api/syllabi${path}`, init);
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to reach saved syllabi');
+    }
+    return result.data;
+  }
+
+  async load(): Promise<WorkspaceCourse[]> {
+    const syllabi = await this.request<StoredSyllabus[]>('');
+    return Promise.all(syllabi.map(async stored =>
+      toWorkspaceCourse(stored, await this.request<SyllabusEvent[] | null>(`/${encodeURIComponent(stored.id)}/events`) ?? undefined)));
+  }
+
+  async saveCourse(course: WorkspaceCourse): Promise<void> {
+    const { events: _events, ...details } = course;
+    await this.request(`/${encodeURIComponent(course.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(details),
+    });
+  }
+
+  async saveEvents(courseId: string, events: SyllabusEvent[]): Promise<void> {
+    await this.request(`/${encodeURIComponent(courseId)}/events`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ events }),
+    });
+  }
+
+  async removeCourse(courseId: string): Promise<void> {
+    await this.request(`/${encodeURIComponent(courseId)}`, { method: 'DELETE' });
+  }
+}
+
+/**
+ * Whether the server has storage configured (SYLLABUS_STORE and SYLLABUS_STORE_SECRET), and whether this
+ * browser has entered the storage password
+ */
+export async function getServerStorageStatus(): Promise<'unavailable' | 'locked' | 'available'> {
+  try {
+    const response = await fetch('/api/syllabi', { method: 'HEAD' });
+    if (response.status === 401) return 'locked';
+    return response.ok ? 'available' : 'unavailable';
+  } catch {
+    // Offline or no API
+    return 'unavailable';
+  }
+}
+
+/**
+ * Give this browser access to server storage, throwing when the password is wrong
+ */
+export async function unlockServerStorage(secret: string): Promise<void> {
+  const response = await fetch('/api/syllabi/access', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ secret }),
+  });
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || 'Could not unlock server storage');
+  }
+}
+
+/**
+ * Whether this browser chose to save on the server. The server store has no accounts and is shared by
+ * everyone who knows its password, so it is never used unless chosen.
+ */
+export function prefersServerStorage(): boolean {
+  try {
+    return localStorage.getItem(STORAGE_PREFERENCE_KEY) === 'server';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remember where this browser saves the workspace
+ */
+export function setServerStoragePreference(useServer: boolean): void {
+  try {
+    if (useServer) {
+      localStorage.setItem(STORAGE_PREFERENCE_KEY, 'server');
+    } else {
+      localStorage.removeItem(STORAGE_PREFERENCE_KEY);
+    }
+  } catch {
+    // Storage disabled: nothing to remember the choice in
+  }
+}
+
+/**
+ * Save on the server when this browser chose to and it has storage configured, otherwise in this browser;
+ * null when neither is available
+ */
+export async function openWorkspaceStorage(): Promise<WorkspaceStorage | null> {
+  if (prefersServerStorage() && await getServerStorageStatus() === 'available') {
+    return new ServerWorkspaceStorage();
+  }
+
+  if (typeof indexedDB === 'undefined') return null;
+  try {
+    return await LocalWorkspaceStorage.open();
+  } catch (error) {
+    console.warn('IndexedDB unavailable:', error);
+    return null;
+  }
+}
+
+/**
+ * Save what changed between two snapshots of the workspace: new or changed courses, edited events and removed courses
+ */
+export async function saveWorkspaceChanges(
+  storage: WorkspaceStorage,
+  previous: WorkspaceCourse[],
+  current: WorkspaceCourse[]
+): Promise<void> {
+  for (const course of current) {
+    const before = previous.find(c => c.id === course.id);
+    if (before === course) continue;
+
+    // The course first, so its events always have something to belong to
+    if (!before || before.syllabus !== course.syllabus || before.color !== course.color ||
+        before.fileName !== course.fileName || before.fileHash !== course.fileHash) {
+      await storage.saveCourse(course);
+    }
+    if (!before || before.events !== course.events) {
+      await storage.saveEvents(course.id, course.events);
+    }
+  }
+
+  for (const course of previous) {
+    if (!current.some(c => c.id === course.id)) {
+      await storage.removeCourse(course.id);
+    }
+  }
+}
+
+/**
+ * SHA-256 of a file as hex, to recognize the same syllabus uploaded again
+ */
+export async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,72 @@
+import { ProcessedSyllabus, SyllabusEvent, WorkspaceCourse } from '@/types/syllabus';
+
+// Distinct colors for courses' events, handed out in order
+export const COURSE_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777', '#ca8a04'];
+
+// Course codes at the start of a name, e.g. "CS 101" in "CS 101: Intro to Programming"
+const COURSE_CODE_PATTERN = /^[A-Z]{2,5}[\s-]?\d{2,4}[A-Z]?\b/;
+
+/**
+ * Tag events with the course they belong to
+ */
+export function assignCourse(events: SyllabusEvent[], courseId: string): SyllabusEvent[] {
+  return events.map(event => (event.courseId === courseId ? event : { ...event, courseId }));
+}
+
+/**
+ * Add a processed syllabus to the workspace as a course, with the first color no other course uses
+ */
+export function createCourse(syllabus: ProcessedSyllabus, courses: WorkspaceCourse[], fileName?: string): WorkspaceCourse {
+  const id = `course-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const usedColors = courses.map(course => course.color);
+  const color = COURSE_COLORS.find(c => !usedColors.includes(c)) || COURSE_COLORS[courses.length % COURSE_COLORS.length];
+
+  return { id, color, syllabus, events: assignCourse(syllabus.events, id), fileName };
+}
+
+/**
+ * Short name for a course: its course code when the name starts with one
+ */
+export function getCourseLabel(course: WorkspaceCourse): string {
+  const name = course.syllabus.courseName?.trim();
+  if (!name) return course.fileName || 'Untitled course';
+  return name.match(COURSE_CODE_PATTERN)?.[0] || name;
+}
+
+/**
+ * Every course's events for a single calendar, with titles prefixed by the course so they can be told apart
+ */
+export function combineCourseEvents(courses: WorkspaceCourse[]): SyllabusEvent[] {
+  return courses.flatMap(course => {
+    const label = getCourseLabel(course);
+    return course.events.map(event => ({
+      ...event,
+      title: `${label}: ${event.title}`,
+      course: event.course || course.syllabus.courseName,
+    }));
+  });
+}
+
+/**
+ * Each course's time zone by course id, so exports covering several courses keep every event in its own zone
+ */
+export function getCourseTimeZones(courses: WorkspaceCourse[]): Record<string, string> {
+  return courses.reduce((acc, course) => {
+    if (course.syllabus.timeZone) acc[course.id] = course.syllabus.timeZone;
+    return acc;
+  }, {} as Record<string, string>);
+}
+
+/**
+ * The time zone most courses use, as the default for exports that cover all of them
+ */
+export function getWorkspaceTimeZone(courses: WorkspaceCourse[]): string | undefined {
+  const counts = courses.reduce((acc, course) => {
+    if (course.syllabus.timeZone) {
+      acc[course.syllabus.timeZone] = (acc[course.syllabus.timeZone] || 0) + 1;
+    }
+    return acc;
+  }, {} as Record<string, number>);
+
+  return Object.keys(counts).sort((a, b) => counts[b] - counts[a])[0];
+}
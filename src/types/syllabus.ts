@@ -1,3 +1,12 @@
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface EventRecurrence {
+  frequency: 'weekly' | 'biweekly';
+  daysOfWeek: Weekday[];
+  until?: string; // ISO format (YYYY-MM-DD), inclusive
+  exceptions?: string[]; // ISO dates skipped by the series (holidays, breaks)
+}
+
 export interface SyllabusEvent {
   id?: string;
   title: string;
@@ -9,6 +18,51 @@ export interface SyllabusEvent {
   course?: string;
   location?: string;
   duration?: number; // in minutes
+  recurrence?: EventRecurrence; // first occurrence is `date`
+  dateExpression?: string; // original term-relative phrase, e.g. "Week 3 Monday"
+  confidence?: number; // 0-1, how sure the extraction is; unset once a person has reviewed the event
+  source?: EventSource;
+  courseId?: string; // workspace course the event belongs to
+}
+
+export interface EventSource {
+  text: string; // verbatim syllabus text the event came from
+  page?: number; // 1-based page of a PDF
+}
+
+export type NonInstructionalKind = 'holiday' | 'break' | 'reading-day' | 'finals';
+
+export interface NonInstructionalPeriod {
+  name: string; // e.g. "Thanksgiving Break"
+  kind: NonInstructionalKind;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export interface TermInfo {
+  start: string; // first day of class (YYYY-MM-DD)
+  end?: string; // last day of class (YYYY-MM-DD)
+  meetingDays?: Weekday[];
+  noClassDates?: string[]; // holidays and breaks within the term
+  breaks?: NonInstructionalPeriod[]; // named holidays, breaks, reading days and the finals window
+}
+
+// One term in an institution's academic calendar (src/data/terms/*.json)
+export interface AcademicTermDefinition {
+  id: string; // e.g. "fall-2024"
+  name: string;
+  start: string; // first day of classes
+  end: string; // last day of classes
+  holidays?: { name: string; date: string }[];
+  breaks?: { name: string; start: string; end: string }[];
+  readingDays?: string[];
+  finals?: { start: string; end: string };
+}
+
+export interface InstitutionCalendar {
+  id: string;
+  institution: string;
+  terms: AcademicTermDefinition[];
 }
 
 export interface ProcessedSyllabus {
@@ -17,13 +71,96 @@ export interface ProcessedSyllabus {
   instructor?: string;
   semester?: string;
   year?: number;
+  timeZone?: string; // IANA name, e.g. America/Chicago
+  term?: TermInfo;
+}
+
+// One course in the workspace: the syllabus as extracted, and its events as edited since
+export interface WorkspaceCourse {
+  id: string;
+  color: string; // hex color for the course's events
+  syllabus: ProcessedSyllabus;
+  events: SyllabusEvent[];
+  fileName?: string;
+  fileHash?: string; // SHA-256 of the uploaded file, hex
+}
+
+// A course as saved. Its edited events are stored separately; `syllabus.events` keeps the raw extraction.
+export interface StoredSyllabus extends Omit<WorkspaceCourse, 'events'> {
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OCRPageConfidence {
+  page: number;
+  confidence: number; // 0-100, as reported by the OCR engine
+}
+
+export interface OCRReport {
+  pages: OCRPageConfidence[];
+  averageConfidence: number;
+}
+
+// Rule-based extraction run alongside the AI as a second opinion
+export type ExtractionStage = 'parsing' | 'ocr' | 'extracting' | 'validating';
+
+export interface ExtractionProgress {
+  stage: ExtractionStage;
+  message: string;
+  completed?: number; // steps done within the stage, e.g. OCR pages or syllabus sections
+  total?: number;
+}
+
+// Callbacks for reporting a long-running extraction as it goes
+export interface ExtractionListener {
+  onProgress?: (progress: ExtractionProgress) => void;
+  onEvents?: (events: SyllabusEvent[], term?: TermInfo) => void; // events found so far, before merging and validation, and any term they came with
+  onEventsReset?: () => void; // drop the events reported so far, because extraction starts over (e.g. with a fallback model)
+}
+
+export interface ExtractionCrossCheck {
+  ruleEventCount: number;
+  matchedCount: number;
+  missedByModel: SyllabusEvent[]; // dated items the rules found but the AI didn't
 }
 
 export interface UploadResponse {
   success: boolean;
   message: string;
   data?: ProcessedSyllabus;
+  ocr?: OCRReport;
+  extractionMethod?: 'ai' | 'rules';
+  crossCheck?: ExtractionCrossCheck;
+  error?: string;
+}
+
+// Body of a failed /api/process-syllabus request
+export interface ProcessingFailure {
+  success: false;
+  error: string;
+}
+
+// Messages of the /api/process-syllabus Server-Sent Events stream; "result" and "error" carry the JSON response body
+export type ProcessingStreamMessage =
+  | { event: 'progress'; data: ExtractionProgress }
+  | { event: 'events'; data: { events: SyllabusEvent[] } }
+  | { event: 'reset'; data: Record<string, never> }
+  | { event: 'result'; data: UploadResponse }
+  | { event: 'error'; data: ProcessingFailure };
+
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+// A syllabus processed in the background; polled at /api/jobs/:id
+export interface ProcessingJob {
+  id: string;
+  status: JobStatus;
+  label: string; // file name, "Pasted text" or the URL
+  attempts: number;
+  progress?: ExtractionProgress;
+  result?: UploadResponse; // once completed; data holds the ProcessedSyllabus
   error?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface GoogleCalendarEvent {
@@ -40,10 +177,42 @@ export interface GoogleCalendarEvent {
     timeZone?: string;
   };
   location?: string;
+  recurrence?: string[]; // RRULE / EXDATE lines
+  extendedProperties?: {
+    private?: Record<string, string>;
+  };
+}
+
+export interface GoogleCalendarSummary {
+  id: string;
+  summary: string;
+  primary?: boolean;
+}
+
+export interface GoogleExportResult {
+  calendarId: string;
+  success: string[]; // Google event ids
+  failed: { event: SyllabusEvent; error: string }[];
+}
+
+export interface GoogleSyncChange {
+  action: 'insert' | 'update' | 'delete';
+  title: string;
+  date?: string;
+  eventId?: string; // SyllabusEvent id
+  googleEventId?: string;
+}
+
+export interface GoogleSyncResult {
+  calendarId: string;
+  dryRun: boolean;
+  changes: GoogleSyncChange[];
+  unchanged: number;
+  failed: { change: GoogleSyncChange; error: string }[];
 }
 
 export interface CalendarViewMode {
-  type: 'month' | 'week' | 'list';
+  type: 'month' | 'week' | 'agenda' | 'list'; // agenda groups upcoming events by week of term
 }
 
 export interface EventEditFormData {
@@ -54,4 +223,5 @@ export interface EventEditFormData {
   type: SyllabusEvent['type'];
   priority: SyllabusEvent['priority'];
   location?: string;
+  recurrence?: EventRecurrence;
 }